@@ -45,13 +45,59 @@ if (!admin.apps.length) {
     admin.initializeApp();
 }
 const db = admin.firestore();
+/**
+ * Running average after adding (sign 1) or removing (sign -1) one value.
+ */
+function updateAverage(avg, count, value, sign) {
+    const newCount = count + sign;
+    return newCount > 0 ? ((avg * count) + sign * value) / newCount : 0;
+}
+/**
+ * Adds (sign 1) or removes (sign -1) one session's contribution to the metrics.
+ * Synced sessions are per-domain, so each average only counts the sessions
+ * that carry that feature.
+ */
+function applySession(currentMetrics, sessionData, sign) {
+    var _a, _b, _c, _d;
+    const memoryAccuracy = (_a = sessionData.features) === null || _a === void 0 ? void 0 : _a.memoryAccuracy;
+    const memoryCount = (_b = currentMetrics.memorySessionCount) !== null && _b !== void 0 ? _b : currentMetrics.totalSessions;
+    const hasMemory = typeof memoryAccuracy === 'number';
+    const reactionTimeAvg = (_c = sessionData.features) === null || _c === void 0 ? void 0 : _c.reactionTimeAvg;
+    const reactionCount = (_d = currentMetrics.reactionSessionCount) !== null && _d !== void 0 ? _d : currentMetrics.totalSessions;
+    const hasReaction = typeof reactionTimeAvg === 'number';
+    // Update risk distribution
+    const risk = sessionData.risk || 'low';
+    const newRiskDist = { ...currentMetrics.riskDistribution };
+    if (risk in newRiskDist) {
+        newRiskDist[risk] += sign;
+    }
+    return {
+        totalSessions: currentMetrics.totalSessions + sign,
+        avgMemoryScore: hasMemory
+            ? updateAverage(currentMetrics.avgMemoryScore, memoryCount, memoryAccuracy, sign)
+            : currentMetrics.avgMemoryScore,
+        avgReactionTime: hasReaction
+            ? updateAverage(currentMetrics.avgReactionTime, reactionCount, reactionTimeAvg, sign)
+            : currentMetrics.avgReactionTime,
+        memorySessionCount: memoryCount + (hasMemory ? sign : 0),
+        reactionSessionCount: reactionCount + (hasReaction ? sign : 0),
+        riskDistribution: newRiskDist,
+    };
+}
 exports.updateMetrics = functions.firestore
     .document('users/{userId}/sessions/{sessionId}')
-    .onWrite(async (change, context) => {
+    .onWrite(async (change) => {
     const metricsRef = db.doc('adminAnalytics/globalMetrics');
+    // Sessions the user flagged as invalid are left out of the metrics.
+    // Flagging removes a session's contribution and unflagging restores it.
+    const before = change.before.exists ? change.before.data() : undefined;
+    const after = change.after.exists ? change.after.data() : undefined;
+    const wasCounted = !!before && !before.invalid;
+    const isCounted = !!after && !after.invalid;
+    if (wasCounted === isCounted)
+        return;
     try {
         await db.runTransaction(async (transaction) => {
-            var _a, _b;
             const metricsDoc = await transaction.get(metricsRef);
             const currentMetrics = metricsDoc.data() || {
                 totalUsers: 0,
@@ -62,40 +108,15 @@ exports.updateMetrics = functions.firestore
                 sessionsToday: 0,
                 lastUpdated: null,
             };
-            const isNewSession = !change.before.exists && change.after.exists;
-            const isDeletedSession = change.before.exists && !change.after.exists;
-            if (isNewSession) {
-                const sessionData = change.after.data();
-                if (!sessionData)
-                    return;
-                const newTotal = currentMetrics.totalSessions + 1;
-                // Update running averages
-                const newAvgMemory = ((currentMetrics.avgMemoryScore * currentMetrics.totalSessions) +
-                    (((_a = sessionData.features) === null || _a === void 0 ? void 0 : _a.memoryAccuracy) || 0)) / newTotal;
-                const newAvgReaction = ((currentMetrics.avgReactionTime * currentMetrics.totalSessions) +
-                    (((_b = sessionData.features) === null || _b === void 0 ? void 0 : _b.reactionTimeAvg) || 0)) / newTotal;
-                // Update risk distribution
-                const risk = sessionData.risk || 'low';
-                const newRiskDist = { ...currentMetrics.riskDistribution };
-                if (risk in newRiskDist) {
-                    newRiskDist[risk]++;
-                }
-                transaction.set(metricsRef, {
-                    totalSessions: newTotal,
-                    avgMemoryScore: newAvgMemory,
-                    avgReactionTime: newAvgReaction,
-                    riskDistribution: newRiskDist,
-                    sessionsToday: admin.firestore.FieldValue.increment(1),
-                    lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-                }, { merge: true });
-            }
-            else if (isDeletedSession) {
-                // Decrement session count on delete
-                transaction.update(metricsRef, {
-                    totalSessions: admin.firestore.FieldValue.increment(-1),
-                    lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-                });
-            }
+            const isNewSession = !change.before.exists && isCounted;
+            const updated = isCounted
+                ? applySession(currentMetrics, after, 1)
+                : applySession(currentMetrics, before, -1);
+            transaction.set(metricsRef, {
+                ...updated,
+                ...(isNewSession && { sessionsToday: admin.firestore.FieldValue.increment(1) }),
+                lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+            }, { merge: true });
         });
     }
     catch (error) {
@@ -13,11 +13,64 @@ if (!admin.apps.length) {
 
 const db = admin.firestore();
 
+type Metrics = FirebaseFirestore.DocumentData;
+
+/**
+ * Running average after adding (sign 1) or removing (sign -1) one value.
+ */
+function updateAverage(avg: number, count: number, value: number, sign: 1 | -1): number {
+    const newCount = count + sign;
+    return newCount > 0 ? ((avg * count) + sign * value) / newCount : 0;
+}
+
+/**
+ * Adds (sign 1) or removes (sign -1) one session's contribution to the metrics.
+ * Synced sessions are per-domain, so each average only counts the sessions
+ * that carry that feature.
+ */
+function applySession(currentMetrics: Metrics, sessionData: Metrics, sign: 1 | -1): Metrics {
+    const memoryAccuracy = sessionData.features?.memoryAccuracy;
+    const memoryCount = currentMetrics.memorySessionCount ?? currentMetrics.totalSessions;
+    const hasMemory = typeof memoryAccuracy === 'number';
+
+    const reactionTimeAvg = sessionData.features?.reactionTimeAvg;
+    const reactionCount = currentMetrics.reactionSessionCount ?? currentMetrics.totalSessions;
+    const hasReaction = typeof reactionTimeAvg === 'number';
+
+    // Update risk distribution
+    const risk = sessionData.risk || 'low';
+    const newRiskDist = { ...currentMetrics.riskDistribution };
+    if (risk in newRiskDist) {
+        newRiskDist[risk as keyof typeof newRiskDist] += sign;
+    }
+
+    return {
+        totalSessions: currentMetrics.totalSessions + sign,
+        avgMemoryScore: hasMemory
+            ? updateAverage(currentMetrics.avgMemoryScore, memoryCount, memoryAccuracy, sign)
+            : currentMetrics.avgMemoryScore,
+        avgReactionTime: hasReaction
+            ? updateAverage(currentMetrics.avgReactionTime, reactionCount, reactionTimeAvg, sign)
+            : currentMetrics.avgReactionTime,
+        memorySessionCount: memoryCount + (hasMemory ? sign : 0),
+        reactionSessionCount: reactionCount + (hasReaction ? sign : 0),
+        riskDistribution: newRiskDist,
+    };
+}
+
 export const updateMetrics = functions.firestore
     .document('users/{userId}/sessions/{sessionId}')
-    .onWrite(async (change, context) => {
+    .onWrite(async (change) => {
         const metricsRef = db.doc('adminAnalytics/globalMetrics');
 
+        // Sessions the user flagged as invalid are left out of the metrics.
+        // Flagging removes a session's contribution and unflagging restores it.
+        const before = change.before.exists ? change.before.data() : undefined;
+        const after = change.after.exists ? change.after.data() : undefined;
+        const wasCounted = !!before && !before.invalid;
+        const isCounted = !!after && !after.invalid;
+        if (wasCounted === isCounted) return;
+
         try {
             await db.runTransaction(async (transaction) => {
                 const metricsDoc = await transaction.get(metricsRef);
@@ -31,49 +84,16 @@ export const updateMetrics = functions.firestore
                     lastUpdated: null,
                 };
 
-                const isNewSession = !change.before.exists && change.after.exists;
-                const isDeletedSession = change.before.exists && !change.after.exists;
-
-                if (isNewSession) {
-                    const sessionData = change.after.data();
-                    if (!sessionData) return;
-
-                    const newTotal = currentMetrics.totalSessions + 1;
-
-                    // Update running averages
-                    const newAvgMemory = (
-                        (currentMetrics.avgMemoryScore * currentMetrics.totalSessions) +
-                        (sessionData.features?.memoryAccuracy || 0)
-                    ) / newTotal;
-
-                    const newAvgReaction = (
-                        (currentMetrics.avgReactionTime * currentMetrics.totalSessions) +
-                        (sessionData.features?.reactionTimeAvg || 0)
-                    ) / newTotal;
-
-                    // Update risk distribution
-                    const risk = sessionData.risk || 'low';
-                    const newRiskDist = { ...currentMetrics.riskDistribution };
-                    if (risk in newRiskDist) {
-                        newRiskDist[risk as keyof typeof newRiskDist]++;
-                    }
-
-                    transaction.set(metricsRef, {
-                        totalSessions: newTotal,
-                        avgMemoryScore: newAvgMemory,
-                        avgReactionTime: newAvgReaction,
-                        riskDistribution: newRiskDist,
-                        sessionsToday: admin.firestore.FieldValue.increment(1),
-                        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-                    }, { merge: true });
+                const isNewSession = !change.before.exists && isCounted;
+                const updated = isCounted
+                    ? applySession(currentMetrics, after!, 1)
+                    : applySession(currentMetrics, before!, -1);
 
-                } else if (isDeletedSession) {
-                    // Decrement session count on delete
-                    transaction.update(metricsRef, {
-                        totalSessions: admin.firestore.FieldValue.increment(-1),
-                        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-                    });
-                }
+                transaction.set(metricsRef, {
+                    ...updated,
+                    ...(isNewSession && { sessionsToday: admin.firestore.FieldValue.increment(1) }),
+                    lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+                }, { merge: true });
             });
         } catch (error) {
             console.error('Error updating metrics:', error);
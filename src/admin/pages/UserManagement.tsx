@@ -8,6 +8,8 @@ import { useAuth } from '../../contexts/AuthContext';
 import { AdminSidebar } from '../components/AdminSidebar';
 import { MOCK_USERS } from '../data/mockData';
 import type { AdminUser } from '../data/mockData';
+import { adminResetBaseline } from '../../services/baselineEpochSync';
+import { logger } from '../../utils/logger';
 import './UserManagement.css';
 
 export function UserManagement() {
@@ -50,9 +52,12 @@ export function UserManagement() {
 
         setActionLoading(userId);
         try {
-            // Mock simulation
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            alert('Baseline reset successfully (Mock)');
+            // Starts a new baseline epoch; the user's devices pick it up on their next sync
+            await adminResetBaseline(userId);
+            alert('Baseline reset. Earlier sessions stay in the user\'s history but no longer count towards risk.');
+        } catch (error) {
+            logger.error('Failed to reset baseline:', error);
+            alert('Failed to reset baseline. Please try again.');
         } finally {
             setActionLoading(null);
         }
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for Anomaly Detector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies } from '../anomalyDetector';
+import type { ExtractedFeatures } from '../featureExtractor';
+
+// Reaction, memory and pattern move together across this history
+const history: ExtractedFeatures[] = [0, 1, 2, 3, 4, 5, 6, 7].map((i) => {
+    const level = [0, 0.02, -0.02, 0.03, -0.01, 0.01, -0.03, 0][i];
+    return {
+        memoryAccuracy: 0.8 + level,
+        reactionTimeAvg: 320 - level * 1000,
+        reactionTimeVariance: 100,
+        patternScore: 0.75 + level,
+        speechWPM: 130 + [2, -2, 1, -1][i % 4],
+        lexicalDiversity: 0.6 + [0.01, -0.01, 0, 0.005][i % 4],
+        fillerWordRatio: 0.05,
+        hesitationMarkers: 2,
+    };
+});
+
+const typical = history[0];
+
+describe('detectAnomalies (mahalanobis)', () => {
+    it('should not flag a typical session', () => {
+        const result = detectAnomalies(typical, history, 2, { mode: 'mahalanobis' });
+
+        expect(result.mode).toBe('mahalanobis');
+        expect(result.isAnomaly).toBe(false);
+        expect(result.pattern).toBeUndefined();
+    });
+
+    it('should call a joint dip across correlated domains a shared shift', () => {
+        const dip = { ...typical, memoryAccuracy: 0.7, reactionTimeAvg: 420, patternScore: 0.65 };
+        const result = detectAnomalies(dip, history, 2, { mode: 'mahalanobis' });
+
+        expect(result.isAnomaly).toBe(true);
+        expect(result.pattern).toBe('shared_shift');
+    });
+
+    it('should single out one domain breaking from the others', () => {
+        const breakaway = { ...typical, memoryAccuracy: 0.72 };
+        const result = detectAnomalies(breakaway, history, 2, { mode: 'mahalanobis' });
+
+        expect(result.isAnomaly).toBe(true);
+        expect(result.pattern).toBe('single_domain');
+        const top = Object.entries(result.contributions ?? {}).sort(([, a], [, b]) => b - a)[0][0];
+        expect(top).toBe('memoryAccuracy');
+    });
+
+    it('should keep the univariate mode as the default', () => {
+        const result = detectAnomalies(typical, history);
+        expect(result.mode).toBeUndefined();
+        expect(result.mahalanobisDistance).toBeUndefined();
+    });
+});
+
+describe('detectAnomalies (insufficient history)', () => {
+    it('should mark the result as saying nothing', () => {
+        const result = detectAnomalies(typical, history.slice(0, 2));
+
+        expect(result.isAnomaly).toBe(false);
+        expect(result.insufficientData).toBe(true);
+        expect(detectAnomalies(typical, history).insufficientData).toBeUndefined();
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the Assessment Pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assessUser } from '../assessUser';
+import type { ResultHistory } from '../assessUser';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date(2026, 0, 5, 9).getTime();
+
+// One full battery per `spacing` (a week); only the fields feature extraction reads
+function createHistory(memoryAccuracies: number[], spacing = 7 * DAY): ResultHistory {
+    const at = (week: number, minute: number) => new Date(START + week * spacing + minute * 60_000);
+    return {
+        memory: memoryAccuracies.map((accuracy, week) => ({ sessionId: `m${week}`, timestamp: at(week, 0), totalWords: 10, correctCount: accuracy * 10, accuracy })),
+        reaction: memoryAccuracies.map((_, week) => ({ sessionId: `r${week}`, timestamp: at(week, 5), aggregates: { avg: 300, variance: 100 } })),
+        pattern: memoryAccuracies.map((_, week) => ({ sessionId: `p${week}`, timestamp: at(week, 10), metrics: { totalRounds: 10, correctRounds: 8 } })),
+        language: memoryAccuracies.map((_, week) => ({
+            sessionId: `l${week}`,
+            timestamp: at(week, 15),
+            rawMetrics: { wordCount: 100, fillerWordCount: 5, pauseCount: 2 },
+            derivedFeatures: { wpm: 120, lexicalDiversity: 0.6 },
+        })),
+    } as unknown as ResultHistory;
+}
+
+describe('assessUser', () => {
+    it('should wait for enough sessions', async () => {
+        expect(await assessUser(createHistory([0.8, 0.8]), { batteryRecords: [], predict: null })).toBeNull();
+    });
+
+    it('should not assess sessions that all fall on one day', async () => {
+        // Three batteries an hour apart: enough sessions, but no domain spans two days
+        const history = createHistory([0.8, 0.8, 0.8], 60 * 60_000);
+        expect(await assessUser(history, { batteryRecords: [], predict: null })).toBeNull();
+        expect(await assessUser(createHistory([0.8, 0.8, 0.8]), { batteryRecords: [], predict: null })).not.toBeNull();
+    });
+
+    it('should report stable performance for a steady history', async () => {
+        const analysis = await assessUser(createHistory([0.8, 0.8, 0.8, 0.8]), { batteryRecords: [], predict: null });
+        expect(analysis?.riskLevel).toBe('stable');
+    });
+
+    it('should not invent a trend for domains the user never took', async () => {
+        // Reaction only: memory and pattern hold placeholders that practice correction must not touch
+        const rounds = Array.from({ length: 5 }, () => ({ reactionTime: 300 }));
+        const reaction = createHistory([0.8, 0.8, 0.8, 0.8, 0.8, 0.8]).reaction.map((r) => ({ ...r, rounds }));
+        const history = { memory: [], reaction, pattern: [], language: [] } as unknown as ResultHistory;
+        const analysis = await assessUser(history, { batteryRecords: [], predict: null });
+
+        expect(analysis?.riskLevel).toBe('stable');
+        expect(analysis?.topFactors).not.toContain('declining memory trend');
+        expect(analysis?.topFactors).not.toContain('declining pattern trend');
+        expect(analysis?.trendSlopes.memoryTrendSlope).toBe(0);
+        expect(analysis?.reliableChange.memory).toBeCloseTo(0);
+        expect(analysis?.reliableChange.pattern).toBeCloseTo(0);
+    });
+
+    it('should name memory as a factor when it drops', async () => {
+        const analysis = await assessUser(createHistory([0.9, 0.9, 0.9, 0.5]), { batteryRecords: [], predict: null });
+        expect(analysis?.topFactors).toContain('memory decline');
+        expect(analysis?.explanation).toContain('memory decline');
+    });
+});
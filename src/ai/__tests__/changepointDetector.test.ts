@@ -0,0 +1,78 @@
+/**
+ * Unit tests for Changepoint Detector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeChangepoint, detectChangepoints } from '../changepointDetector';
+import { computeRisk } from '../riskEngine';
+import { populationNoiseModel } from '../personalNoise';
+import type { SessionDataPoint } from '../trendAnalyzer';
+import type { ExtractedFeatures } from '../featureExtractor';
+
+const features: ExtractedFeatures = {
+    memoryAccuracy: 0.85,
+    reactionTimeAvg: 320,
+    reactionTimeVariance: 100,
+    patternScore: 0.85,
+    speechWPM: 130,
+    lexicalDiversity: 0.7,
+    fillerWordRatio: 0.03,
+    hesitationMarkers: 1,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 2, 1, 12);
+// Small, fixed session-to-session wobble
+const WOBBLE = [0.01, -0.01, 0, 0.015, -0.005, 0.005, -0.01, 0.01, 0, -0.015];
+
+function sessionsWith(memory: (i: number) => number, count = 10): SessionDataPoint[] {
+    return Array.from({ length: count }, (_, i) => ({
+        timestamp: START + i * 7 * DAY,
+        features: { ...features, memoryAccuracy: memory(i) + WOBBLE[i % WOBBLE.length] },
+    }));
+}
+
+describe('detectChangepoints', () => {
+    it('should find nothing in a stable history', () => {
+        expect(detectChangepoints(sessionsWith(() => 0.85))).toEqual([]);
+    });
+
+    it('should need enough sessions', () => {
+        expect(detectChangepoints(sessionsWith((i) => (i < 2 ? 0.85 : 0.55), 4))).toEqual([]);
+    });
+
+    it('should locate a sudden memory drop and its size', () => {
+        const sessions = sessionsWith((i) => (i < 6 ? 0.85 : 0.6));
+        const [step] = detectChangepoints(sessions);
+
+        expect(step.domain).toBe('memory');
+        expect(step.index).toBe(6);
+        expect(step.timestamp).toBe(sessions[6].timestamp);
+        expect(step.magnitude).toBeCloseTo(-0.25, 1);
+        expect(describeChangepoint(step)).toMatch(/^step change in memory on /);
+    });
+
+    it('should judge the step against the person\'s own noise when given', () => {
+        // A 0.07 drop is within population retest noise, but not for someone this steady
+        const sessions = sessionsWith((i) => (i < 6 ? 0.85 : 0.78));
+        const steady = { ...populationNoiseModel(), memory: { sem: 0.015, personalWeight: 1 } };
+
+        expect(detectChangepoints(sessions)).toEqual([]);
+        expect(detectChangepoints(sessions, 3, steady).map((cp) => cp.domain)).toEqual(['memory']);
+    });
+
+    it('should report a step decline as a risk factor', () => {
+        const changepoints = detectChangepoints(sessionsWith((i) => (i < 6 ? 0.85 : 0.6)));
+        const result = computeRisk(
+            features,
+            { ...features },
+            { memoryTrendSlope: 0, reactionTrendSlope: 0, patternTrendSlope: 0, languageTrendSlope: 0 },
+            { isAnomaly: false, anomalyScore: 0, deviations: {} },
+            null,
+            { changepoints }
+        );
+
+        expect(result.changepoints).toHaveLength(1);
+        expect(result.topFactors[0]).toMatch(/^step change in memory/);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for Context Adjustment
+ */
+
+import { describe, it, expect } from 'vitest';
+import { adjustFeaturesForContext, adjustSessionsForContext, describeContextFactors } from '../contextAdjustment';
+import { analyzeTrends } from '../trendAnalyzer';
+import type { SessionDataPoint } from '../trendAnalyzer';
+import type { ExtractedFeatures } from '../featureExtractor';
+
+const features: ExtractedFeatures = {
+    memoryAccuracy: 0.7,
+    reactionTimeAvg: 360,
+    reactionTimeVariance: 100,
+    patternScore: 0.7,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+    fillerWordRatio: 0.05,
+    hesitationMarkers: 2,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('adjustFeaturesForContext', () => {
+    it('should leave features unchanged without a check-in or with a neutral one', () => {
+        expect(adjustFeaturesForContext(features)).toEqual(features);
+        expect(adjustFeaturesForContext(features, { sleepHours: 8, hoursAwake: 3, mood: 3, pain: 0, recordedAt: '' }))
+            .toEqual(features);
+    });
+
+    it('should remove the expected effect of short sleep', () => {
+        const adjusted = adjustFeaturesForContext(features, { sleepHours: 4, recordedAt: '' });
+        expect(adjusted.reactionTimeAvg).toBe(315);
+        expect(adjusted.memoryAccuracy).toBeCloseTo(0.76);
+        expect(describeContextFactors({ sleepHours: 4, recordedAt: '' })).toEqual(['short sleep (4h)']);
+    });
+
+    it('should leave domains the session did not take unadjusted', () => {
+        const adjusted = adjustFeaturesForContext(features, { sleepHours: 4, caffeineDrinks: 2, recordedAt: '' }, ['memory']);
+        expect(adjusted.memoryAccuracy).toBeCloseTo(0.76);
+        expect(adjusted.reactionTimeAvg).toBe(features.reactionTimeAvg);
+        expect(adjusted.patternScore).toBe(features.patternScore);
+    });
+});
+
+describe('adjustSessionsForContext', () => {
+    it('should not move a carried-forward value with the check-in', () => {
+        const [session] = adjustSessionsForContext([
+            { timestamp: 0, features, context: { sleepHours: 4, recordedAt: '' }, measured: ['reaction'] },
+        ]);
+        expect(session.features.memoryAccuracy).toBe(0.7);
+        expect(session.features.reactionTimeAvg).toBe(315);
+    });
+});
+
+describe('analyzeTrends with adjustForContext', () => {
+    it('should not report a decline explained by a bad night', () => {
+        const sessions: SessionDataPoint[] = [
+            { timestamp: 0, features: { ...features, reactionTimeAvg: 300 } },
+            { timestamp: 7 * DAY, features: { ...features, reactionTimeAvg: 300 } },
+            { timestamp: 14 * DAY, features: { ...features, reactionTimeAvg: 345 }, context: { sleepHours: 4, recordedAt: '' } },
+        ];
+
+        expect(analyzeTrends(sessions).reactionTrendSlope).toBeLessThan(0);
+        expect(analyzeTrends(sessions, { adjustForContext: true }).reactionTrendSlope).toBeCloseTo(0);
+    });
+});
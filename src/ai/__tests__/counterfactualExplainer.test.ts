@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the Counterfactual Explainer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { explainCounterfactuals } from '../counterfactualExplainer';
+import type { ExtractedFeatures } from '../featureExtractor';
+import type { BaselineVector, AnomalyResult } from '../anomalyDetector';
+import type { TrendSlopes } from '../trendAnalyzer';
+import { isMessageSafe } from '../../ethics/messagingRules';
+
+const baseline: BaselineVector = {
+    memoryAccuracy: 0.8,
+    reactionTimeAvg: 300,
+    patternScore: 0.75,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+};
+
+function createFeatures(overrides: Partial<ExtractedFeatures> = {}): ExtractedFeatures {
+    return {
+        memoryAccuracy: 0.8,
+        reactionTimeAvg: 300,
+        reactionTimeVariance: 100,
+        patternScore: 0.75,
+        speechWPM: 120,
+        lexicalDiversity: 0.6,
+        fillerWordRatio: 0.05,
+        hesitationMarkers: 2,
+        ...overrides,
+    };
+}
+
+const flat: TrendSlopes = { memoryTrendSlope: 0, reactionTrendSlope: 0, patternTrendSlope: 0, languageTrendSlope: 0 };
+const noAnomaly: AnomalyResult = { isAnomaly: false, anomalyScore: 0, deviations: {} };
+
+describe('explainCounterfactuals', () => {
+    it('should have nothing to explain for a stable session', () => {
+        const result = explainCounterfactuals(createFeatures(), baseline, flat, noAnomaly);
+
+        expect(result.riskLevel).toBe('stable');
+        expect(result.targetLevel).toBeNull();
+        expect(result.summary).toEqual([]);
+    });
+
+    it('should find the smallest improvement in each lever that lowers the level', () => {
+        // A reliable memory decline and a declining memory trend: two signals
+        const current = createFeatures({ memoryAccuracy: 0.5 });
+        const slopes = { ...flat, memoryTrendSlope: -0.05 };
+
+        const result = explainCounterfactuals(current, baseline, slopes, noAnomaly);
+        const memory = result.domains.find((d) => d.domain === 'memory')!;
+
+        expect(result.riskLevel).toBe('change_detected');
+        expect(result.targetLevel).toBe('stable');
+        // RCI back above -1.645: 0.3 - 1.645 × SEdiff (0.093)
+        expect(memory.sessionImprovement).toBeCloseTo(0.147, 2);
+        // Slope back above the -0.03 threshold
+        expect(memory.trendImprovement).toBeCloseTo(0.02, 3);
+        expect(result.domains.filter((d) => d.domain !== 'memory')
+            .every((d) => d.sessionImprovement === null && d.trendImprovement === null)).toBe(true);
+    });
+
+    it('should report what each factor adds to the score, in safe language', () => {
+        const current = createFeatures({ memoryAccuracy: 0.5 });
+        const slopes = { ...flat, memoryTrendSlope: -0.05 };
+
+        const result = explainCounterfactuals(current, baseline, slopes, noAnomaly);
+
+        expect(result.contributions.map((c) => c.factor)).toEqual(['memory decline', 'declining memory trend']);
+        expect(result.contributions[0].contribution).toBeCloseTo(0.4);
+        expect(result.summary[0]).toContain('Memory Recall result were better by 15 points');
+        expect(result.summary.every(isMessageSafe)).toBe(true);
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for Data Sufficiency
+ */
+
+import { describe, it, expect } from 'vitest';
+import { measureDataSufficiency } from '../dataSufficiency';
+import type { ResultHistory } from '../assessUser';
+import { INITIAL_EPOCH } from '../../storage';
+import type { BaselineEpoch } from '../../storage';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date(2026, 0, 5, 9).getTime();
+
+const round = { isCalibration: false, isFalseStart: false, isTimeout: false, reactionTime: 300 };
+
+// One battery a day, with the given rounds per session; only the fields counted
+function createHistory(days: number, rounds = { reaction: 8, memory: 10, pattern: 5, language: 60 }): ResultHistory {
+    const at = (day: number) => new Date(START + day * DAY);
+    const each = <T,>(create: (day: number) => T) => Array.from({ length: days }, (_, day) => create(day));
+    return {
+        reaction: each((day) => ({
+            sessionId: `r${day}`,
+            timestamp: at(day),
+            rounds: [
+                ...Array.from({ length: rounds.reaction }, () => round),
+                { ...round, isCalibration: true },
+                { ...round, isFalseStart: true, reactionTime: null },
+            ],
+        })),
+        memory: each((day) => ({ sessionId: `m${day}`, timestamp: at(day), totalWords: rounds.memory })),
+        pattern: each((day) => ({ sessionId: `p${day}`, timestamp: at(day), metrics: { totalRounds: rounds.pattern } })),
+        language: each((day) => ({ sessionId: `l${day}`, timestamp: at(day), rawMetrics: { wordCount: rounds.language } })),
+    } as unknown as ResultHistory;
+}
+
+describe('measureDataSufficiency', () => {
+    it('should report partial progress for a first session', () => {
+        const result = measureDataSufficiency(createHistory(1), INITIAL_EPOCH);
+
+        expect(result.sufficient).toBe(false);
+        expect(result.domains.reaction).toMatchObject({ sessions: 1, spanDays: 0, validRounds: 8, sufficient: false });
+        expect(result.progress).toBeGreaterThan(0);
+        expect(result.progress).toBeLessThan(1);
+    });
+
+    it('should be sufficient once sessions, days and rounds are all met', () => {
+        const result = measureDataSufficiency(createHistory(3), INITIAL_EPOCH);
+
+        expect(result.sufficient).toBe(true);
+        expect(result.progress).toBe(1);
+    });
+
+    it('should hold back a domain with too few valid rounds', () => {
+        const result = measureDataSufficiency(createHistory(3, { reaction: 2, memory: 10, pattern: 5, language: 60 }), INITIAL_EPOCH);
+
+        expect(result.domains.reaction.validRounds).toBe(6);
+        expect(result.domains.reaction.sufficient).toBe(false);
+        expect(result.domains.memory.sufficient).toBe(true);
+        expect(result.sufficient).toBe(false);
+    });
+
+    it('should only count sessions in the epoch', () => {
+        const epoch: BaselineEpoch = {
+            id: 'reset',
+            startedAt: new Date(START + 1.5 * DAY).toISOString(),
+            reason: 'user_reset',
+            baselineSessions: 3,
+        };
+        const result = measureDataSufficiency(createHistory(3), epoch);
+
+        expect(result.domains.memory.sessions).toBe(1);
+        expect(result.sufficient).toBe(false);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for Personal Noise
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MIN_NOISE_SHARE, buildNoiseModel, populationNoiseModel } from '../personalNoise';
+import { computeReliableChange, standardErrorOfMeasurement } from '../reliableChange';
+import { computeDelta } from '../riskEngine';
+import type { ExtractedFeatures } from '../featureExtractor';
+import type { BaselineVector } from '../anomalyDetector';
+import type { SessionDataPoint } from '../trendAnalyzer';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const features: ExtractedFeatures = {
+    memoryAccuracy: 0.8,
+    reactionTimeAvg: 300,
+    reactionTimeVariance: 100,
+    patternScore: 0.75,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+    fillerWordRatio: 0.05,
+    hesitationMarkers: 2,
+};
+
+const baseline: BaselineVector = {
+    memoryAccuracy: 0.8,
+    reactionTimeAvg: 300,
+    patternScore: 0.75,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+};
+
+// Reaction time alternating `swing` ms around 300
+function sessionsSwinging(swing: number, count = 9, overrides: Partial<ExtractedFeatures> = {}): SessionDataPoint[] {
+    return Array.from({ length: count }, (_, i) => ({
+        timestamp: i * 7 * DAY,
+        features: { ...features, ...overrides, reactionTimeAvg: 300 + (i % 2 === 0 ? -swing / 2 : swing / 2) },
+    }));
+}
+
+describe('buildNoiseModel', () => {
+    it('should start at the population norms', () => {
+        expect(buildNoiseModel(sessionsSwinging(10, 1))).toEqual(populationNoiseModel());
+    });
+
+    it('should judge the same slowdown against each person\'s own variability', () => {
+        const slower = { ...features, reactionTimeAvg: 360 };
+        const steady = computeReliableChange(slower, baseline, {}, buildNoiseModel(sessionsSwinging(10)));
+        const variable = computeReliableChange(slower, baseline, {}, buildNoiseModel(sessionsSwinging(80)));
+
+        expect(steady.reaction).toBeLessThan(-1.645); // A reliable decline
+        expect(variable.reaction).toBeGreaterThan(-1.645); // Within this person's usual swings
+    });
+
+    it('should rely more on the person as history grows', () => {
+        const short = buildNoiseModel(sessionsSwinging(10));
+        const long = buildNoiseModel(sessionsSwinging(10, 40));
+
+        expect(long.reaction.personalWeight).toBeGreaterThan(short.reaction.personalWeight);
+        expect(long.reaction.sem).toBeLessThan(short.reaction.sem);
+    });
+
+    it('should not trust session means more than their rounds allow', () => {
+        const precise = buildNoiseModel(sessionsSwinging(0, 20));
+        const scattered = buildNoiseModel(sessionsSwinging(0, 20, { reactionTimeVariance: 4000 }));
+
+        expect(scattered.reaction.sem).toBeGreaterThan(precise.reaction.sem);
+    });
+
+    it('should only count sessions that took the domain', () => {
+        // Reaction taken every other session; in between, its last value is carried forward
+        const taken = sessionsSwinging(40, 20);
+        const withSkips: SessionDataPoint[] = taken.flatMap((s, i) => [
+            { ...s, measured: ['memory', 'reaction', 'pattern', 'language'] },
+            { timestamp: s.timestamp + DAY, features: { ...s.features, memoryAccuracy: 0.8 + i * 0.001 }, measured: ['memory'] },
+        ]);
+
+        expect(buildNoiseModel(withSkips).reaction.sem).toBeCloseTo(buildNoiseModel(taken).reaction.sem);
+        expect(buildNoiseModel(withSkips).memory.personalWeight).toBeGreaterThan(buildNoiseModel(taken).memory.personalWeight);
+    });
+
+    it('should keep a floor under a perfectly constant domain', () => {
+        const model = buildNoiseModel(sessionsSwinging(10, 200));
+        expect(model.memory.sem).toBeCloseTo(MIN_NOISE_SHARE * standardErrorOfMeasurement('memory'));
+    });
+});
+
+describe('computeDelta with a noise model', () => {
+    it('should express each delta as a personal z-score', () => {
+        const noise = buildNoiseModel(sessionsSwinging(10));
+        const current = { ...features, reactionTimeAvg: 360, memoryAccuracy: 0.7 };
+
+        const delta = computeDelta(current, baseline, noise);
+        const rci = computeReliableChange(current, baseline, {}, noise);
+
+        expect(delta.reactionDelta).toBeCloseTo(rci.reaction);
+        expect(delta.memoryDelta).toBeCloseTo(rci.memory);
+        expect(computeDelta(current, baseline).reactionDelta).toBe(-60);
+    });
+});
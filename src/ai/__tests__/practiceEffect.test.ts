@@ -0,0 +1,96 @@
+/**
+ * Unit tests for Practice Effect and Reliable Change
+ */
+
+import { describe, it, expect } from 'vitest';
+import { correctForPractice, expectedPracticeGain, fitPracticeModel } from '../practiceEffect';
+import { RCI_THRESHOLD, computeReliableChange } from '../reliableChange';
+import type { SessionDataPoint } from '../trendAnalyzer';
+import type { ExtractedFeatures } from '../featureExtractor';
+
+const features: ExtractedFeatures = {
+    memoryAccuracy: 0.7,
+    reactionTimeAvg: 360,
+    reactionTimeVariance: 100,
+    patternScore: 0.7,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+    fillerWordRatio: 0.05,
+    hesitationMarkers: 2,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function sessionsWith(memory: number[]): SessionDataPoint[] {
+    return memory.map((memoryAccuracy, i) => ({
+        timestamp: new Date(Date.UTC(2025, 0, 1) + i * DAY),
+        features: { ...features, memoryAccuracy },
+    }));
+}
+
+describe('fitPracticeModel', () => {
+    it('should fall back towards the typical gain with few sessions', () => {
+        const model = fitPracticeModel(sessionsWith([0.7, 0.72]));
+        expect(model.memoryAccuracy).toBeCloseTo(0.05);
+        expect(expectedPracticeGain(model, 0).memoryAccuracy).toBe(0);
+    });
+
+    it('should never model a falling curve as negative practice', () => {
+        const model = fitPracticeModel(sessionsWith([0.8, 0.7, 0.6, 0.5, 0.4]));
+        expect(model.memoryAccuracy).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should flatten a pure learning curve', () => {
+        const sessions = sessionsWith([0.6, 0.66, 0.68, 0.69, 0.7, 0.7]);
+        const corrected = correctForPractice(sessions);
+        const first = corrected[0].features.memoryAccuracy;
+        const last = corrected[corrected.length - 1].features.memoryAccuracy;
+        expect(Math.abs(last - first)).toBeLessThan(0.05);
+    });
+});
+
+describe('correctForPractice with partial batteries', () => {
+    it('should index each domain by its own retests and leave carried values alone', () => {
+        // Memory taken at sessions 0, 2 and 4; the sessions between carry its value forward
+        const sessions = sessionsWith([0.7, 0.7, 0.72, 0.72, 0.73]).map((s, i): SessionDataPoint =>
+            ({ ...s, measured: i % 2 === 0 ? ['memory', 'reaction'] : ['reaction'] }));
+        const model = fitPracticeModel(sessions);
+        const corrected = correctForPractice(sessions, model).map((s) => s.features.memoryAccuracy);
+
+        expect(model.memoryAccuracy).toBeCloseTo(fitPracticeModel(sessionsWith([0.7, 0.72, 0.73])).memoryAccuracy);
+        expect(corrected[2]).toBeCloseTo(0.72 - (expectedPracticeGain(model, 1).memoryAccuracy ?? 0));
+        expect(corrected[4]).toBeCloseTo(0.73 - (expectedPracticeGain(model, 2).memoryAccuracy ?? 0));
+        expect(corrected[1]).toBe(corrected[0]);
+        expect(corrected[3]).toBe(corrected[2]);
+    });
+
+    it('should not correct a domain the user never took', () => {
+        const sessions = sessionsWith([0.7, 0.7, 0.7, 0.7]).map((s): SessionDataPoint => ({ ...s, measured: ['reaction'] }));
+        const corrected = correctForPractice(sessions);
+        expect(corrected.map((s) => s.features.memoryAccuracy)).toEqual([0.7, 0.7, 0.7, 0.7]);
+        expect(corrected.map((s) => s.features.patternScore)).toEqual([0.7, 0.7, 0.7, 0.7]);
+    });
+});
+
+describe('computeReliableChange', () => {
+    const baseline = { ...features };
+
+    it('should not flag a change within retest noise', () => {
+        const rci = computeReliableChange({ ...features, memoryAccuracy: 0.65, reactionTimeAvg: 380 }, baseline);
+        expect(rci.memory).toBeGreaterThan(-RCI_THRESHOLD);
+        expect(rci.reaction).toBeGreaterThan(-RCI_THRESHOLD);
+    });
+
+    it('should flag a decline beyond retest noise', () => {
+        const rci = computeReliableChange({ ...features, memoryAccuracy: 0.5, reactionTimeAvg: 450 }, baseline);
+        expect(rci.memory).toBeLessThan(-RCI_THRESHOLD);
+        expect(rci.reaction).toBeLessThan(-RCI_THRESHOLD);
+    });
+
+    it('should count a missing expected gain as decline', () => {
+        const flat = computeReliableChange(features, baseline);
+        const expected = computeReliableChange(features, baseline, { memory: 0.1 });
+        expect(flat.memory).toBe(0);
+        expect(expected.memory).toBeLessThan(0);
+    });
+});
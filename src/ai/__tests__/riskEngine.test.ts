@@ -6,6 +6,8 @@ import { describe, it, expect } from 'vitest';
 import { computeRisk, computeDelta } from '../riskEngine';
 import type { ExtractedFeatures } from '../featureExtractor';
 import type { TrendSlopes } from '../trendAnalyzer';
+import { detectAnomalies } from '../anomalyDetector';
+import { populationNoiseModel } from '../personalNoise';
 import type { BaselineVector, AnomalyResult } from '../anomalyDetector';
 
 // Helper to create mock features
@@ -150,3 +152,76 @@ describe('computeRisk', () => {
         expect(result.topFactors.length).toBeGreaterThan(0);
     });
 });
+
+describe('computeRisk domains', () => {
+    it('should single out a domain declining on its own', () => {
+        const current = createFeatures({ lexicalDiversity: 0.4 });
+        const slopes = createSlopes({ languageTrendSlope: -0.05 });
+
+        const { domains } = computeRisk(current, createBaseline(), slopes, createAnomaly());
+
+        expect(domains.language.level).toBe('change_detected');
+        expect(domains.language.signals).toEqual(['reduced language complexity', 'declining language trend']);
+        expect(domains.language.delta).toBeCloseTo(-0.2);
+        expect(domains.language.slope).toBe(-0.05);
+        expect(domains.memory.level).toBe('stable');
+        expect(domains.reaction.level).toBe('stable');
+        expect(domains.pattern.level).toBe('stable');
+    });
+
+    it('should count an unusual value only in the declining direction', () => {
+        const anomaly = createAnomaly({ deviations: { lexicalDiversity: 3, memoryAccuracy: 3 } });
+        const current = createFeatures({ lexicalDiversity: 0.4, memoryAccuracy: 0.9 });
+        const slopes = createSlopes({ languageTrendSlope: -0.05 });
+
+        const { domains } = computeRisk(current, createBaseline(), slopes, anomaly);
+
+        expect(domains.language.level).toBe('possible_risk');
+        expect(domains.language.anomalyZ).toBe(3);
+        expect(domains.memory.signals).toEqual([]);
+    });
+
+    it('should express each domain\'s change in the person\'s own noise', () => {
+        const noise = { ...populationNoiseModel(), memory: { sem: 0.05, personalWeight: 1 } };
+        const { domains } = computeRisk(createFeatures({ memoryAccuracy: 0.7 }), createBaseline(), createSlopes(),
+            createAnomaly(), null, { noise });
+
+        expect(domains.memory.delta).toBeCloseTo(-0.1);
+        expect(domains.memory.deltaZ).toBeCloseTo(-0.1 / (Math.SQRT2 * 0.05));
+    });
+
+    it('should not count a shared improvement as an anomaly signal', () => {
+        // Memory, reaction and pattern move together; the latest session is better in all of them
+        const history = [0, 0.02, -0.02, 0.03, -0.01, 0.01, -0.03, 0].map((level, i) => createFeatures({
+            memoryAccuracy: 0.8 + level,
+            reactionTimeAvg: 300 - level * 1000,
+            patternScore: 0.75 + level,
+            speechWPM: 120 + [2, -2, 1, -1][i % 4],
+        }));
+        const better = createFeatures({ memoryAccuracy: 0.9, reactionTimeAvg: 200, patternScore: 0.85 });
+        const worse = createFeatures({ memoryAccuracy: 0.7, reactionTimeAvg: 400, patternScore: 0.65 });
+        const assess = (current: ExtractedFeatures) =>
+            computeRisk(current, createBaseline(), createSlopes(), detectAnomalies(current, history, 2, { mode: 'mahalanobis' }));
+
+        expect(detectAnomalies(better, history, 2, { mode: 'mahalanobis' }).isAnomaly).toBe(true);
+        expect(assess(better).riskScore).toBe(assess(history[0]).riskScore);
+        expect(assess(better).topFactors).toEqual([]);
+        expect(assess(worse).riskScore).toBeGreaterThan(assess(history[0]).riskScore);
+    });
+
+    it('should report a domain without a usable baseline as insufficient data', () => {
+        const enough = { sessions: 3, spanDays: 7, validRounds: 40, progress: 1, sufficient: true };
+        const sufficiency = {
+            memory: enough,
+            reaction: enough,
+            pattern: enough,
+            language: { sessions: 1, spanDays: 0, validRounds: 50, progress: 0.4, sufficient: false },
+        };
+
+        const { domains } = computeRisk(createFeatures(), createBaseline(), createSlopes(), createAnomaly(), null, { sufficiency });
+
+        expect(domains.language.level).toBe('insufficient_data');
+        expect(domains.language.sufficiency).toBe(sufficiency.language);
+        expect(domains.memory.level).toBe('stable');
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for Risk Hysteresis
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyHysteresis, recordRiskAnalysis, resolveRiskLevel } from '../riskHysteresis';
+import { loadRiskHistory } from '../../storage';
+import type { RiskHistoryEntry } from '../../storage';
+import type { DomainRisk, RiskAnalysis } from '../riskEngine';
+import type { AssessedRiskLevel } from '../../ethics/messagingRules';
+
+const twoSessions = { escalateAfter: 2, deescalateAfter: 2 };
+
+function entry(sessionTimestamp: number, rawLevel: AssessedRiskLevel, riskLevel: AssessedRiskLevel = rawLevel): RiskHistoryEntry {
+    return {
+        sessionTimestamp,
+        epochId: 'initial',
+        assessedAt: new Date(sessionTimestamp).toISOString(),
+        rawLevel,
+        riskLevel,
+        riskConfidenceScore: 0.5,
+        topFactors: [],
+        policy: { id: 'default', version: 2 },
+    };
+}
+
+const steady: DomainRisk = { level: 'stable', signals: [], delta: 0, deltaZ: 0, rci: 0, slope: 0, anomalyZ: null };
+
+function analysis(level: AssessedRiskLevel, timestamp: number): RiskAnalysis {
+    return {
+        riskLevel: level,
+        rawRiskLevel: level,
+        riskLabel: '',
+        riskMessage: '',
+        riskConfidenceScore: 0.5,
+        riskScore: 0.5,
+        anomalyScore: 0,
+        explanation: 'Observed factors: memory decline.',
+        topFactors: ['memory decline'],
+        reliableChange: { memory: -2, reaction: 0, pattern: 0, language: 0 },
+        trendSlopes: { memoryTrendSlope: 0, reactionTrendSlope: 0, patternTrendSlope: 0, languageTrendSlope: 0 },
+        changepoints: [],
+        domains: { memory: steady, reaction: steady, pattern: steady, language: steady },
+        policy: { id: 'default', version: 2 },
+        session: { timestamp, epochId: 'initial' },
+    };
+}
+
+describe('resolveRiskLevel', () => {
+    it('should start from stable and escalate a first assessment by the same rule', () => {
+        expect(resolveRiskLevel(['stable'], null, twoSessions)).toBe('stable');
+        expect(resolveRiskLevel(['possible_risk'], null, twoSessions)).toBe('stable');
+        expect(resolveRiskLevel(['possible_risk'], null, { escalateAfter: 1, deescalateAfter: 2 })).toBe('possible_risk');
+    });
+
+    it('should not flip on alternate sessions near a threshold', () => {
+        const raw: AssessedRiskLevel[] = ['stable', 'change_detected', 'stable', 'change_detected'];
+        let reported: AssessedRiskLevel | null = null;
+        for (let i = 1; i <= raw.length; i++) {
+            reported = resolveRiskLevel(raw.slice(0, i), reported, twoSessions);
+            expect(reported).toBe('stable');
+        }
+    });
+
+    it('should escalate and de-escalate after two sessions in a row', () => {
+        expect(resolveRiskLevel(['stable', 'change_detected'], 'stable', twoSessions)).toBe('stable');
+        expect(resolveRiskLevel(['stable', 'change_detected', 'possible_risk'], 'stable', twoSessions))
+            .toBe('change_detected'); // The mildest level of the run
+        expect(resolveRiskLevel(['possible_risk', 'stable'], 'possible_risk', twoSessions)).toBe('possible_risk');
+        expect(resolveRiskLevel(['possible_risk', 'stable', 'stable'], 'possible_risk', twoSessions)).toBe('stable');
+    });
+
+    it('should follow the configured persistence', () => {
+        const immediate = { escalateAfter: 1, deescalateAfter: 3 };
+        expect(resolveRiskLevel(['stable', 'possible_risk'], 'stable', immediate)).toBe('possible_risk');
+        expect(resolveRiskLevel(['possible_risk', 'stable', 'stable'], 'possible_risk', immediate)).toBe('possible_risk');
+    });
+});
+
+describe('applyHysteresis', () => {
+    it('should hold the reported level and explain why', () => {
+        const held = applyHysteresis(analysis('change_detected', 2), [entry(1, 'stable')]);
+
+        expect(held.riskLevel).toBe('stable');
+        expect(held.rawRiskLevel).toBe('change_detected');
+        expect(held.explanation).toContain('After resampling, this session reads "Performance Change Detected"');
+        expect(held.explanation).toContain('holds for 2 sessions in a row');
+    });
+
+    it('should give the confidence of the reported level', () => {
+        const probabilities = { stable: 0.3, change_detected: 0.6, possible_risk: 0.1 };
+        const result = { ...analysis('change_detected', 2), riskConfidenceScore: 0.6, levelProbabilities: probabilities };
+
+        expect(applyHysteresis(result, [entry(1, 'stable')]).riskConfidenceScore).toBe(0.3);
+    });
+
+    it('should hold a first assessment at stable', () => {
+        const held = applyHysteresis(analysis('possible_risk', 1), []);
+
+        expect(held.riskLevel).toBe('stable');
+        expect(held.rawRiskLevel).toBe('possible_risk');
+    });
+
+    it('should pass the analysis through once the level persists', () => {
+        const result = analysis('change_detected', 3);
+        expect(applyHysteresis(result, [entry(1, 'stable'), entry(2, 'change_detected', 'stable')])).toBe(result);
+    });
+});
+
+describe('recordRiskAnalysis', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should keep one entry per session and drop entries of later sessions', () => {
+        recordRiskAnalysis(analysis('stable', 1));
+        recordRiskAnalysis(analysis('stable', 2));
+        recordRiskAnalysis(analysis('change_detected', 3));
+        // Session 3 was flagged invalid: session 2 is the latest again
+        const history = recordRiskAnalysis(analysis('change_detected', 2));
+
+        expect(history.map((e) => [e.sessionTimestamp, e.riskLevel])).toEqual([[1, 'stable'], [2, 'change_detected']]);
+        expect(loadRiskHistory()).toEqual(history);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for Risk Policy
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RISK_POLICY, validateRiskPolicy } from '../riskPolicy';
+import type { RiskPolicy } from '../riskPolicy';
+import { computeRisk } from '../riskEngine';
+import type { ExtractedFeatures } from '../featureExtractor';
+import type { BaselineVector, AnomalyResult } from '../anomalyDetector';
+import type { TrendSlopes } from '../trendAnalyzer';
+
+const baseline: BaselineVector = {
+    memoryAccuracy: 0.8,
+    reactionTimeAvg: 300,
+    patternScore: 0.75,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+};
+
+const current: ExtractedFeatures = {
+    memoryAccuracy: 0.6, // One reliable decline, nothing else
+    reactionTimeAvg: 300,
+    reactionTimeVariance: 100,
+    patternScore: 0.75,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+    fillerWordRatio: 0.05,
+    hesitationMarkers: 2,
+};
+
+const slopes: TrendSlopes = { memoryTrendSlope: 0, reactionTrendSlope: 0, patternTrendSlope: 0, languageTrendSlope: 0 };
+const anomaly: AnomalyResult = { isAnomaly: false, anomalyScore: 0, deviations: {} };
+
+// Any single signal already counts as a change
+const sensitive: RiskPolicy = {
+    ...DEFAULT_RISK_POLICY,
+    id: 'single-signal',
+    version: 1,
+    ruleScores: [{ minSignals: 1, score: 0.5 }, { minSignals: 0, score: 0.1 }],
+};
+
+describe('validateRiskPolicy', () => {
+    it('should accept the default policy', () => {
+        expect(validateRiskPolicy(DEFAULT_RISK_POLICY)).toEqual([]);
+        expect(validateRiskPolicy(sensitive)).toEqual([]);
+    });
+
+    it('should report each unusable value', () => {
+        const problems = validateRiskPolicy({
+            ...DEFAULT_RISK_POLICY,
+            version: 0,
+            ruleScores: [{ minSignals: 2, score: 0.5 }, { minSignals: 3, score: 1.5 }],
+            levelThresholds: { possible_risk: 0.2, change_detected: 0.3 },
+        });
+
+        expect(problems).toContain('version must be a positive integer');
+        expect(problems).toContain('ruleScores[1].score must be between 0 and 1');
+        expect(problems).toContain('ruleScores must be ordered by descending minSignals');
+        expect(problems).toContain('the last of ruleScores must have minSignals 0');
+        expect(problems).toContain('levelThresholds.possible_risk must not be below change_detected');
+    });
+});
+
+describe('computeRisk with a policy', () => {
+    it('should record the policy that produced the analysis', () => {
+        expect(computeRisk(current, baseline, slopes, anomaly).policy).toEqual({ id: 'default', version: 5 });
+        expect(computeRisk(current, baseline, slopes, anomaly, null, { policy: sensitive }).policy)
+            .toEqual({ id: 'single-signal', version: 1 });
+    });
+
+    it('should compare policies on the same inputs', () => {
+        const byDefault = computeRisk(current, baseline, slopes, anomaly);
+        const bySensitive = computeRisk(current, baseline, slopes, anomaly, null, { policy: sensitive });
+
+        expect(byDefault.riskLevel).toBe('stable');
+        expect(bySensitive.riskLevel).toBe('change_detected');
+        expect(bySensitive.topFactors).toEqual(byDefault.topFactors);
+    });
+
+    it('should refuse an invalid policy', () => {
+        const invalid = { ...DEFAULT_RISK_POLICY, confidenceScale: 0 };
+        expect(() => computeRisk(current, baseline, slopes, anomaly, null, { policy: invalid }))
+            .toThrow('Invalid risk policy default@5: confidenceScale must be positive');
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for Risk Uncertainty
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    blockBootstrapSessions, capSessions, estimateLevelProbabilities, probabilityAtLeast, supportedRiskLevel,
+} from '../riskUncertainty';
+import { DEFAULT_RISK_POLICY } from '../riskPolicy';
+import { computeRisk } from '../riskEngine';
+import * as trendAnalyzer from '../trendAnalyzer';
+import { analyzeTrends } from '../trendAnalyzer';
+import type { SessionDataPoint } from '../trendAnalyzer';
+import { createBaseline, detectAnomalies } from '../anomalyDetector';
+import { detectChangepoints } from '../changepointDetector';
+import type { ExtractedFeatures } from '../featureExtractor';
+import { seededRandom } from '../../utils/statistics';
+
+const features: ExtractedFeatures = {
+    memoryAccuracy: 0.85,
+    reactionTimeAvg: 320,
+    reactionTimeVariance: 100,
+    patternScore: 0.85,
+    speechWPM: 130,
+    lexicalDiversity: 0.7,
+    fillerWordRatio: 0.03,
+    hesitationMarkers: 1,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 2, 1, 12);
+const WOBBLE = [0.01, -0.01, 0, 0.015, -0.005, 0.005, -0.01, 0.01, 0, -0.015];
+
+function sessionsWith(change: (i: number) => number, count = 10): SessionDataPoint[] {
+    return Array.from({ length: count }, (_, i) => ({
+        timestamp: START + i * 7 * DAY,
+        features: {
+            ...features,
+            memoryAccuracy: 0.85 - change(i) + WOBBLE[i % WOBBLE.length],
+            reactionTimeAvg: 320 + 300 * change(i),
+            patternScore: 0.85 - change(i),
+        },
+    }));
+}
+
+// The pipeline's inputs for the latest session
+function assess(sessions: SessionDataPoint[]) {
+    const previous = sessions.slice(0, -1).map((s) => s.features);
+    const current = sessions[sessions.length - 1].features;
+    return computeRisk(
+        current,
+        createBaseline(previous.slice(0, 3)),
+        analyzeTrends(sessions),
+        detectAnomalies(current, previous, 2, { mode: 'mahalanobis' }),
+        null,
+        {
+            changepoints: detectChangepoints(sessions),
+            resampling: { sessions, baselineSessions: 3, anomalyMode: 'mahalanobis' },
+        }
+    );
+}
+
+describe('blockBootstrapSessions', () => {
+    it('should draw whole blocks and keep time order', () => {
+        const sessions = sessionsWith(() => 0);
+        const resample = blockBootstrapSessions(sessions, seededRandom(1), 3);
+
+        expect(resample).toHaveLength(sessions.length);
+        expect(resample.every((s) => sessions.includes(s))).toBe(true);
+        expect(resample.map((s) => s.timestamp)).toEqual([...resample.map((s) => s.timestamp)].sort((a, b) => a - b));
+    });
+});
+
+describe('supportedRiskLevel', () => {
+    const probabilities = { stable: 0.3, change_detected: 0.4, possible_risk: 0.3 };
+
+    it('should keep a level that enough resamples reach', () => {
+        expect(probabilityAtLeast(probabilities, 'change_detected')).toBeCloseTo(0.7);
+        expect(supportedRiskLevel('change_detected', probabilities, 0.5)).toBe('change_detected');
+    });
+
+    it('should step down while the evidence is thin, never up', () => {
+        expect(supportedRiskLevel('possible_risk', probabilities, 0.5)).toBe('change_detected');
+        expect(supportedRiskLevel('possible_risk', probabilities, 0.8)).toBe('stable');
+        expect(supportedRiskLevel('stable', probabilities, 0.1)).toBe('stable');
+    });
+});
+
+describe('computeRisk with resampling', () => {
+    it('should be certain of a stable history', () => {
+        const result = assess(sessionsWith(() => 0));
+
+        expect(result.riskLevel).toBe('stable');
+        expect(result.levelProbabilities).toEqual({ stable: 1, change_detected: 0, possible_risk: 0 });
+        expect(result.riskConfidenceScore).toBe(1);
+    });
+
+    it('should find most resamples indicating a change in a sustained decline', () => {
+        const result = assess(sessionsWith((i) => 0.04 * i));
+        const probabilities = result.levelProbabilities!;
+
+        expect(result.riskLevel).not.toBe('stable');
+        expect(probabilityAtLeast(probabilities, 'change_detected')).toBeGreaterThanOrEqual(0.5);
+        expect(result.riskConfidenceScore).toBe(probabilities[result.riskLevel]);
+        // The level hysteresis starts from is the resampled one
+        expect(result.rawRiskLevel).toBe(result.riskLevel);
+        expect(Object.values(probabilities).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    });
+
+    it('should give the same probabilities for the same history', () => {
+        const sessions = sessionsWith((i) => 0.03 * i);
+        expect(assess(sessions).levelProbabilities).toEqual(assess(sessions).levelProbabilities);
+    });
+});
+
+describe('resampling a long history', () => {
+    it('should cut the resampled sessions to the baseline and the most recent ones', () => {
+        const sessions = sessionsWith((i) => 0.001 * i, 200);
+        const capped = capSessions(sessions, 3, DEFAULT_RISK_POLICY.uncertainty.maxSessions);
+
+        expect(capped).toHaveLength(DEFAULT_RISK_POLICY.uncertainty.maxSessions);
+        expect(capped.slice(0, 3)).toEqual(sessions.slice(0, 3));
+        expect(capped[capped.length - 1]).toBe(sessions[sessions.length - 1]);
+        expect(capSessions(sessions.slice(0, 10), 3, 30)).toHaveLength(10);
+    });
+
+    it('should score a fixed number of resamples, each no longer than the cap', () => {
+        const sessions = sessionsWith((i) => 0.001 * i, 200);
+        const uncertainty = { ...DEFAULT_RISK_POLICY.uncertainty, resamples: 20 };
+        let scored = 0;
+        const spy = vi.spyOn(trendAnalyzer, 'analyzeTrends');
+
+        estimateLevelProbabilities({ sessions, baselineSessions: 3 }, uncertainty, () => {
+            scored++;
+            return 'stable';
+        });
+
+        expect(scored).toBe(uncertainty.resamples);
+        expect(spy).toHaveBeenCalledTimes(uncertainty.resamples);
+        expect(spy.mock.calls.every(([resample]) => resample.length <= uncertainty.maxSessions)).toBe(true);
+        spy.mockRestore();
+    });
+});
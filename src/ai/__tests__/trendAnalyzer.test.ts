@@ -126,13 +126,13 @@ describe('getOverallTrendDirection', () => {
 });
 
 describe('analyzeTrend', () => {
-    it('should return low risk for single session', () => {
+    it('should report insufficient data for a single session', () => {
         const sessions = [createSession(1000)];
         const result = analyzeTrend(sessions);
 
-        expect(result.risk).toBe('low');
-        expect(result.trend).toBe('stable');
-        expect(result.confidence).toBe(0.5);
+        expect(result.risk).toBe('unknown');
+        expect(result.trend).toBe('insufficient_data');
+        expect(result.confidence).toBe(0);
     });
 
     it('should detect declining trend with medium risk', () => {
@@ -177,3 +177,62 @@ describe('analyzeTrend', () => {
         expect(result2.confidence).toBeGreaterThan(result1.confidence);
     });
 });
+
+describe('analyzeTrends intervals', () => {
+    it('should carry an interval that excludes zero only for a steady decline', () => {
+        const sessions = [0.9, 0.87, 0.85, 0.82, 0.8, 0.77].map((memoryAccuracy, i) =>
+            createSession(1000 * (i + 1), { memoryAccuracy }));
+        const { intervals } = analyzeTrends(sessions);
+
+        expect(intervals?.memory.upper).toBeLessThan(0);
+        expect(intervals?.reaction.lower).toBe(0);
+        expect(intervals?.reaction.upper).toBe(0);
+    });
+});
+
+describe('analyzeTrends time units', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const start = Date.UTC(2025, 0, 1, 12);
+
+    it('should express slopes as change per 30 days regardless of spacing', () => {
+        const weekly = [0.8, 0.79, 0.78, 0.77].map((memoryAccuracy, i) =>
+            createSession(start + i * 7 * DAY, { memoryAccuracy }));
+        const irregular = [0, 2, 20, 21].map((day) =>
+            createSession(start + day * DAY, { memoryAccuracy: 0.8 - (day / 7) * 0.01 }));
+
+        expect(analyzeTrends(weekly).memoryTrendSlope).toBeCloseTo(-0.01 * 30 / 7);
+        expect(analyzeTrends(irregular).memoryTrendSlope).toBeCloseTo(-0.01 * 30 / 7);
+    });
+
+    it('should not let a same-day burst outweigh other days', () => {
+        const sessions = [
+            createSession(start, { memoryAccuracy: 0.8 }),
+            createSession(start + 30 * DAY, { memoryAccuracy: 0.8 }),
+            createSession(start + 60 * DAY, { memoryAccuracy: 0.8 }),
+            // Three quick retries late on one day, one of them poor
+            createSession(start + 90 * DAY, { memoryAccuracy: 0.8 }),
+            createSession(start + 90 * DAY + 60_000, { memoryAccuracy: 0.5 }),
+            createSession(start + 90 * DAY + 120_000, { memoryAccuracy: 0.8 }),
+        ];
+
+        expect(analyzeTrends(sessions).memoryTrendSlope).toBeCloseTo(0);
+    });
+});
+
+describe('analyzeTrends carried-forward values', () => {
+    it('should fit a domain only on the sessions that measured it', () => {
+        // Memory declines over three sittings; reaction-only sittings in between carry 0.6 forward
+        const sessions: SessionDataPoint[] = [
+            { ...createSession(1000, { memoryAccuracy: 0.8 }), measured: ['memory', 'reaction'] },
+            { ...createSession(2000, { memoryAccuracy: 0.7 }), measured: ['memory', 'reaction'] },
+            { ...createSession(3000, { memoryAccuracy: 0.6 }), measured: ['memory', 'reaction'] },
+            ...[4000, 5000, 6000, 7000].map((t): SessionDataPoint =>
+                ({ ...createSession(t, { memoryAccuracy: 0.6 }), measured: ['reaction'] })),
+        ];
+        const dense = analyzeTrends(sessions.map((s) => ({ ...s, measured: undefined })));
+        const measured = analyzeTrends(sessions);
+
+        expect(measured.memoryTrendSlope).toBeCloseTo(analyzeTrends(sessions.slice(0, 3)).memoryTrendSlope);
+        expect(measured.memoryTrendSlope).toBeLessThan(dense.memoryTrendSlope);
+    });
+});
@@ -1,9 +1,19 @@
 /**
  * Anomaly Detector
  * Detects outliers from baseline performance using statistical methods.
+ *
+ * Two modes: per-metric z-scores ("univariate"), or the Mahalanobis distance
+ * over all metrics, which knows that memory, reaction and pattern scores
+ * usually move together. A session where every domain dips at once is then
+ * told apart from one where a single domain breaks from the others.
+ *
+ * Feature vectors may be partial (see measuredFeatures): each metric is judged
+ * on the sessions that measured it, correlations on the sessions that measured
+ * both metrics, and a metric the current session did not measure is left out.
  */
 
 import type { ExtractedFeatures } from "./featureExtractor";
+import { invertMatrix } from "../utils/statistics";
 
 export interface BaselineVector {
     memoryAccuracy: number;
@@ -13,12 +23,55 @@ export interface BaselineVector {
     lexicalDiversity: number;
 }
 
+export type AnomalyMode = "univariate" | "mahalanobis";
+
+/** How an anomalous session departs from the history (Mahalanobis mode). */
+export type AnomalyPattern = "shared_shift" | "single_domain";
+
 export interface AnomalyResult {
     isAnomaly: boolean;
     anomalyScore: number; // 0-1, higher = more anomalous
     deviations: Record<string, number>; // Standard deviations from baseline for each metric
+    /** Signed deviations: the current value minus the history's mean, in standard deviations. */
+    signedDeviations?: Record<string, number>;
+    mode?: AnomalyMode;
+    /** Mahalanobis distance (not squared) of the current session. */
+    mahalanobisDistance?: number;
+    /** Share of the squared distance due to each metric (offsetting terms count as 0). */
+    contributions?: Record<string, number>;
+    pattern?: AnomalyPattern;
+    /** Too little history to judge; the result says nothing either way. */
+    insufficientData?: boolean;
 }
 
+export interface AnomalyOptions {
+    /** Default "univariate". */
+    mode?: AnomalyMode;
+}
+
+const METRICS: (keyof ExtractedFeatures)[] = [
+    "memoryAccuracy",
+    "reactionTimeAvg",
+    "patternScore",
+    "speechWPM",
+    "lexicalDiversity",
+];
+
+/** 97.5% chi-square quantiles by degrees of freedom (index = df). */
+const CHI_SQUARE_975 = [0, 5.02, 7.38, 9.35, 11.14, 12.83];
+/** A metric carrying at least this share of the distance is breaking from the others. */
+const SINGLE_DOMAIN_SHARE = 0.5;
+/** Direction of decline per metric: lower scores and speech, slower reactions. */
+const DECLINE_SIGN: Record<string, number> = {
+    memoryAccuracy: -1,
+    reactionTimeAvg: 1,
+    patternScore: -1,
+    speechWPM: -1,
+    lexicalDiversity: -1,
+};
+/** An anomaly counts as a decline when at least this share of it points that way. */
+const DECLINE_SHARE = 0.5;
+
 /**
  * Calculates standard deviation for a set of values.
  */
@@ -37,16 +90,24 @@ function calculateMean(values: number[]): number {
     return values.reduce((a, b) => a + b, 0) / values.length;
 }
 
+/** The values of a metric in the sessions that measured it. */
+function presentValues(features: Partial<ExtractedFeatures>[], metric: keyof ExtractedFeatures): number[] {
+    return features.map((f) => f[metric]).filter((v): v is number => v !== undefined);
+}
+
 /**
  * Detects anomalies by comparing current features to baseline.
- * @param current - Current session's extracted features.
- * @param historicalFeatures - Array of previous sessions' features.
+ * @param current - Current session's extracted features (measured ones only, or all).
+ * @param historicalFeatures - Array of previous sessions' features (measured ones only, or all).
  * @param threshold - Number of standard deviations to consider anomalous (default: 2).
+ *                    Univariate mode only; Mahalanobis uses the 97.5% chi-square quantile.
+ * @param options - Set `mode: "mahalanobis"` for the multivariate check.
  */
 export function detectAnomalies(
-    current: ExtractedFeatures,
-    historicalFeatures: ExtractedFeatures[],
-    threshold: number = 2
+    current: Partial<ExtractedFeatures>,
+    historicalFeatures: Partial<ExtractedFeatures>[],
+    threshold: number = 2,
+    options: AnomalyOptions = {}
 ): AnomalyResult {
     if (historicalFeatures.length < 3) {
         // Not enough data for meaningful anomaly detection
@@ -54,31 +115,32 @@ export function detectAnomalies(
             isAnomaly: false,
             anomalyScore: 0,
             deviations: {},
+            insufficientData: true,
         };
     }
 
-    const metrics: (keyof ExtractedFeatures)[] = [
-        "memoryAccuracy",
-        "reactionTimeAvg",
-        "patternScore",
-        "speechWPM",
-        "lexicalDiversity",
-    ];
+    if (options.mode === "mahalanobis") {
+        return detectMahalanobisAnomaly(current, historicalFeatures);
+    }
 
+    const metrics = METRICS;
     const deviations: Record<string, number> = {};
+    const signedDeviations: Record<string, number> = {};
     let totalDeviation = 0;
 
     for (const metric of metrics) {
-        const historicalValues = historicalFeatures.map((f) => f[metric] as number);
+        const historicalValues = presentValues(historicalFeatures, metric);
         const mean = calculateMean(historicalValues);
         const stdDev = calculateStdDev(historicalValues);
+        const value = current[metric];
 
-        if (stdDev > 0) {
-            const deviation = Math.abs((current[metric] as number) - mean) / stdDev;
-            deviations[metric] = deviation;
-            totalDeviation += deviation;
+        if (stdDev > 0 && value !== undefined) {
+            signedDeviations[metric] = (value - mean) / stdDev;
+            deviations[metric] = Math.abs(signedDeviations[metric]);
+            totalDeviation += deviations[metric];
         } else {
             deviations[metric] = 0;
+            signedDeviations[metric] = 0;
         }
     }
 
@@ -94,9 +156,113 @@ export function detectAnomalies(
         isAnomaly,
         anomalyScore,
         deviations,
+        signedDeviations,
+    };
+}
+
+/**
+ * Mahalanobis-distance anomaly check.
+ * Metrics are standardized against the history, and each correlation is
+ * shrunk towards zero (weight p / (p + n), n = sessions measuring both) so a
+ * short history still gives a stable, invertible estimate.
+ */
+function detectMahalanobisAnomaly(
+    current: Partial<ExtractedFeatures>,
+    historicalFeatures: Partial<ExtractedFeatures>[]
+): AnomalyResult {
+    // Metrics that never varied carry no information about covariance
+    const stats = METRICS.map((metric) => {
+        const present = presentValues(historicalFeatures, metric);
+        return { metric, mean: calculateMean(present), stdDev: calculateStdDev(present) };
+    }).filter((m) => m.stdDev > 0 && current[m.metric] !== undefined);
+
+    const deviations: Record<string, number> = {};
+    const signedDeviations: Record<string, number> = {};
+    METRICS.forEach((metric) => (deviations[metric] = signedDeviations[metric] = 0));
+    if (stats.length === 0) {
+        return { isAnomaly: false, anomalyScore: 0, deviations, signedDeviations, mode: "mahalanobis", mahalanobisDistance: 0 };
+    }
+
+    const p = stats.length;
+    // null where a session did not measure the metric
+    const standardized = stats.map((m) => historicalFeatures.map((f) => {
+        const v = f[m.metric];
+        return v === undefined ? null : (v - m.mean) / m.stdDev;
+    }));
+    const z = stats.map((m) => ((current[m.metric] as number) - m.mean) / m.stdDev);
+    stats.forEach((m, i) => {
+        signedDeviations[m.metric] = z[i];
+        deviations[m.metric] = Math.abs(z[i]);
+    });
+
+    const correlation = standardized.map((a, i) => standardized.map((b, j) => {
+        if (i === j) return 1;
+        const products = a.flatMap((v, k) => (v !== null && b[k] !== null ? [v * (b[k] as number)] : []));
+        if (products.length < 2) return 0;
+        const r = products.reduce((sum, v) => sum + v, 0) / (products.length - 1);
+        return (1 - p / (p + products.length)) * r;
+    }));
+    const inverse = invertMatrix(correlation);
+    if (!inverse) {
+        return { isAnomaly: false, anomalyScore: 0, deviations, signedDeviations, mode: "mahalanobis" };
+    }
+
+    // D² = zᵀ Σ⁻¹ z, split per metric as z_i (Σ⁻¹ z)_i
+    const weighted = inverse.map((row) => row.reduce((sum, v, j) => sum + v * z[j], 0));
+    const terms = z.map((zi, i) => zi * weighted[i]);
+    const distanceSquared = Math.max(0, terms.reduce((a, b) => a + b, 0));
+    const critical = CHI_SQUARE_975[Math.min(p, CHI_SQUARE_975.length - 1)];
+
+    const contributions: Record<string, number> = {};
+    stats.forEach((m, i) => {
+        contributions[m.metric] = distanceSquared > 0 ? Math.max(0, terms[i]) / distanceSquared : 0;
+    });
+
+    const isAnomaly = distanceSquared > critical;
+    const topShare = Math.max(...Object.values(contributions));
+
+    return {
+        isAnomaly,
+        anomalyScore: Math.min(distanceSquared / (critical * 2), 1),
+        deviations,
+        signedDeviations,
+        mode: "mahalanobis",
+        mahalanobisDistance: Math.sqrt(distanceSquared),
+        contributions,
+        pattern: isAnomaly ? (topShare >= SINGLE_DOMAIN_SHARE ? "single_domain" : "shared_shift") : undefined,
     };
 }
 
+/**
+ * Whether a metric's deviation points in the declining direction.
+ * True without signed deviations (hand-built results), as before they existed.
+ */
+export function isDecliningDeviation(anomaly: AnomalyResult, metric: string): boolean {
+    const signed = anomaly.signedDeviations?.[metric];
+    return signed === undefined || signed * (DECLINE_SIGN[metric] ?? -1) > 0;
+}
+
+/**
+ * Whether an anomalous session is unusual mostly in the declining direction.
+ * A session better than usual in every domain is just as far from the history,
+ * but is no sign of decline. Each metric is weighted by its share of the
+ * Mahalanobis distance, or by its squared z-score in univariate mode.
+ */
+export function isDecliningAnomaly(anomaly: AnomalyResult): boolean {
+    if (!anomaly.isAnomaly) return false;
+    if (!anomaly.signedDeviations) return true;
+
+    const weights = anomaly.contributions
+        ?? Object.fromEntries(Object.entries(anomaly.deviations).map(([metric, d]) => [metric, d * d]));
+    let total = 0;
+    let declining = 0;
+    for (const [metric, weight] of Object.entries(weights)) {
+        total += weight;
+        if (isDecliningDeviation(anomaly, metric)) declining += weight;
+    }
+    return total > 0 && declining / total >= DECLINE_SHARE;
+}
+
 /**
  * Creates a baseline vector from the first N sessions.
  * @param sessions - Array of extracted features from initial sessions.
@@ -0,0 +1,156 @@
+/**
+ * Assessment Pipeline
+ * One entry point from stored results to a RiskAnalysis:
+ * results -> battery sessions -> features -> context and practice correction ->
+ * baseline, personal noise, slopes, anomalies, ML -> risk.
+ */
+
+import { assembleBatteries, getActiveEpoch, isInEpoch, loadRiskHistory } from "../storage";
+import type { BaselineEpoch, BatteryRecord, DomainResultMap, ResultDomain, RiskHistoryEntry } from "../storage";
+import { predictTrend } from "../ml/trendPredictor";
+import type { TrendPrediction } from "../ml/types";
+import { batteriesToSessions, measuredFeatures } from "./batteryFeatures";
+import { adjustSessionsForContext } from "./contextAdjustment";
+import { correctForPractice, fitPracticeModel } from "./practiceEffect";
+import { analyzeTrends } from "./trendAnalyzer";
+import type { SessionDataPoint, TrendSlopes } from "./trendAnalyzer";
+import { createBaseline, detectAnomalies } from "./anomalyDetector";
+import type { AnomalyResult, BaselineVector } from "./anomalyDetector";
+import type { ExtractedFeatures } from "./featureExtractor";
+import { detectChangepoints } from "./changepointDetector";
+import { computeRisk } from "./riskEngine";
+import type { RiskAnalysis, RiskOptions } from "./riskEngine";
+import type { RiskPolicy } from "./riskPolicy";
+import { applyHysteresis } from "./riskHysteresis";
+import { explainCounterfactuals } from "./counterfactualExplainer";
+import { MIN_ASSESSMENT_SESSIONS, measureDataSufficiency } from "./dataSufficiency";
+import { buildNoiseModel } from "./personalNoise";
+
+/** Every stored result per domain (invalid sessions are skipped by the pipeline). */
+export type ResultHistory = { [D in ResultDomain]: DomainResultMap[D][] };
+
+export interface AssessmentOptions {
+    /** Battery records of the profile; read from storage if omitted. */
+    batteryRecords?: BatteryRecord[];
+    /** Baseline epoch to assess; the profile's active epoch if omitted. */
+    epoch?: BaselineEpoch;
+    /** Correct for each session's check-in (default true). */
+    adjustForContext?: boolean;
+    /** Trend model; pass null to skip the ML step. */
+    predict?: ((sessions: SessionDataPoint[]) => Promise<TrendPrediction | null>) | null;
+    /** Risk policy to apply (default DEFAULT_RISK_POLICY). */
+    policy?: RiskPolicy;
+    /** Earlier assessments for hysteresis; the profile's stored risk history if omitted. */
+    riskHistory?: RiskHistoryEntry[];
+}
+
+/** Everything computeRisk needs, so several policies can share one pipeline run. */
+interface RiskInputs {
+    current: ExtractedFeatures;
+    baseline: BaselineVector;
+    slopes: TrendSlopes;
+    anomaly: AnomalyResult;
+    mlResult: TrendPrediction | null;
+    riskOptions: RiskOptions;
+    session: { timestamp: number; epochId: string };
+    /** Risk history of the epoch's earlier sessions. */
+    previousRisk: RiskHistoryEntry[];
+}
+
+async function prepareRiskInputs(
+    history: ResultHistory,
+    options: AssessmentOptions
+): Promise<RiskInputs | null> {
+    const { adjustForContext = true, predict = predictTrend, epoch = getActiveEpoch() } = options;
+
+    // No domain with a usable baseline yet (e.g. three sessions on one day): nothing to assess
+    const sufficiency = measureDataSufficiency(history, epoch);
+    if (!Object.values(sufficiency.domains).some((domain) => domain.sufficient)) return null;
+
+    const allSessions = batteriesToSessions(assembleBatteries(history, options.batteryRecords));
+    const epochStart = allSessions.findIndex((s) => isInEpoch(s.timestamp, epoch));
+    if (epochStart < 0 || allSessions.length - epochStart < MIN_ASSESSMENT_SESSIONS) return null;
+
+    // Every session on a first-attempt footing: check-in effects and retest gains removed.
+    // Practice is fitted over the whole history: a baseline reset does not undo familiarity.
+    const contextAdjusted = adjustForContext ? adjustSessionsForContext(allSessions) : allSessions;
+    const practice = fitPracticeModel(contextAdjusted);
+    const adjusted = correctForPractice(contextAdjusted, practice).slice(epochStart);
+    // The current session keeps its own check-in (computeRisk applies it) but loses the retest gain
+    const current = correctForPractice(allSessions, practice)[allSessions.length - 1];
+    const previous = adjusted.slice(0, -1).map((s) => s.features);
+
+    const baseline = createBaseline(previous.slice(0, epoch.baselineSessions));
+    const slopes = analyzeTrends(adjusted);
+    const anomaly = detectAnomalies(measuredFeatures(adjusted[adjusted.length - 1]),
+        adjusted.slice(0, -1).map(measuredFeatures), 2, { mode: "mahalanobis" });
+    const noise = buildNoiseModel(adjusted.slice(0, -1));
+    const changepoints = detectChangepoints(adjusted, epoch.baselineSessions, noise);
+
+    let mlResult: TrendPrediction | null = null;
+    if (predict) {
+        try {
+            mlResult = await predict(adjusted);
+        } catch {
+            mlResult = null; // Rule-based signals still stand on their own
+        }
+    }
+
+    return {
+        current: current.features,
+        baseline,
+        slopes,
+        anomaly,
+        mlResult,
+        riskOptions: {
+            context: adjustForContext ? current.context : undefined,
+            measured: current.measured,
+            changepoints,
+            sufficiency: sufficiency.domains,
+            noise,
+            resampling: { sessions: adjusted, baselineSessions: epoch.baselineSessions, anomalyMode: "mahalanobis" },
+        },
+        session: { timestamp: current.timestamp, epochId: epoch.id },
+        previousRisk: (options.riskHistory ?? loadRiskHistory())
+            .filter((entry) => entry.epochId === epoch.id && entry.sessionTimestamp < current.timestamp),
+    };
+}
+
+/**
+ * Assesses a user's result history.
+ * Only sessions of the active baseline epoch are assessed; its first
+ * `baselineSessions` sessions form the baseline. The reported level follows
+ * the epoch's risk history with hysteresis; record the result with recordRiskAnalysis.
+ * Returns null until the epoch has MIN_ASSESSMENT_SESSIONS valid battery sessions
+ * and at least one domain meets the data sufficiency requirements; the
+ * Dashboard then shows "insufficient_data" instead of a level.
+ */
+export async function assessUser(
+    history: ResultHistory,
+    options: AssessmentOptions = {}
+): Promise<RiskAnalysis | null> {
+    const [analysis] = (await assessWithPolicies(history, [options.policy], options)) ?? [null];
+    return analysis;
+}
+
+/**
+ * Assesses one history under several risk policies, for comparing them.
+ * The pipeline (and ML step) runs once; only the risk fusion differs.
+ * @param policies - Policies to apply; undefined means DEFAULT_RISK_POLICY.
+ * @returns One analysis per policy, in order, or null if there is too little data.
+ */
+export async function assessWithPolicies(
+    history: ResultHistory,
+    policies: (RiskPolicy | undefined)[],
+    options: AssessmentOptions = {}
+): Promise<RiskAnalysis[] | null> {
+    const inputs = await prepareRiskInputs(history, options);
+    if (!inputs) return null;
+
+    const { current, baseline, slopes, anomaly, mlResult, riskOptions, session, previousRisk } = inputs;
+    return policies.map((policy) => {
+        const analysis = computeRisk(current, baseline, slopes, anomaly, mlResult, { ...riskOptions, policy });
+        const counterfactual = explainCounterfactuals(current, baseline, slopes, anomaly, mlResult, { ...riskOptions, policy });
+        return applyHysteresis({ ...analysis, counterfactual, session }, previousRisk, policy);
+    });
+}
@@ -0,0 +1,121 @@
+/**
+ * Battery Features
+ * Turns battery sessions into feature vectors for trend analysis, anomaly
+ * detection and risk computation: one data point per sitting.
+ *
+ * A domain skipped in a battery keeps its previous value so every session has
+ * a full feature vector, but that copy is not a new reading: fits over a
+ * domain's history use only the sessions that measured it (isMeasured).
+ */
+
+import type { BatterySession } from "../storage";
+import { isResultInvalid } from "../storage";
+import type { ExtractedFeatures } from "./featureExtractor";
+import type { SessionDataPoint, TrendDomain } from "./trendAnalyzer";
+import type { ChangeDomain } from "./reliableChange";
+import { DOMAIN_METRICS } from "./reliableChange";
+import type { SessionValidity } from "../types/validityTypes";
+
+/**
+ * Placeholder values for domains that have never been taken.
+ * They stay constant, so they contribute no trend or deviation.
+ */
+export const DEFAULT_FEATURES: ExtractedFeatures = {
+    memoryAccuracy: 0.7,
+    reactionTimeAvg: 350,
+    reactionTimeVariance: 500,
+    patternScore: 0.5,
+    speechWPM: 120,
+    lexicalDiversity: 0.6,
+    fillerWordRatio: 0.05,
+    hesitationMarkers: 2,
+};
+
+/** Domain each feature is measured in. */
+export const FEATURE_DOMAINS: Record<keyof ExtractedFeatures, TrendDomain> = {
+    memoryAccuracy: "memory",
+    reactionTimeAvg: "reaction",
+    reactionTimeVariance: "reaction",
+    patternScore: "pattern",
+    speechWPM: "language",
+    lexicalDiversity: "language",
+    fillerWordRatio: "language",
+    hesitationMarkers: "language",
+};
+
+/**
+ * Whether the session measured the domain rather than carrying it forward.
+ * Sessions without `measured` (e.g. hand-built ones) measured every domain.
+ */
+export function isMeasured(session: SessionDataPoint, domain: TrendDomain): boolean {
+    return !session.measured || session.measured.includes(domain);
+}
+
+/**
+ * The features the session measured; carried-forward values are left out.
+ */
+export function measuredFeatures(session: SessionDataPoint): Partial<ExtractedFeatures> {
+    return Object.fromEntries(
+        Object.entries(session.features).filter(([feature]) =>
+            isMeasured(session, FEATURE_DOMAINS[feature as keyof ExtractedFeatures]))
+    ) as Partial<ExtractedFeatures>;
+}
+
+function valid<T extends { validity?: SessionValidity }>(result?: T): T | undefined {
+    return result && !isResultInvalid(result) ? result : undefined;
+}
+
+/**
+ * Features measured in one battery; domains not taken, or flagged invalid, are left out.
+ */
+export function extractBatteryFeatures(battery: BatterySession): Partial<ExtractedFeatures> {
+    const memory = valid(battery.results.memory);
+    const reaction = valid(battery.results.reaction);
+    const pattern = valid(battery.results.pattern);
+    const language = valid(battery.results.language);
+    const features: Partial<ExtractedFeatures> = {};
+
+    if (memory) {
+        features.memoryAccuracy = memory.accuracy;
+    }
+    if (reaction) {
+        features.reactionTimeAvg = reaction.aggregates.avg;
+        features.reactionTimeVariance = reaction.aggregates.variance;
+    }
+    if (pattern && pattern.metrics.totalRounds > 0) {
+        features.patternScore = pattern.metrics.correctRounds / pattern.metrics.totalRounds;
+    }
+    if (language) {
+        const { wordCount, fillerWordCount, pauseCount } = language.rawMetrics;
+        features.speechWPM = language.derivedFeatures.wpm;
+        features.lexicalDiversity = language.derivedFeatures.lexicalDiversity;
+        features.fillerWordRatio = wordCount > 0 ? fillerWordCount / wordCount : 0;
+        features.hesitationMarkers = pauseCount;
+    }
+
+    return features;
+}
+
+/**
+ * One data point per battery, timestamped at its start. Invalid batteries are skipped.
+ * A domain missing from a battery carries its previous value forward
+ * (before its first measurement, the first measurement is used); `measured`
+ * lists the domains the battery actually took.
+ */
+export function batteriesToSessions(allBatteries: BatterySession[]): SessionDataPoint[] {
+    const batteries = allBatteries.filter((battery) => !battery.invalid);
+    const measured = batteries.map(extractBatteryFeatures);
+
+    // Earliest measurement of each feature wins
+    let previous: ExtractedFeatures = Object.assign({}, DEFAULT_FEATURES, ...[...measured].reverse());
+
+    return batteries.map((battery, index) => {
+        previous = { ...previous, ...measured[index] };
+        return {
+            timestamp: battery.startedAt.getTime(),
+            features: previous,
+            context: battery.context,
+            measured: (Object.keys(DOMAIN_METRICS) as ChangeDomain[]).filter((domain) => DOMAIN_METRICS[domain] in measured[index]),
+        };
+    });
+}
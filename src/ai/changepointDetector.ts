@@ -0,0 +1,188 @@
+/**
+ * Changepoint Detector
+ * Finds abrupt step changes in each domain, which a linear slope spreads out
+ * over the whole history.
+ *
+ * Two detectors run over the session series:
+ * - CUSUM against the baseline level, which alarms once cumulative drift
+ *   passes CUSUM_H noise units;
+ * - Bayesian online changepoint detection (Adams & MacKay), which gives the
+ *   posterior probability of where the most recent shift happened.
+ * A shift is reported when either detector finds it and the step is larger
+ * than retest noise (the reliable-change standard error, the person's own when
+ * a noise model is given).
+ */
+
+import type { SessionDataPoint } from "./trendAnalyzer";
+import type { ChangeDomain } from "./reliableChange";
+import { MEASUREMENT_NORMS, standardErrorOfDifference } from "./reliableChange";
+import { DEFAULT_BASELINE_SESSIONS } from "../storage";
+import { isMeasured } from "./batteryFeatures";
+import type { PersonalNoiseModel } from "./personalNoise";
+import { mean, median } from "../utils/statistics";
+
+export interface Changepoint {
+    domain: ChangeDomain;
+    /** Index of the first session after the shift. */
+    index: number;
+    timestamp: number;
+    /** Mean after minus mean before, in the domain's units; positive = improvement. */
+    magnitude: number;
+    /** Posterior probability that the most recent shift is at `index`. */
+    probability: number;
+    method: "cusum" | "bocpd" | "both";
+}
+
+/** Sessions needed: a baseline and at least two sessions after a shift. */
+export const MIN_CHANGEPOINT_SESSIONS = 5;
+/** Posterior probability at which the Bayesian detector reports a shift. */
+export const CHANGEPOINT_PROBABILITY = 0.5;
+
+/** CUSUM allowance and decision interval, in noise units. */
+const CUSUM_K = 0.5;
+const CUSUM_H = 4;
+/** Prior probability of a shift at any session. */
+const HAZARD = 1 / 30;
+
+const SERIES: Record<ChangeDomain, (s: SessionDataPoint) => number> = {
+    memory: (s) => s.features.memoryAccuracy,
+    reaction: (s) => -s.features.reactionTimeAvg, // Negated so higher = better throughout
+    pattern: (s) => s.features.patternScore,
+    language: (s) => s.features.lexicalDiversity,
+};
+
+/**
+ * Session-to-session noise: the MAD of successive differences (robust to the
+ * step itself), floored at the domain's standard error of measurement.
+ */
+function estimateNoise(values: number[], domain: ChangeDomain, model?: PersonalNoiseModel): number {
+    const diffs = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+    const robust = (1.4826 * median(diffs)) / Math.SQRT2;
+    return Math.max(robust, standardErrorOfDifference(domain, model) / Math.SQRT2);
+}
+
+/**
+ * Tabular two-sided CUSUM on standardized values.
+ * Returns the estimated start of the first shift that raises an alarm.
+ */
+function cusumChangepoint(z: number[], baselineSessions: number): number | null {
+    const reference = mean(z.slice(0, baselineSessions));
+    let upper = 0, lower = 0;
+    let upperStart = 0, lowerStart = 0;
+
+    for (let t = 0; t < z.length; t++) {
+        if (upper === 0) upperStart = t;
+        if (lower === 0) lowerStart = t;
+        upper = Math.max(0, upper + (z[t] - reference) - CUSUM_K);
+        lower = Math.max(0, lower - (z[t] - reference) - CUSUM_K);
+        if (upper > CUSUM_H) return upperStart;
+        if (lower > CUSUM_H) return lowerStart;
+    }
+    return null;
+}
+
+function normalPdf(x: number, mu: number, variance: number): number {
+    return Math.exp(-((x - mu) ** 2) / (2 * variance)) / Math.sqrt(2 * Math.PI * variance);
+}
+
+/**
+ * Bayesian online changepoint detection with a Gaussian segment mean
+ * (unit noise variance, prior N(0, priorVariance)) and a constant hazard.
+ * @returns Posterior over the start index of the current segment after the last session.
+ */
+function bocpdSegmentStart(z: number[], priorVariance: number): number[] {
+    let runProbs = [1];
+    let means = [0];
+    let variances = [priorVariance];
+
+    for (const x of z) {
+        const predictive = runProbs.map((p, r) => p * normalPdf(x, means[r], variances[r] + 1));
+        const changeMass = predictive.reduce((sum, p) => sum + p * HAZARD, 0);
+        const next = [changeMass, ...predictive.map((p) => p * (1 - HAZARD))];
+        const total = next.reduce((a, b) => a + b, 0);
+        runProbs = total > 0 ? next.map((p) => p / total) : next.map((_, r) => (r === 0 ? 1 : 0));
+
+        // Posterior of each run's segment mean after seeing x
+        const updatedVariances = variances.map((v) => 1 / (1 / v + 1));
+        means = [0, ...means.map((m, r) => updatedVariances[r] * (m / variances[r] + x))];
+        variances = [priorVariance, ...updatedVariances];
+    }
+
+    // Run length r after n sessions = the segment started at index n - r
+    const n = z.length;
+    const starts = new Array<number>(n + 1).fill(0);
+    runProbs.forEach((p, r) => {
+        starts[Math.max(0, n - r)] += p;
+    });
+    return starts.slice(0, n);
+}
+
+function detectDomain(
+    allSessions: SessionDataPoint[],
+    domain: ChangeDomain,
+    baselineSessions: number,
+    model?: PersonalNoiseModel
+): Changepoint | null {
+    // Only sessions that measured the domain; a carried-forward copy is not a new observation
+    const sessions = allSessions.filter((s) => isMeasured(s, domain));
+    if (sessions.length < MIN_CHANGEPOINT_SESSIONS) return null;
+    const values = sessions.map(SERIES[domain]);
+    const noise = estimateNoise(values, domain, model);
+    const center = median(values.slice(0, baselineSessions));
+    const z = values.map((v) => (v - center) / noise);
+
+    const cusumIndex = cusumChangepoint(z, baselineSessions);
+    const posterior = bocpdSegmentStart(z, (MEASUREMENT_NORMS[domain].sd / noise) ** 2);
+
+    // Most likely start of a new segment, leaving room for two sessions on each side
+    let bocpdIndex = 2;
+    for (let i = 2; i <= values.length - 2; i++) {
+        if (posterior[i] > posterior[bocpdIndex]) bocpdIndex = i;
+    }
+    const bocpdFound = posterior[bocpdIndex] >= CHANGEPOINT_PROBABILITY;
+    const cusumFound = cusumIndex !== null && cusumIndex >= 1 && cusumIndex <= values.length - 2;
+    if (!bocpdFound && !cusumFound) return null;
+
+    const index = bocpdFound ? bocpdIndex : (cusumIndex as number);
+    const magnitude = mean(values.slice(index)) - mean(values.slice(0, index));
+    if (Math.abs(magnitude) < standardErrorOfDifference(domain, model)) return null;
+
+    return {
+        domain,
+        index: allSessions.indexOf(sessions[index]),
+        timestamp: sessions[index].timestamp,
+        magnitude,
+        probability: posterior[index],
+        method: bocpdFound && cusumFound && cusumIndex === index ? "both" : bocpdFound ? "bocpd" : "cusum",
+    };
+}
+
+/**
+ * Detects the most likely step change in each domain.
+ * @param sessions - Session data points sorted by timestamp.
+ * @param baselineSessions - Leading sessions that set the reference level.
+ * @param noise - The person's noise model (buildNoiseModel); population norms if omitted.
+ * @returns One changepoint per domain with a shift, largest relative to retest noise first.
+ */
+export function detectChangepoints(
+    sessions: SessionDataPoint[],
+    baselineSessions: number = DEFAULT_BASELINE_SESSIONS,
+    noise?: PersonalNoiseModel
+): Changepoint[] {
+    if (sessions.length < MIN_CHANGEPOINT_SESSIONS) return [];
+
+    return (Object.keys(SERIES) as ChangeDomain[])
+        .map((domain) => detectDomain(sessions, domain, baselineSessions, noise))
+        .filter((cp): cp is Changepoint => cp !== null)
+        .sort((a, b) =>
+            Math.abs(b.magnitude) / standardErrorOfDifference(b.domain, noise) -
+            Math.abs(a.magnitude) / standardErrorOfDifference(a.domain, noise));
+}
+
+/**
+ * Factor text for a changepoint, e.g. "step change in memory on 12 Mar".
+ */
+export function describeChangepoint(changepoint: Changepoint): string {
+    const date = new Date(changepoint.timestamp).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+    return `step change in ${changepoint.domain} on ${date}`;
+}
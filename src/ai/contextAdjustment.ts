@@ -0,0 +1,112 @@
+/**
+ * Context Adjustment
+ * Removes the expected effect of the pre-test check-in (sleep, caffeine, mood,
+ * pain, alcohol, time since waking) from session features, so a bad night's
+ * sleep is not read as a change in performance.
+ *
+ * The effects are fixed, deliberately conservative approximations; personal
+ * histories are far too short to fit them per user.
+ */
+
+import type { ExtractedFeatures } from "./featureExtractor";
+import type { SessionDataPoint, TrendDomain } from "./trendAnalyzer";
+import type { SessionContext } from "../types/contextTypes";
+import { FEATURE_DOMAINS } from "./batteryFeatures";
+
+type FeatureEffect = Partial<Pick<ExtractedFeatures, "memoryAccuracy" | "reactionTimeAvg" | "patternScore" | "lexicalDiversity">>;
+
+/** Sleep below this many hours counts as short. */
+const SLEEP_REFERENCE_HOURS = 7;
+/** Sleep inertia shortly after waking; fatigue after a long day. */
+const INERTIA_HOURS = 1;
+const LONG_DAY_HOURS = 16;
+/** Caffeine speeds responses up to about this many drinks. */
+const CAFFEINE_CAP = 3;
+
+/** Expected change per unit of each covariate (negative accuracy = worse, positive ms = slower). */
+const CONTEXT_EFFECTS = {
+    sleepDeficitHour: { memoryAccuracy: -0.02, reactionTimeAvg: 15, patternScore: -0.02, lexicalDiversity: -0.005 },
+    sleepInertia: { memoryAccuracy: -0.02, reactionTimeAvg: 20 },
+    longDayHour: { memoryAccuracy: -0.01, reactionTimeAvg: 5 },
+    caffeineDrink: { reactionTimeAvg: -8 },
+    alcoholDrink: { memoryAccuracy: -0.015, reactionTimeAvg: 8, patternScore: -0.01 },
+    lowMoodStep: { memoryAccuracy: -0.015, reactionTimeAvg: 5 },
+    painLevel: { memoryAccuracy: -0.02, reactionTimeAvg: 10, patternScore: -0.015 },
+} satisfies Record<string, FeatureEffect>;
+
+/**
+ * How many units of each effect the check-in answers amount to.
+ */
+function contextExposure(context: SessionContext): Record<keyof typeof CONTEXT_EFFECTS, number> {
+    const { sleepHours, hoursAwake, caffeineDrinks, alcoholDrinks, mood, pain } = context;
+    return {
+        sleepDeficitHour: sleepHours !== undefined ? Math.max(0, SLEEP_REFERENCE_HOURS - sleepHours) : 0,
+        sleepInertia: hoursAwake !== undefined && hoursAwake < INERTIA_HOURS ? 1 : 0,
+        longDayHour: hoursAwake !== undefined ? Math.max(0, hoursAwake - LONG_DAY_HOURS) : 0,
+        caffeineDrink: Math.min(caffeineDrinks ?? 0, CAFFEINE_CAP),
+        alcoholDrink: alcoholDrinks ?? 0,
+        lowMoodStep: mood !== undefined ? Math.max(0, 3 - mood) : 0,
+        painLevel: pain ?? 0,
+    };
+}
+
+/**
+ * The expected effect of the check-in on each feature.
+ */
+export function estimateContextEffect(context: SessionContext): FeatureEffect {
+    const effect: Record<string, number> = {};
+    const exposure = contextExposure(context);
+
+    for (const [name, units] of Object.entries(exposure) as [keyof typeof CONTEXT_EFFECTS, number][]) {
+        if (units === 0) continue;
+        for (const [feature, perUnit] of Object.entries(CONTEXT_EFFECTS[name])) {
+            effect[feature] = (effect[feature] ?? 0) + perUnit * units;
+        }
+    }
+    return effect as FeatureEffect;
+}
+
+/**
+ * Features with the expected effect of the check-in removed.
+ * Without a check-in the features are returned unchanged.
+ * @param measured - Domains the session took (all if omitted). A value carried
+ *   forward from an earlier session was not affected by this check-in and is kept.
+ */
+export function adjustFeaturesForContext(
+    features: ExtractedFeatures,
+    context?: SessionContext,
+    measured?: TrendDomain[]
+): ExtractedFeatures {
+    if (!context) return features;
+
+    const effect = estimateContextEffect(context);
+    const adjusted = { ...features };
+    for (const [feature, delta] of Object.entries(effect) as [keyof FeatureEffect, number][]) {
+        if (measured && !measured.includes(FEATURE_DOMAINS[feature])) continue;
+        adjusted[feature] -= delta;
+    }
+    adjusted.memoryAccuracy = Math.min(1, Math.max(0, adjusted.memoryAccuracy));
+    adjusted.patternScore = Math.min(1, Math.max(0, adjusted.patternScore));
+    return adjusted;
+}
+
+export function adjustSessionsForContext(sessions: SessionDataPoint[]): SessionDataPoint[] {
+    return sessions.map((s) => ({ ...s, features: adjustFeaturesForContext(s.features, s.context, s.measured) }));
+}
+
+/**
+ * Plain-language description of the check-in answers that affect performance.
+ */
+export function describeContextFactors(context: SessionContext): string[] {
+    const exposure = contextExposure(context);
+    const factors: string[] = [];
+
+    if (exposure.sleepDeficitHour > 0) factors.push(`short sleep (${context.sleepHours}h)`);
+    if (exposure.sleepInertia > 0) factors.push("testing shortly after waking");
+    if (exposure.longDayHour > 0) factors.push(`a long day (${context.hoursAwake}h awake)`);
+    if (exposure.caffeineDrink > 0) factors.push("caffeine");
+    if (exposure.alcoholDrink > 0) factors.push("recent alcohol");
+    if (exposure.lowMoodStep > 0) factors.push("low mood");
+    if (exposure.painLevel > 0) factors.push("pain");
+    return factors;
+}
@@ -0,0 +1,236 @@
+/**
+ * Counterfactual Explainer
+ * Answers "what would have to change for a milder level?" by re-running
+ * computeRisk on altered inputs: the smallest improvement in one domain, of
+ * the latest session or of its 30-day trend, that lowers the level, and how
+ * much each factor adds to the fused score (the score with it minus the score
+ * without it). Explains the level of the session's signals, before resampling
+ * and hysteresis; changepoints are held as found.
+ */
+
+import type { AssessedRiskLevel } from "../ethics/messagingRules";
+import { RISK_LABELS, RISK_LEVELS, isMessageSafe } from "../ethics/messagingRules";
+import { RESULT_DOMAIN_LABELS } from "../storage";
+import type { TrendPrediction } from "../ml/types";
+import type { ExtractedFeatures } from "./featureExtractor";
+import type { AnomalyResult, BaselineVector } from "./anomalyDetector";
+import { detectAnomalies, isDecliningAnomaly } from "./anomalyDetector";
+import type { TrendDomain, TrendSlopes } from "./trendAnalyzer";
+import { SLOPE_KEYS } from "./trendAnalyzer";
+import type { Changepoint } from "./changepointDetector";
+import { describeChangepoint } from "./changepointDetector";
+import { RCI_FACTOR_NAMES, computeRisk } from "./riskEngine";
+import type { RiskOptions } from "./riskEngine";
+import { DOMAIN_METRICS } from "./reliableChange";
+import { DEFAULT_RISK_POLICY } from "./riskPolicy";
+import { measuredFeatures } from "./batteryFeatures";
+
+export interface DomainCounterfactual {
+    domain: TrendDomain;
+    /**
+     * Improvement of the latest session, in the domain's units (reaction: ms
+     * faster), that lowers the level; null if a return to the baseline would not.
+     */
+    sessionImprovement: number | null;
+    /** Improvement of the slope per 30 days that lowers the level; null if levelling off would not. */
+    trendImprovement: number | null;
+}
+
+export interface FactorContribution {
+    factor: string;
+    /** Fused score with the factor minus the score without it. */
+    contribution: number;
+}
+
+export interface CounterfactualExplanation {
+    /** Level explained: that of the session's signals, before resampling. */
+    riskLevel: AssessedRiskLevel;
+    /** The next milder level; null when the level is already stable. */
+    targetLevel: AssessedRiskLevel | null;
+    riskScore: number;
+    domains: DomainCounterfactual[];
+    /** Factors present in the session, largest contribution first. */
+    contributions: FactorContribution[];
+    /** Plain-language sentences that pass the messaging rules; empty when stable. */
+    summary: string[];
+}
+
+/** Inputs of computeRisk the explainer alters. */
+interface Scenario {
+    current: ExtractedFeatures;
+    slopes: TrendSlopes;
+    anomaly: AnomalyResult;
+    mlResult: TrendPrediction | null;
+    changepoints: Changepoint[];
+}
+
+const DOMAINS = Object.keys(SLOPE_KEYS) as TrendDomain[];
+
+/** Bisection steps; the search interval shrinks to 2^-24 of its width. */
+const SEARCH_STEPS = 24;
+
+// Amounts rounded up, so the stated improvement is always enough
+const AMOUNT_FORMATS: Record<TrendDomain, (amount: number) => string> = {
+    memory: (accuracy) => `${Math.ceil(accuracy * 100)} points`,
+    reaction: (ms) => `${Math.ceil(ms)} ms`,
+    pattern: (score) => `${Math.ceil(score * 100)} points`,
+    language: (diversity) => `${(Math.ceil(diversity * 100) / 100).toFixed(2)} in lexical diversity`,
+};
+
+/** The domain's metric moved by `amount` in the direction of improvement. */
+function improveMetric(features: ExtractedFeatures, domain: TrendDomain, amount: number): ExtractedFeatures {
+    const metric = DOMAIN_METRICS[domain];
+    const value = features[metric] as number;
+    return { ...features, [metric]: domain === "reaction" ? value - amount : value + amount };
+}
+
+/** The domain's slope, and its interval, raised by `amount` per 30 days. */
+function improveSlope(slopes: TrendSlopes, domain: TrendDomain, amount: number): TrendSlopes {
+    const key = SLOPE_KEYS[domain];
+    const improved: TrendSlopes = { ...slopes, [key]: slopes[key] + amount };
+    if (slopes.intervals) {
+        const interval = slopes.intervals[domain];
+        improved.intervals = {
+            ...slopes.intervals,
+            [domain]: { ...interval, slope: interval.slope + amount, lower: interval.lower + amount, upper: interval.upper + amount },
+        };
+    }
+    return improved;
+}
+
+/**
+ * Smallest amount in (0, max] for which `lowers` holds, assuming it keeps
+ * holding above that; null if it does not hold at max.
+ */
+function smallestImprovement(max: number, lowers: (amount: number) => boolean): number | null {
+    if (!(max > 0) || !lowers(max)) return null;
+    let low = 0;
+    let high = max;
+    for (let i = 0; i < SEARCH_STEPS; i++) {
+        const mid = (low + high) / 2;
+        if (lowers(mid)) high = mid;
+        else low = mid;
+    }
+    return high;
+}
+
+/**
+ * Explains a risk result counterfactually. Takes the inputs of computeRisk;
+ * with `options.resampling`, the anomaly is recomputed for an improved session.
+ * @throws If `options.policy` fails validateRiskPolicy.
+ */
+export function explainCounterfactuals(
+    current: ExtractedFeatures,
+    baseline: BaselineVector,
+    slopes: TrendSlopes,
+    anomaly: AnomalyResult,
+    mlResult?: TrendPrediction | null,
+    options: RiskOptions = {}
+): CounterfactualExplanation {
+    const policy = options.policy ?? DEFAULT_RISK_POLICY;
+    const pointOptions: RiskOptions = { ...options, resampling: undefined };
+    const assess = (scenario: Scenario) => computeRisk(scenario.current, baseline, scenario.slopes, scenario.anomaly,
+        scenario.mlResult, { ...pointOptions, changepoints: scenario.changepoints });
+
+    const base: Scenario = { current, slopes, anomaly, mlResult: mlResult ?? null, changepoints: options.changepoints ?? [] };
+    const result = assess(base);
+    const rank = RISK_LEVELS.indexOf(result.riskLevel);
+    const targetLevel = rank > 0 ? RISK_LEVELS[rank - 1] : null;
+    const lowers = (scenario: Scenario) => RISK_LEVELS.indexOf(assess(scenario).riskLevel) < rank;
+
+    // An improved session also changes how unusual it is against the history
+    const history = options.resampling?.sessions;
+    const anomalyFor = (domain: TrendDomain, amount: number): AnomalyResult => {
+        if (!history || history.length === 0) return anomaly;
+        const previous = history.slice(0, -1).map(measuredFeatures);
+        const session = history[history.length - 1];
+        const latest = measuredFeatures({ ...session, features: improveMetric(session.features, domain, amount) });
+        return detectAnomalies(latest, previous, 2, { mode: options.resampling?.anomalyMode });
+    };
+
+    const domains: DomainCounterfactual[] = DOMAINS.map((domain) => {
+        if (!targetLevel) return { domain, sessionImprovement: null, trendImprovement: null };
+        const gap = -result.domains[domain].delta; // Back to the baseline
+        const slope = slopes[SLOPE_KEYS[domain]]; // Back to level
+        return {
+            domain,
+            sessionImprovement: smallestImprovement(gap, (amount) => lowers({
+                ...base,
+                current: improveMetric(current, domain, amount),
+                anomaly: anomalyFor(domain, amount),
+            })),
+            trendImprovement: smallestImprovement(-slope, (amount) => lowers({
+                ...base,
+                slopes: improveSlope(slopes, domain, amount),
+            })),
+        };
+    });
+
+    // Each factor present, removed on its own
+    const removals: { factor: string; scenario: Scenario }[] = [];
+    for (const domain of DOMAINS) {
+        const { rci, delta, slope } = result.domains[domain];
+        if (rci < -policy.signals.rciThreshold) {
+            removals.push({ factor: RCI_FACTOR_NAMES[domain], scenario: { ...base, current: improveMetric(current, domain, -delta) } });
+        }
+        if (result.domains[domain].signals.includes(`declining ${domain} trend`)) {
+            removals.push({ factor: `declining ${domain} trend`, scenario: { ...base, slopes: improveSlope(slopes, domain, -slope) } });
+        }
+    }
+    for (const step of result.changepoints) {
+        removals.push({ factor: describeChangepoint(step), scenario: { ...base, changepoints: base.changepoints.filter((cp) => cp !== step) } });
+    }
+    if (isDecliningAnomaly(anomaly)) {
+        removals.push({ factor: "unusual session", scenario: { ...base, anomaly: { ...anomaly, isAnomaly: false } } });
+    }
+    if (mlResult) {
+        removals.push({ factor: `${mlResult.direction} ML trend`, scenario: { ...base, mlResult: null } });
+    }
+    const contributions = removals
+        .map(({ factor, scenario }) => ({ factor, contribution: result.riskScore - assess(scenario).riskScore }))
+        .sort((a, b) => b.contribution - a.contribution);
+
+    return {
+        riskLevel: result.riskLevel,
+        targetLevel,
+        riskScore: result.riskScore,
+        domains,
+        contributions,
+        summary: targetLevel ? summarize(targetLevel, domains, contributions) : [],
+    };
+}
+
+/**
+ * Sentences for the user; any that would break the messaging rules are left out.
+ */
+function summarize(
+    targetLevel: AssessedRiskLevel,
+    domains: DomainCounterfactual[],
+    contributions: FactorContribution[]
+): string[] {
+    const target = `"${RISK_LABELS[targetLevel]}"`;
+    const sentences: string[] = [];
+
+    for (const { domain, sessionImprovement, trendImprovement } of domains) {
+        const label = RESULT_DOMAIN_LABELS[domain];
+        if (sessionImprovement !== null) {
+            sentences.push(`This session would read ${target} if your latest ${label} result were better by `
+                + `${AMOUNT_FORMATS[domain](sessionImprovement)}.`);
+        }
+        if (trendImprovement !== null) {
+            sentences.push(`It would read ${target} if your ${label} trend were better by `
+                + `${AMOUNT_FORMATS[domain](trendImprovement)} per 30 days.`);
+        }
+    }
+    if (sentences.length === 0) {
+        sentences.push(`No single domain on its own would bring this session to ${target}; several factors contribute.`);
+    }
+
+    const largest = contributions.filter((c) => c.contribution > 0).slice(0, 3);
+    if (largest.length > 0) {
+        sentences.push(`Largest contributions to the score: `
+            + `${largest.map((c) => `${c.factor} (+${c.contribution.toFixed(2)})`).join(", ")}.`);
+    }
+
+    return sentences.filter(isMessageSafe);
+}
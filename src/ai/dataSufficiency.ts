@@ -0,0 +1,112 @@
+/**
+ * Data Sufficiency
+ * How far each domain is from a usable baseline: its valid sessions in the
+ * active baseline epoch, the days they span, and the valid rounds they hold
+ * (responses, words, sequences). Until some domain has enough, assessUser
+ * makes no assessment and the Dashboard shows "insufficient_data" with a
+ * progress meter instead of a risk level; insufficient domains stay
+ * "insufficient_data" in the domain breakdown after that.
+ */
+
+import { RESULT_DOMAINS, filterToEpoch, getActiveEpoch, isResultInvalid } from "../storage";
+import type { AnyStoredResult, BaselineEpoch, DomainResultMap, ResultDomain } from "../storage";
+import type { ResultHistory } from "./assessUser";
+
+/** Sessions in the active baseline epoch needed before an assessment is made. */
+export const MIN_ASSESSMENT_SESSIONS = 3;
+
+export interface SufficiencyRequirements {
+    sessions: number;
+    /** Days between the first and last session, so day-to-day variation is seen. */
+    spanDays: number;
+    validRounds: Record<ResultDomain, number>;
+}
+
+export interface DomainSufficiency {
+    sessions: number;
+    spanDays: number;
+    validRounds: number;
+    /** 0-1, the mean share of each requirement met. */
+    progress: number;
+    sufficient: boolean;
+}
+
+export interface DataSufficiency {
+    domains: Record<ResultDomain, DomainSufficiency>;
+    /** 0-1, the mean over domains. */
+    progress: number;
+    sufficient: boolean;
+}
+
+export const SUFFICIENCY_REQUIREMENTS: SufficiencyRequirements = {
+    sessions: MIN_ASSESSMENT_SESSIONS,
+    spanDays: 2,
+    validRounds: { reaction: 20, memory: 30, pattern: 15, language: 150 },
+};
+
+/** What a valid round is in each domain, for display. */
+export const ROUND_UNITS: Record<ResultDomain, string> = {
+    reaction: "responses",
+    memory: "words",
+    pattern: "sequences",
+    language: "spoken words",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Older records may lack round detail; they count as sessions without rounds
+const VALID_ROUNDS: { [D in ResultDomain]: (result: DomainResultMap[D]) => number } = {
+    reaction: (r) => (r.rounds ?? []).filter(
+        (round) => !round.isCalibration && !round.isFalseStart && !round.isTimeout && round.reactionTime !== null
+    ).length,
+    memory: (r) => r.totalWords ?? 0,
+    pattern: (r) => r.metrics?.totalRounds ?? 0,
+    language: (r) => r.rawMetrics?.wordCount ?? 0,
+};
+
+function measureDomain<D extends ResultDomain>(
+    domain: D,
+    results: DomainResultMap[D][],
+    epoch: BaselineEpoch,
+    requirements: SufficiencyRequirements
+): DomainSufficiency {
+    const valid = filterToEpoch(results as AnyStoredResult[], epoch)
+        .filter((result) => !isResultInvalid(result)) as DomainResultMap[D][];
+    const times = valid.map((result) => new Date(result.timestamp).getTime());
+    const spanDays = times.length > 0 ? (Math.max(...times) - Math.min(...times)) / DAY_MS : 0;
+    const validRounds = valid.reduce((sum, result) => sum + VALID_ROUNDS[domain](result), 0);
+
+    const shares = [
+        valid.length / requirements.sessions,
+        spanDays / requirements.spanDays,
+        validRounds / requirements.validRounds[domain],
+    ].map((share) => Math.min(1, share));
+
+    return {
+        sessions: valid.length,
+        spanDays,
+        validRounds,
+        progress: shares.reduce((a, b) => a + b, 0) / shares.length,
+        sufficient: shares.every((share) => share >= 1),
+    };
+}
+
+/**
+ * Measures each domain's data in a baseline epoch against the requirements.
+ */
+export function measureDataSufficiency(
+    history: ResultHistory,
+    epoch: BaselineEpoch = getActiveEpoch(),
+    requirements: SufficiencyRequirements = SUFFICIENCY_REQUIREMENTS
+): DataSufficiency {
+    const domains = Object.fromEntries(
+        RESULT_DOMAINS.map((domain) => [domain, measureDomain(domain, history[domain], epoch, requirements)])
+    ) as Record<ResultDomain, DomainSufficiency>;
+    const measured = Object.values(domains);
+
+    return {
+        domains,
+        progress: measured.reduce((sum, d) => sum + d.progress, 0) / measured.length,
+        sufficient: measured.every((d) => d.sufficient),
+    };
+}
@@ -2,3 +2,15 @@ export * from "./featureExtractor";
 export * from "./trendAnalyzer";
 export * from "./anomalyDetector";
 export * from "./riskEngine";
+export * from "./batteryFeatures";
+export * from "./contextAdjustment";
+export * from "./assessUser";
+export * from "./practiceEffect";
+export * from "./reliableChange";
+export * from "./changepointDetector";
+export * from "./riskPolicy";
+export * from "./riskHysteresis";
+export * from "./riskUncertainty";
+export * from "./dataSufficiency";
+export * from "./counterfactualExplainer";
+export * from "./personalNoise";
@@ -4,19 +4,29 @@
  */
 
 import type { LanguageAssessmentResult } from "../types/languageTypes";
+import { INITIAL_EPOCH, filterToEpoch } from "../storage";
+import type { BaselineEpoch } from "../storage";
+import { theilSenSlope, timePoints } from "../utils/statistics";
 
 export interface LanguageTrendAnalysis {
     baselineDeviation: number; // % change from baseline fluency
-    fluencySlope: number; // Slope of fluency over time
+    fluencySlope: number; // Change in fluency per 30 days
     lexicalStabilityIndex: number; // Stability of vocabulary usage
     anomalySignal: boolean; // True if current session is outlier
     variabilityScore: number;
 }
 
+/**
+ * Language trends of the current session against the epoch's baseline.
+ * @param epoch - Baseline epoch; history before it is ignored.
+ */
 export function extractLanguageTrends(
     current: LanguageAssessmentResult,
-    history: LanguageAssessmentResult[]
+    allHistory: LanguageAssessmentResult[],
+    epoch: BaselineEpoch = INITIAL_EPOCH
 ): LanguageTrendAnalysis {
+    const history = filterToEpoch(allHistory, epoch);
+
     if (history.length < 2) {
         return {
             baselineDeviation: 0,
@@ -30,16 +40,17 @@ export function extractLanguageTrends(
     // Sort history by date
     const sorted = [...history].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
-    // 1. Fluency Slope (Linear Regression)
-    const fluencyValues = sorted.map(h => h.derivedFeatures.fluencyIndex);
-    // Add current to analysis
-    fluencyValues.push(current.derivedFeatures.fluencyIndex);
+    // 1. Fluency Slope (Theil–Sen on elapsed time, robust to a single off session)
+    const fluencyValues = [...sorted, current].map(h => ({
+        timestamp: h.timestamp,
+        value: h.derivedFeatures.fluencyIndex,
+    }));
 
-    const fluencySlope = calculateSlope(fluencyValues);
+    const fluencySlope = theilSenSlope(timePoints(fluencyValues));
 
     // 2. Baseline Deviation
-    // Baseline = Avg of first 3 sessions (or all if < 3)
-    const baselineSet = sorted.slice(0, 3);
+    // Baseline = Avg of the epoch's first baseline sessions (or all if fewer)
+    const baselineSet = sorted.slice(0, epoch.baselineSessions);
     const baselineFluency = baselineSet.reduce((sum, h) => sum + h.derivedFeatures.fluencyIndex, 0) / baselineSet.length;
     const currentFluency = current.derivedFeatures.fluencyIndex;
 
@@ -72,19 +83,6 @@ export function extractLanguageTrends(
 }
 
 // Helpers
-function calculateSlope(values: number[]): number {
-    if (values.length < 2) return 0;
-    const n = values.length;
-    const indices = Array.from({ length: n }, (_, i) => i);
-    const sumX = indices.reduce((a, b) => a + b, 0);
-    const sumY = values.reduce((a, b) => a + b, 0);
-    const sumXY = indices.reduce((sum, x, i) => sum + x * values[i], 0);
-    const sumXX = indices.reduce((sum, x) => sum + x * x, 0);
-
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    return slope;
-}
-
 function calculateVariance(values: number[]): number {
     if (values.length === 0) return 0;
     const mean = values.reduce((a, b) => a + b, 0) / values.length;
@@ -3,6 +3,7 @@ import type {
     MemoryFeatures,
     MemoryProfile
 } from '../types/memoryTypes';
+import { theilSenSlope, timePoints } from '../utils/statistics';
 
 /**
  * Extracts derived features from raw memory metrics.
@@ -153,27 +154,11 @@ export function computeRecallStability(sessions: MemoryFeatures[]): number {
 }
 
 /**
- * Computes decline slope over sessions.
+ * Computes decline slope over sessions: change in recall accuracy per 30 days
+ * (Theil–Sen on elapsed time).
  */
-export function computeDeclineSlope(sessions: MemoryFeatures[]): number {
-    if (sessions.length < 2) return 0;
-
-    const n = sessions.length;
-    const accuracies = sessions.map(s => s.recallAccuracy);
-
-    // Simple linear regression slope
-    const xMean = (n - 1) / 2;
-    const yMean = accuracies.reduce((a, b) => a + b, 0) / n;
-
-    let numerator = 0;
-    let denominator = 0;
-
-    for (let i = 0; i < n; i++) {
-        numerator += (i - xMean) * (accuracies[i] - yMean);
-        denominator += Math.pow(i - xMean, 2);
-    }
-
-    return denominator !== 0 ? numerator / denominator : 0;
+export function computeDeclineSlope(sessions: (MemoryFeatures & { timestamp: Date | number | string })[]): number {
+    return theilSenSlope(timePoints(sessions.map(s => ({ timestamp: s.timestamp, value: s.recallAccuracy }))));
 }
 
 /**
@@ -1,4 +1,5 @@
 import type { PatternRoundData } from "../types/patternTypes";
+import { indexPoints, theilSenSlope } from "../utils/statistics";
 
 /**
  * Extracts deep cognitive features from raw pattern assessment data.
@@ -17,7 +18,7 @@ export function extractPatternFeatures(rounds: PatternRoundData[]) {
     // 1. Learning Rate: How much faster/accurate do they get within same difficulty levels?
     // Simplified: Correlation between round index and completion time (normalized by seq length)
     const normalizedTimes = rounds.map(r => r.completionTime / r.sequenceLength);
-    const timeSlope = calculateSlope(normalizedTimes);
+    const timeSlope = theilSenSlope(indexPoints(normalizedTimes));
     // Negative slope = faster = positive learning
     const learningRate = -timeSlope * 100;
 
@@ -52,16 +53,3 @@ export function extractPatternFeatures(rounds: PatternRoundData[]) {
         patternStabilityIndex,
     };
 }
-
-function calculateSlope(values: number[]): number {
-    if (values.length < 2) return 0;
-    const n = values.length;
-    const indices = Array.from({ length: n }, (_, i) => i);
-    const sumX = indices.reduce((a, b) => a + b, 0);
-    const sumY = values.reduce((a, b) => a + b, 0);
-    const sumXY = indices.reduce((sum, x, i) => sum + x * values[i], 0);
-    const sumXX = indices.reduce((sum, x) => sum + x * x, 0);
-
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    return slope;
-}
@@ -0,0 +1,83 @@
+/**
+ * Personal Noise
+ * How much each domain varies from session to session for this person, so a
+ * deviation is judged against their own variability rather than a population
+ * norm: 60 ms slower is unremarkable for someone whose reaction time swings by
+ * 80 ms, and a clear change for someone steady to within 10 ms.
+ *
+ * Session-to-session variance comes from successive differences, which a slow
+ * trend barely inflates; for reaction time, the round variance within each
+ * session (ReactionAggregates.variance) bounds it from below. Only sessions
+ * that took a domain count towards it: a skipped domain's carried-forward
+ * value would add a difference of exactly zero. The personal
+ * estimate is blended with the population SEM, weighted by the differences it
+ * rests on, so thresholds start at the norm and adapt as history grows.
+ */
+
+import type { SessionDataPoint } from "./trendAnalyzer";
+import { isMeasured } from "./batteryFeatures";
+import type { ChangeDomain } from "./reliableChange";
+import { DOMAIN_METRICS, MEASUREMENT_NORMS, standardErrorOfMeasurement } from "./reliableChange";
+import { DEFAULT_CONFIG as REACTION_CONFIG } from "../components/tests/reaction/reactionLogic";
+import { mean } from "../utils/statistics";
+
+export interface DomainNoise {
+    /** SD of one session around the person's usual level, in the domain's units. */
+    sem: number;
+    /** Share of `sem` that rests on the person's own sessions (0 = population norm only). */
+    personalWeight: number;
+}
+
+export type PersonalNoiseModel = Record<ChangeDomain, DomainNoise>;
+
+/** Weight of the population norm, in session-to-session differences. */
+export const NOISE_PRIOR_DIFFERENCES = 6;
+
+/** A personal SEM never drops below this share of the population SEM (score resolution, lucky streaks). */
+export const MIN_NOISE_SHARE = 0.25;
+
+// Scored rounds per reaction session; the round variance over these is the session mean's sampling variance
+const REACTION_SCORED_ROUNDS = REACTION_CONFIG.totalRounds - REACTION_CONFIG.calibrationRounds;
+
+const DOMAINS = Object.keys(MEASUREMENT_NORMS) as ChangeDomain[];
+
+/**
+ * The population norms as a noise model, for a person with no history yet.
+ */
+export function populationNoiseModel(): PersonalNoiseModel {
+    return Object.fromEntries(
+        DOMAINS.map((domain) => [domain, { sem: standardErrorOfMeasurement(domain), personalWeight: 0 }])
+    ) as PersonalNoiseModel;
+}
+
+/**
+ * Builds a person's noise model from their sessions.
+ * @param sessions - Earlier sessions in time order, corrected like the assessed ones
+ *   (leave the assessed session out, so its deviation does not widen its own threshold).
+ * @param priorDifferences - Weight of the population norm, in session-to-session differences.
+ */
+export function buildNoiseModel(
+    sessions: SessionDataPoint[],
+    priorDifferences: number = NOISE_PRIOR_DIFFERENCES
+): PersonalNoiseModel {
+    const estimate = (domain: ChangeDomain): DomainNoise => {
+        const taken = sessions.filter((s) => isMeasured(s, domain));
+        const differences = Math.max(0, taken.length - 1);
+        const population = standardErrorOfMeasurement(domain);
+        if (differences === 0) return { sem: population, personalWeight: 0 };
+
+        // Var(x[t+1] - x[t]) = 2 SEM² when only noise separates sessions
+        const values = taken.map((s) => s.features[DOMAIN_METRICS[domain]] as number);
+        let variance = mean(values.slice(1).map((v, i) => (v - values[i]) ** 2)) / 2;
+        if (domain === "reaction") {
+            const withinSession = mean(taken.map((s) => s.features.reactionTimeVariance)) / REACTION_SCORED_ROUNDS;
+            variance = Math.max(variance, withinSession);
+        }
+
+        const personalWeight = differences / (differences + priorDifferences);
+        const blended = Math.sqrt(personalWeight * variance + (1 - personalWeight) * population ** 2);
+        return { sem: Math.max(blended, MIN_NOISE_SHARE * population), personalWeight };
+    };
+
+    return Object.fromEntries(DOMAINS.map((domain) => [domain, estimate(domain)])) as PersonalNoiseModel;
+}
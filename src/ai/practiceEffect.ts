@@ -0,0 +1,99 @@
+/**
+ * Practice Effect
+ * People get better at the memory and pattern tasks over their first sessions.
+ * Left alone, that retest gain inflates later scores and hides real decline.
+ *
+ * The gain is modelled as a learning curve, gain * (1 - e^(-k / tau)) at session k,
+ * fitted over the first PRACTICE_SESSIONS sessions and shrunk towards a typical
+ * gain, since a handful of sessions is too few to fit it alone.
+ *
+ * Each domain is fitted on, and indexed by, its own retests: the sessions whose
+ * `measured` includes it. A carried-forward value is no retest, so it gets no
+ * correction of its own and stays equal to the (corrected) reading it copies;
+ * placeholders before a domain's first session are left as they are.
+ */
+
+import type { ExtractedFeatures } from "./featureExtractor";
+import type { SessionDataPoint } from "./trendAnalyzer";
+import { FEATURE_DOMAINS, isMeasured } from "./batteryFeatures";
+
+export type PracticeFeature = "memoryAccuracy" | "patternScore";
+
+/** Sessions the learning curve is fitted over. */
+export const PRACTICE_SESSIONS = 5;
+/** Learning-curve time constant, in sessions. */
+const PRACTICE_TAU = 1.5;
+/** Typical total retest gain, and how many sessions that prior is worth. */
+const PRIOR_GAIN: Record<PracticeFeature, number> = { memoryAccuracy: 0.05, patternScore: 0.06 };
+const PRIOR_WEIGHT = 3;
+
+/** Total gain per feature once practice has levelled off. */
+export type PracticeModel = Record<PracticeFeature, number>;
+
+const PRACTICE_FEATURES = Object.keys(PRIOR_GAIN) as PracticeFeature[];
+
+function learningCurve(sessionIndex: number): number {
+    return 1 - Math.exp(-sessionIndex / PRACTICE_TAU);
+}
+
+/**
+ * Fits the total gain of one feature from its values in session order.
+ */
+function fitGain(values: number[], prior: number): number {
+    const points = values.slice(0, PRACTICE_SESSIONS).map((y, k) => ({ x: learningCurve(k), y }));
+    const n = points.length;
+
+    let fitted = prior;
+    if (n >= 3) {
+        const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+        const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+        const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+        const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+        fitted = sxy / sxx;
+    }
+
+    // Shrink towards the prior; a falling curve is decline, not negative practice
+    const shrunk = (n * fitted + PRIOR_WEIGHT * prior) / (n + PRIOR_WEIGHT);
+    return Math.min(Math.max(shrunk, 0), 3 * prior);
+}
+
+export function fitPracticeModel(sessions: SessionDataPoint[]): PracticeModel {
+    const model = {} as PracticeModel;
+    for (const feature of PRACTICE_FEATURES) {
+        const taken = sessions.filter((s) => isMeasured(s, FEATURE_DOMAINS[feature]));
+        model[feature] = fitGain(taken.map((s) => s.features[feature]), PRIOR_GAIN[feature]);
+    }
+    return model;
+}
+
+/**
+ * Retest gain expected by session `sessionIndex` (0 = first session of the domain).
+ */
+export function expectedPracticeGain(model: PracticeModel, sessionIndex: number): Partial<ExtractedFeatures> {
+    const progress = learningCurve(sessionIndex);
+    return {
+        memoryAccuracy: model.memoryAccuracy * progress,
+        patternScore: model.patternScore * progress,
+    };
+}
+
+/**
+ * Sessions with the expected retest gain removed, so every session is on the
+ * footing of a first attempt.
+ */
+export function correctForPractice(
+    sessions: SessionDataPoint[],
+    model: PracticeModel = fitPracticeModel(sessions)
+): SessionDataPoint[] {
+    const retests: Record<PracticeFeature, number> = { memoryAccuracy: 0, patternScore: 0 };
+    return sessions.map((s) => {
+        const features = { ...s.features };
+        for (const feature of PRACTICE_FEATURES) {
+            // A carried value repeats the domain's last retest; before the first one there is nothing to correct
+            const index = isMeasured(s, FEATURE_DOMAINS[feature]) ? retests[feature]++ : retests[feature] - 1;
+            if (index < 0) continue;
+            features[feature] -= model[feature] * learningCurve(index);
+        }
+        return { ...s, features };
+    });
+}
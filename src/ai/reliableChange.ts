@@ -0,0 +1,76 @@
+/**
+ * Reliable Change Index
+ * Expresses per-domain change in units of measurement error, so a difference
+ * is only called a change when retest noise is unlikely to explain it.
+ *
+ * RCI = (current - baseline - expected practice gain) / SEdiff,
+ * SEdiff = sqrt(2) * SEM, with SEM = SD * sqrt(1 - test-retest reliability)
+ * from population norms, or the person's own SEM from a PersonalNoiseModel.
+ */
+
+import type { ExtractedFeatures } from "./featureExtractor";
+import type { BaselineVector } from "./anomalyDetector";
+import type { PersonalNoiseModel } from "./personalNoise";
+
+export type ChangeDomain = "memory" | "reaction" | "pattern" | "language";
+
+/** Per-domain RCI; positive = improvement, negative = decline. */
+export type ReliableChange = Record<ChangeDomain, number>;
+
+/** |RCI| beyond this is a reliable change (90% two-sided). */
+export const RCI_THRESHOLD = 1.645;
+
+/**
+ * Between-person SD and test-retest reliability of each domain's measure
+ * (approximate values for short self-administered tasks).
+ */
+export const MEASUREMENT_NORMS: Record<ChangeDomain, { sd: number; reliability: number }> = {
+    memory: { sd: 0.12, reliability: 0.7 }, // accuracy 0-1
+    reaction: { sd: 40, reliability: 0.8 }, // ms
+    pattern: { sd: 0.12, reliability: 0.7 }, // score 0-1
+    language: { sd: 0.08, reliability: 0.6 }, // lexical diversity
+};
+
+/** Metric each domain's change is measured on. */
+export const DOMAIN_METRICS: Record<ChangeDomain, keyof BaselineVector> = {
+    memory: "memoryAccuracy",
+    reaction: "reactionTimeAvg",
+    pattern: "patternScore",
+    language: "lexicalDiversity",
+};
+
+/** Population SEM: how far one session strays from a person's true level. */
+export function standardErrorOfMeasurement(domain: ChangeDomain): number {
+    const { sd, reliability } = MEASUREMENT_NORMS[domain];
+    return sd * Math.sqrt(1 - reliability);
+}
+
+/**
+ * SEdiff of a domain: the person's own when a noise model is given, else the population norm.
+ */
+export function standardErrorOfDifference(domain: ChangeDomain, noise?: PersonalNoiseModel): number {
+    return Math.sqrt(2) * (noise ? noise[domain].sem : standardErrorOfMeasurement(domain));
+}
+
+/**
+ * RCI of the current session against the baseline.
+ * @param expectedGain - Retest gain still expected since the baseline, per domain
+ *                       (in the measure's units, improvement positive).
+ * @param noise - The person's noise model; the RCI is then a personal z-score.
+ */
+export function computeReliableChange(
+    current: ExtractedFeatures,
+    baseline: BaselineVector,
+    expectedGain: Partial<ReliableChange> = {},
+    noise?: PersonalNoiseModel
+): ReliableChange {
+    const rci = (domain: ChangeDomain, improvement: number) =>
+        (improvement - (expectedGain[domain] ?? 0)) / standardErrorOfDifference(domain, noise);
+
+    return {
+        memory: rci("memory", current.memoryAccuracy - baseline.memoryAccuracy),
+        reaction: rci("reaction", baseline.reactionTimeAvg - current.reactionTimeAvg), // Lower is better
+        pattern: rci("pattern", current.patternScore - baseline.patternScore),
+        language: rci("language", current.lexicalDiversity - baseline.lexicalDiversity),
+    };
+}
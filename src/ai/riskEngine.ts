@@ -4,22 +4,111 @@
  * to produce a final risk assessment.
  */
 
-import type { TrendSlopes } from "./trendAnalyzer";
+import type { TrendDomain, TrendSlopes } from "./trendAnalyzer";
+import { SLOPE_KEYS, describeReliableDeclines, isDecliningTrend } from "./trendAnalyzer";
 import type { AnomalyResult, BaselineVector } from "./anomalyDetector";
+import { isDecliningAnomaly, isDecliningDeviation } from "./anomalyDetector";
 import type { ExtractedFeatures } from "./featureExtractor";
-import type { RiskLevel } from "../ethics/messagingRules";
+import type { AssessedRiskLevel, RiskLevel } from "../ethics/messagingRules";
 import { RISK_MESSAGES, RISK_LABELS } from "../ethics/messagingRules";
 import type { TrendPrediction } from "../ml/types";
+import type { SessionContext } from "../types/contextTypes";
+import { adjustFeaturesForContext, describeContextFactors } from "./contextAdjustment";
+import type { ChangeDomain, ReliableChange } from "./reliableChange";
+import { DOMAIN_METRICS, computeReliableChange, standardErrorOfDifference } from "./reliableChange";
+import type { Changepoint } from "./changepointDetector";
+import { describeChangepoint } from "./changepointDetector";
+import type { RiskPolicy, RiskPolicyRef } from "./riskPolicy";
+import { DEFAULT_RISK_POLICY, describeRiskPolicy, validateRiskPolicy } from "./riskPolicy";
+import type { RiskLevelProbabilities, RiskResampling } from "./riskUncertainty";
+import { estimateLevelProbabilities, probabilityAtLeast, supportedRiskLevel } from "./riskUncertainty";
+import type { DomainSufficiency } from "./dataSufficiency";
+import type { CounterfactualExplanation } from "./counterfactualExplainer";
+import type { PersonalNoiseModel } from "./personalNoise";
+import { populationNoiseModel } from "./personalNoise";
+
+/** One domain judged on its own signals. */
+export interface DomainRisk {
+    /** insufficient_data until the domain has a usable baseline. */
+    level: RiskLevel;
+    /** Signals within the domain, named like topFactors. */
+    signals: string[];
+    /** Current minus baseline, in the domain's units; positive = improvement. */
+    delta: number;
+    /** The same change over the retest SEdiff; a personal z-score when a noise model was given. */
+    deltaZ: number;
+    /** Reliable change index; a personal z-score when a noise model was given. */
+    rci: number;
+    /** Change per 30 days, in the domain's units; positive = improvement, as in TrendSlopes. */
+    slope: number;
+    /** |z| of the current session against the earlier ones; null without enough history. */
+    anomalyZ: number | null;
+    sufficiency?: DomainSufficiency;
+}
 
 export interface RiskAnalysis {
-    riskLevel: RiskLevel;
+    /** Reported level; may lag rawRiskLevel until a change persists (see riskHysteresis). */
+    riskLevel: AssessedRiskLevel;
+    /**
+     * Level for this session before hysteresis: the signal level, lowered to one the
+     * resamples support when a session history is given (see supportedRiskLevel).
+     */
+    rawRiskLevel: AssessedRiskLevel;
     riskLabel: string;
     riskMessage: string;
-    riskConfidenceScore: number; // 0-1
+    /**
+     * Share of resamples at riskLevel, the reported level (also after hysteresis);
+     * a rough signal strength without a session history. 0-1
+     */
+    riskConfidenceScore: number;
+    /** Fused rule and ML score (0-1) that the policy's level thresholds apply to. */
+    riskScore: number;
+    /** Share of block-bootstrap resamples at each level; set when a session history is given. */
+    levelProbabilities?: RiskLevelProbabilities;
     anomalyScore: number; // 0-1
     explanation: string;
     topFactors: string[];
+    reliableChange: ReliableChange;
+    trendSlopes: TrendSlopes;
+    /** Step declines found in the session history. */
+    changepoints: Changepoint[];
+    /** What would lower the level, and what each factor adds; set by assessUser. */
+    counterfactual?: CounterfactualExplanation;
+    /** Each domain's own level; the overall level fuses them with the anomaly and ML. */
+    domains: Record<TrendDomain, DomainRisk>;
     mlPrediction?: TrendPrediction;
+    /** Policy that produced this analysis. */
+    policy: RiskPolicyRef;
+    /** The assessed session; set by assessUser. */
+    session?: { timestamp: number; epochId: string };
+}
+
+export interface RiskOptions {
+    /**
+     * Check-in for the current session. Its expected effect is removed before
+     * comparing to the baseline (which should be built from adjusted sessions too).
+     */
+    context?: SessionContext;
+    /** Domains the current session took; the check-in only adjusts these (all if omitted). */
+    measured?: TrendDomain[];
+    /**
+     * Retest gain still expected since the baseline, per domain. Leave empty
+     * when the sessions were already corrected for practice.
+     */
+    expectedGain?: Partial<ReliableChange>;
+    /** Step changes from detectChangepoints; only declines count towards risk. */
+    changepoints?: Changepoint[];
+    /** Thresholds and weights to apply (default DEFAULT_RISK_POLICY). */
+    policy?: RiskPolicy;
+    /** Session history behind the inputs; enables levelProbabilities. */
+    resampling?: RiskResampling;
+    /** Data per domain; a domain without a usable baseline is reported as insufficient_data. */
+    sufficiency?: Record<TrendDomain, DomainSufficiency>;
+    /**
+     * The person's session-to-session noise (buildNoiseModel). Reliable change
+     * and step severities are then personal z-scores; population norms if omitted.
+     */
+    noise?: PersonalNoiseModel;
 }
 
 export interface DeltaVector {
@@ -31,140 +120,283 @@ export interface DeltaVector {
 
 /**
  * Computes the delta between current features and baseline.
+ * @param noise - The person's noise model; each delta is then a personal
+ *   z-score (the change over the person's SEdiff) instead of raw units.
  */
 export function computeDelta(
     current: ExtractedFeatures,
-    baseline: BaselineVector
+    baseline: BaselineVector,
+    noise?: PersonalNoiseModel
 ): DeltaVector {
+    const scale = (domain: ChangeDomain, delta: number) =>
+        noise ? delta / standardErrorOfDifference(domain, noise) : delta;
     return {
-        memoryDelta: current.memoryAccuracy - baseline.memoryAccuracy,
-        reactionDelta: baseline.reactionTimeAvg - current.reactionTimeAvg, // Inverted: lower is better
-        patternDelta: current.patternScore - baseline.patternScore,
-        speechDelta: current.lexicalDiversity - baseline.lexicalDiversity,
+        memoryDelta: scale("memory", current.memoryAccuracy - baseline.memoryAccuracy),
+        reactionDelta: scale("reaction", baseline.reactionTimeAvg - current.reactionTimeAvg), // Inverted: lower is better
+        patternDelta: scale("pattern", current.patternScore - baseline.patternScore),
+        speechDelta: scale("language", current.lexicalDiversity - baseline.lexicalDiversity),
     };
 }
 
+/** Factor name of a reliable decline in each domain. */
+export const RCI_FACTOR_NAMES: Record<keyof ReliableChange, string> = {
+    memory: "memory decline",
+    reaction: "slower reaction time",
+    pattern: "pattern recognition decline",
+    language: "reduced language complexity",
+};
+
 /**
  * Identifies the top contributing factors to risk.
  */
 function identifyTopFactors(
-    delta: DeltaVector,
+    rci: ReliableChange,
     slopes: TrendSlopes,
-    anomaly: AnomalyResult
+    anomaly: AnomalyResult,
+    steps: Changepoint[],
+    policy: RiskPolicy,
+    noise?: PersonalNoiseModel
 ): string[] {
+    const { signals } = policy;
+    const { severityScale, deviationThreshold, singleDomainWeight, maxFactors } = policy.factors;
     const factors: { name: string; severity: number }[] = [];
 
-    // Check deltas (negative = decline)
-    if (delta.memoryDelta < -0.1) {
-        factors.push({ name: "memory decline", severity: Math.abs(delta.memoryDelta) });
-    }
-    if (delta.reactionDelta < -50) {
-        factors.push({ name: "slower reaction time", severity: Math.abs(delta.reactionDelta) / 100 });
-    }
-    if (delta.patternDelta < -0.1) {
-        factors.push({ name: "pattern recognition decline", severity: Math.abs(delta.patternDelta) });
+    // Reliable declines from baseline (negative RCI = decline)
+    for (const [domain, value] of Object.entries(rci) as [keyof ReliableChange, number][]) {
+        if (value < -signals.rciThreshold) {
+            factors.push({ name: RCI_FACTOR_NAMES[domain], severity: Math.abs(value) / severityScale });
+        }
     }
-    if (delta.speechDelta < -0.1) {
-        factors.push({ name: "reduced language complexity", severity: Math.abs(delta.speechDelta) });
+
+    // Check trend slopes (severity in multiples of the 30-day threshold)
+    for (const domain of policy.factors.trendDomains) {
+        if (isDecliningTrend(slopes, domain, signals.trendThresholds)) {
+            const severity = Math.abs(slopes[SLOPE_KEYS[domain]]) / signals.trendThresholds[domain] / severityScale;
+            factors.push({ name: `declining ${domain} trend`, severity });
+        }
     }
 
-    // Check trend slopes
-    if (slopes.memoryTrendSlope < -0.001) {
-        factors.push({ name: "declining memory trend", severity: Math.abs(slopes.memoryTrendSlope) * 100 });
+    // Step declines, in multiples of retest noise
+    for (const step of steps) {
+        factors.push({
+            name: describeChangepoint(step),
+            severity: Math.abs(step.magnitude) / standardErrorOfDifference(step.domain, noise) / severityScale,
+        });
     }
-    if (slopes.reactionTrendSlope < -0.001) {
-        factors.push({ name: "declining reaction trend", severity: Math.abs(slopes.reactionTrendSlope) * 100 });
+
+    // Multivariate anomaly: everything lower together, or one domain out of line
+    if (isDecliningAnomaly(anomaly) && anomaly.pattern && anomaly.contributions) {
+        const [metric, share] = Object.entries(anomaly.contributions).sort(([, a], [, b]) => b - a)[0];
+        factors.push(anomaly.pattern === "single_domain"
+            ? { name: `${metric} out of line with other domains`, severity: share * anomaly.anomalyScore * singleDomainWeight }
+            : { name: "all domains shifted together", severity: anomaly.anomalyScore });
     }
 
     // Check anomaly deviations
     for (const [metric, deviation] of Object.entries(anomaly.deviations)) {
-        if (deviation > 2) {
-            factors.push({ name: `unusual ${metric}`, severity: deviation / 3 });
+        if (deviation > deviationThreshold && isDecliningDeviation(anomaly, metric)) {
+            factors.push({ name: `unusual ${metric}`, severity: deviation / severityScale });
         }
     }
 
-    // Sort by severity and return top 3
+    // Sort by severity and return the top ones
     factors.sort((a, b) => b.severity - a.severity);
-    return factors.slice(0, 3).map((f) => f.name);
+    return factors.slice(0, maxFactors).map((f) => f.name);
 }
 
 /**
- * Main risk computation function.
- * Combines all signals to produce final risk assessment.
+ * Level of each domain from its own signals: a reliable decline, a declining
+ * trend, a step decline, and an unusual value in the declining direction.
  */
-export function computeRisk(
+function assessDomains(
     current: ExtractedFeatures,
     baseline: BaselineVector,
+    rci: ReliableChange,
     slopes: TrendSlopes,
     anomaly: AnomalyResult,
-    mlResult?: TrendPrediction | null
-): RiskAnalysis {
-    const delta = computeDelta(current, baseline);
+    steps: Changepoint[],
+    policy: RiskPolicy,
+    sufficiency?: Record<TrendDomain, DomainSufficiency>,
+    noise?: PersonalNoiseModel
+): Record<TrendDomain, DomainRisk> {
+    const { signals: thresholds, domains: { anomalyThreshold, minSignals } } = policy;
+    const byDomain = (delta: DeltaVector): Record<TrendDomain, number> => ({
+        memory: delta.memoryDelta,
+        reaction: delta.reactionDelta,
+        pattern: delta.patternDelta,
+        language: delta.speechDelta,
+    });
+    const deltas = byDomain(computeDelta(current, baseline));
+    const zs = byDomain(computeDelta(current, baseline, noise ?? populationNoiseModel()));
+
+    const assess = (domain: TrendDomain): DomainRisk => {
+        const anomalyZ = anomaly.insufficientData ? null : anomaly.deviations[DOMAIN_METRICS[domain]] ?? null;
+        const signals: string[] = [];
+        if (rci[domain] < -thresholds.rciThreshold) signals.push(RCI_FACTOR_NAMES[domain]);
+        if (isDecliningTrend(slopes, domain, thresholds.trendThresholds)) signals.push(`declining ${domain} trend`);
+        steps.filter((step) => step.domain === domain).forEach((step) => signals.push(describeChangepoint(step)));
+        if (anomalyZ !== null && anomalyZ > anomalyThreshold && zs[domain] < 0) {
+            signals.push(`unusual ${DOMAIN_METRICS[domain]}`);
+        }
+
+        let level: RiskLevel;
+        if (sufficiency && !sufficiency[domain].sufficient) level = "insufficient_data";
+        else if (signals.length >= minSignals.possible_risk) level = "possible_risk";
+        else if (signals.length >= minSignals.change_detected) level = "change_detected";
+        else level = "stable";
+
+        return {
+            level,
+            signals,
+            delta: deltas[domain],
+            deltaZ: zs[domain],
+            rci: rci[domain],
+            slope: slopes[SLOPE_KEYS[domain]],
+            anomalyZ,
+            sufficiency: sufficiency?.[domain],
+        };
+    };
+
+    return {
+        memory: assess("memory"),
+        reaction: assess("reaction"),
+        pattern: assess("pattern"),
+        language: assess("language"),
+    };
+}
+
+interface SignalScore {
+    rci: ReliableChange;
+    /** Step declines among the changepoints. */
+    steps: Changepoint[];
+    ruleSignalStrength: number;
+    mlUsed: boolean;
+    riskScore: number;
+    riskLevel: AssessedRiskLevel;
+}
+
+/**
+ * Rule-based signals and the ML ensemble, down to a risk level.
+ */
+function scoreSignals(
+    current: ExtractedFeatures,
+    baseline: BaselineVector,
+    slopes: TrendSlopes,
+    anomaly: AnomalyResult,
+    mlResult: TrendPrediction | null | undefined,
+    changepoints: Changepoint[],
+    policy: RiskPolicy,
+    options: RiskOptions
+): SignalScore {
+    const { signals, ml } = policy;
+    const rci = computeReliableChange(adjustFeaturesForContext(current, options.context, options.measured), baseline, options.expectedGain, options.noise);
 
     // Count negative signals (Rule-Based)
     let negativeSignals = 0;
     let ruleSignalStrength = 0;
 
-    // Delta signals
-    if (delta.memoryDelta < -0.1) { negativeSignals++; ruleSignalStrength += Math.abs(delta.memoryDelta); }
-    if (delta.reactionDelta < -50) { negativeSignals++; ruleSignalStrength += Math.abs(delta.reactionDelta) / 200; }
-    if (delta.patternDelta < -0.1) { negativeSignals++; ruleSignalStrength += Math.abs(delta.patternDelta); }
-    if (delta.speechDelta < -0.1) { negativeSignals++; ruleSignalStrength += Math.abs(delta.speechDelta); }
+    // Reliable change signals: decline beyond retest noise and expected practice gain
+    for (const value of Object.values(rci)) {
+        if (value < -signals.rciThreshold) { negativeSignals++; ruleSignalStrength += Math.abs(value) * signals.rciStrength; }
+    }
 
-    // Trend signals
-    const avgSlope = (slopes.memoryTrendSlope + slopes.reactionTrendSlope + slopes.patternTrendSlope + slopes.languageTrendSlope) / 4;
-    if (avgSlope < -0.0005) { negativeSignals++; ruleSignalStrength += Math.abs(avgSlope) * 100; }
+    // Trend signal: any domain declining past its 30-day threshold (reliably, when intervals are known)
+    const declining = (Object.keys(SLOPE_KEYS) as TrendDomain[])
+        .filter((domain) => isDecliningTrend(slopes, domain, signals.trendThresholds));
+    if (declining.length > 0) {
+        const worst = Math.max(...declining.map((d) => Math.abs(slopes[SLOPE_KEYS[d]]) / signals.trendThresholds[d]));
+        negativeSignals++;
+        ruleSignalStrength += Math.min(worst, signals.trendStrengthCap) * signals.trendStrength;
+    }
+
+    // Changepoint signal: an abrupt drop rather than a gradual one
+    const steps = changepoints.filter((cp) => cp.magnitude < 0);
+    if (steps.length > 0) {
+        negativeSignals++;
+        ruleSignalStrength += Math.max(...steps.map((cp) => cp.probability));
+    }
 
-    // Anomaly signal
-    if (anomaly.isAnomaly) { negativeSignals++; ruleSignalStrength += anomaly.anomalyScore; }
+    // Anomaly signal, when the session is unusual in the declining direction
+    if (isDecliningAnomaly(anomaly)) { negativeSignals++; ruleSignalStrength += anomaly.anomalyScore; }
 
     // Rule-Based Risk Score (0-1 approx)
-    let ruleRiskScore = 0;
-    if (negativeSignals >= 4) ruleRiskScore = 0.8;
-    else if (negativeSignals >= 2) ruleRiskScore = 0.5;
-    else ruleRiskScore = 0.1;
+    const ruleRiskScore = policy.ruleScores.find((step) => negativeSignals >= step.minSignals)?.score ?? 0;
 
     // --- ENSEMBLE LOGIC ---
     let finalRiskScore = ruleRiskScore;
-    let factors = identifyTopFactors(delta, slopes, anomaly);
-    let confidence = Math.min(ruleSignalStrength / 2, 1);
-
-    if (mlResult && mlResult.confidence >= 0.7 && mlResult.reliabilityFlag !== 'low') {
-        const mlWeight = mlResult.confidence * 0.5; // Max 50%
+    const mlUsed = !!mlResult && mlResult.confidence >= ml.minConfidence && mlResult.reliabilityFlag !== 'low';
+    if (mlResult && mlUsed) {
+        const mlWeight = mlResult.confidence * ml.maxWeight;
         const ruleWeight = 1 - mlWeight;
 
         // Map ML direction to rough risk score
-        let mlRiskContribution = 0;
-        if (mlResult.direction === 'declining') mlRiskContribution = 0.8;
-        else if (mlResult.direction === 'stable') mlRiskContribution = 0.2;
-        else mlRiskContribution = 0.0;
+        const mlRiskContribution = ml.directionRisk[mlResult.direction];
 
         finalRiskScore = (ruleRiskScore * ruleWeight) + (mlRiskContribution * mlWeight);
-
-        // Boost confidence if ML agrees with rules
-        confidence = Math.min(1, confidence + 0.1);
-
-        // Add ML factors
-        if (mlResult.domainContributions) {
-            Object.entries(mlResult.domainContributions)
-                .sort(([, a], [, b]) => b - a)
-                .slice(0, 1) // Top ML factor
-                .forEach(([domain]) => {
-                    if (!factors.includes(`${domain} (ML detected)`)) {
-                        factors.push(`${domain} (ML trend)`);
-                    }
-                });
-        }
     }
 
     // Determine final level
-    let riskLevel: RiskLevel;
-    if (finalRiskScore > 0.6) riskLevel = "possible_risk";
-    else if (finalRiskScore > 0.3) riskLevel = "change_detected";
+    let riskLevel: AssessedRiskLevel;
+    if (finalRiskScore > policy.levelThresholds.possible_risk) riskLevel = "possible_risk";
+    else if (finalRiskScore > policy.levelThresholds.change_detected) riskLevel = "change_detected";
     else riskLevel = "stable";
 
+    return { rci, steps, ruleSignalStrength, mlUsed, riskScore: finalRiskScore, riskLevel };
+}
+
+/**
+ * Main risk computation function.
+ * Combines all signals to produce final risk assessment.
+ * @throws If `options.policy` fails validateRiskPolicy.
+ */
+export function computeRisk(
+    current: ExtractedFeatures,
+    baseline: BaselineVector,
+    slopes: TrendSlopes,
+    anomaly: AnomalyResult,
+    mlResult?: TrendPrediction | null,
+    options: RiskOptions = {}
+): RiskAnalysis {
+    const policy = options.policy ?? DEFAULT_RISK_POLICY;
+    if (policy !== DEFAULT_RISK_POLICY) {
+        const problems = validateRiskPolicy(policy);
+        if (problems.length > 0) {
+            throw new Error(`Invalid risk policy ${describeRiskPolicy(policy)}: ${problems.join("; ")}`);
+        }
+    }
+    const score = scoreSignals(current, baseline, slopes, anomaly, mlResult, options.changepoints ?? [], policy, options);
+    const { rci, steps } = score;
+    const factors = identifyTopFactors(rci, slopes, anomaly, steps, policy, options.noise);
+
+    // Add ML factors
+    if (score.mlUsed && mlResult?.domainContributions) {
+        Object.entries(mlResult.domainContributions)
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, 1) // Top ML factor
+            .forEach(([domain]) => {
+                if (!factors.includes(`${domain} (ML detected)`)) {
+                    factors.push(`${domain} (ML trend)`);
+                }
+            });
+    }
+
+    // Without a session history, confidence is the rough strength of the signals
+    let riskLevel = score.riskLevel;
+    let confidence = Math.min(score.ruleSignalStrength / policy.confidenceScale, 1);
+    if (score.mlUsed) confidence = Math.min(1, confidence + policy.ml.confidenceBoost);
+
+    // With one, the share of resamples at each level; thinly supported levels are not reported
+    let levelProbabilities: RiskLevelProbabilities | undefined;
+    if (options.resampling) {
+        levelProbabilities = estimateLevelProbabilities(options.resampling, policy.uncertainty, (inputs) =>
+            scoreSignals(current, inputs.baseline, inputs.slopes, inputs.anomaly, mlResult, inputs.changepoints, policy, options)
+                .riskLevel, options.noise);
+        riskLevel = supportedRiskLevel(score.riskLevel, levelProbabilities, policy.uncertainty.minProbability);
+        confidence = levelProbabilities[riskLevel];
+    }
+
     // Re-verify tops factors are limited
-    const topFactors = factors.slice(0, 3);
+    const topFactors = factors.slice(0, policy.factors.maxFactors);
 
     // Generate explanation
     let explanation = "";
@@ -174,14 +406,38 @@ export function computeRisk(
         explanation = "No significant performance changes detected.";
     }
 
+    if (levelProbabilities && riskLevel !== score.riskLevel) {
+        const share = Math.round(probabilityAtLeast(levelProbabilities, score.riskLevel) * 100);
+        explanation += ` Only ${share}% of resamples of your sessions reach "${RISK_LABELS[score.riskLevel]}", so it is not reported.`;
+    }
+
+    const reliableDeclines = describeReliableDeclines(slopes, policy.signals.trendThresholds);
+    if (reliableDeclines.length > 0) {
+        explanation += ` Trends: ${reliableDeclines.join("; ")}.`;
+    }
+
+    const contextFactors = options.context ? describeContextFactors(options.context) : [];
+    if (contextFactors.length > 0) {
+        explanation += ` Adjusted for today's check-in: ${contextFactors.join(", ")}.`;
+    }
+
     return {
         riskLevel,
+        rawRiskLevel: riskLevel,
         riskLabel: RISK_LABELS[riskLevel],
         riskMessage: RISK_MESSAGES[riskLevel],
         riskConfidenceScore: confidence,
+        riskScore: score.riskScore,
+        levelProbabilities,
         anomalyScore: anomaly.anomalyScore,
         explanation,
         topFactors,
-        mlPrediction: mlResult || undefined
+        reliableChange: rci,
+        trendSlopes: slopes,
+        changepoints: steps,
+        domains: assessDomains(adjustFeaturesForContext(current, options.context, options.measured), baseline, rci, slopes, anomaly, steps,
+            policy, options.sufficiency, options.noise),
+        mlPrediction: mlResult || undefined,
+        policy: { id: policy.id, version: policy.version },
     };
 }
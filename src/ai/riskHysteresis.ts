@@ -0,0 +1,94 @@
+/**
+ * Risk Hysteresis
+ * computeRisk judges each session on its own, so a user near a threshold
+ * would flip between levels on alternate sessions. The reported level only
+ * moves once the new level has held for the policy's number of consecutive
+ * sessions, in either direction. Reporting starts from "stable", so a first
+ * assessment escalates by the same rule. Each assessment is kept in the risk history.
+ */
+
+import type { AssessedRiskLevel } from "../ethics/messagingRules";
+import { RISK_LABELS, RISK_LEVELS, RISK_MESSAGES } from "../ethics/messagingRules";
+import { loadRiskHistory, recordRiskHistoryEntry } from "../storage";
+import type { RiskHistoryEntry } from "../storage";
+import type { RiskAnalysis } from "./riskEngine";
+import type { RiskPolicy } from "./riskPolicy";
+import { DEFAULT_RISK_POLICY } from "./riskPolicy";
+
+const rank = (level: AssessedRiskLevel) => RISK_LEVELS.indexOf(level);
+
+/**
+ * Level to report after the latest session.
+ * @param rawLevels - Per-session levels from computeRisk (resampled, before hysteresis), oldest first, ending with the latest session.
+ * @param reported - Level reported before the latest session; null if there was none (taken as "stable").
+ * @returns The new level if it held for long enough (the mildest level seen
+ *   over that run), otherwise the level reported before.
+ */
+export function resolveRiskLevel(
+    rawLevels: AssessedRiskLevel[],
+    reported: AssessedRiskLevel | null,
+    hysteresis: RiskPolicy["hysteresis"]
+): AssessedRiskLevel {
+    const latest = rawLevels[rawLevels.length - 1];
+    reported ??= "stable";
+    if (latest === reported) return latest;
+
+    const escalating = rank(latest) > rank(reported);
+    const needed = escalating ? hysteresis.escalateAfter : hysteresis.deescalateAfter;
+    const run = rawLevels.slice(-needed);
+    if (run.length < needed) return reported;
+
+    const ranks = run.map(rank);
+    if (escalating) {
+        return ranks.every((r) => r > rank(reported)) ? RISK_LEVELS[Math.min(...ranks)] : reported;
+    }
+    return ranks.every((r) => r < rank(reported)) ? RISK_LEVELS[Math.max(...ranks)] : reported;
+}
+
+/**
+ * Applies hysteresis to a fresh analysis.
+ * @param previous - Risk history of the sessions before the assessed one, in the same baseline epoch.
+ */
+export function applyHysteresis(
+    analysis: RiskAnalysis,
+    previous: RiskHistoryEntry[],
+    policy: RiskPolicy = DEFAULT_RISK_POLICY
+): RiskAnalysis {
+    const reported = previous.length > 0 ? previous[previous.length - 1].riskLevel : null;
+    const rawLevels = [...previous.map((entry) => entry.rawLevel), analysis.rawRiskLevel];
+    const riskLevel = resolveRiskLevel(rawLevels, reported, policy.hysteresis);
+    if (riskLevel === analysis.riskLevel) return analysis;
+
+    const needed = rank(analysis.rawRiskLevel) > rank(riskLevel)
+        ? policy.hysteresis.escalateAfter
+        : policy.hysteresis.deescalateAfter;
+    return {
+        ...analysis,
+        riskLevel,
+        riskLabel: RISK_LABELS[riskLevel],
+        riskMessage: RISK_MESSAGES[riskLevel],
+        // Confidence belongs to the reported level; the signal strength has no per-level share
+        riskConfidenceScore: analysis.levelProbabilities?.[riskLevel] ?? analysis.riskConfidenceScore,
+        explanation: `${analysis.explanation} After resampling, this session reads "${RISK_LABELS[analysis.rawRiskLevel]}"; `
+            + `the level changes once that holds for ${needed} sessions in a row.`,
+    };
+}
+
+/**
+ * Stores an assessment in the risk history of a profile.
+ * @returns The updated history; unchanged if the analysis has no assessed session.
+ */
+export function recordRiskAnalysis(analysis: RiskAnalysis, profileId?: string): RiskHistoryEntry[] {
+    if (!analysis.session) return loadRiskHistory(profileId);
+
+    return recordRiskHistoryEntry({
+        sessionTimestamp: analysis.session.timestamp,
+        epochId: analysis.session.epochId,
+        assessedAt: new Date().toISOString(),
+        rawLevel: analysis.rawRiskLevel,
+        riskLevel: analysis.riskLevel,
+        riskConfidenceScore: analysis.riskConfidenceScore,
+        topFactors: analysis.topFactors,
+        policy: analysis.policy,
+    }, profileId);
+}
@@ -0,0 +1,202 @@
+/**
+ * Risk Policy
+ * Every threshold and weight the risk engine applies, as one typed, versioned
+ * object. Alternative policies can be run over the same histories
+ * (assessWithPolicies) and each RiskAnalysis records the policy behind it.
+ *
+ * Bump `version` whenever a value of a published policy changes, so stored
+ * analyses stay attributable.
+ */
+
+import type { TrendDomain } from "./trendAnalyzer";
+import { TREND_THRESHOLDS } from "./trendAnalyzer";
+import { RCI_THRESHOLD } from "./reliableChange";
+import type { AssessedRiskLevel } from "../ethics/messagingRules";
+import type { TrendPrediction } from "../ml/types";
+
+export interface RiskPolicy {
+    id: string;
+    version: number;
+    description: string;
+    signals: {
+        /** |RCI| beyond which a domain counts as a reliable decline. */
+        rciThreshold: number;
+        /** Signal strength added per unit of |RCI|. */
+        rciStrength: number;
+        /** Smallest decline per 30 days counted as a trend, in each domain's units. */
+        trendThresholds: Record<TrendDomain, number>;
+        /** Worst trend, in multiples of its threshold, is capped here ... */
+        trendStrengthCap: number;
+        /** ... and adds this much strength per multiple. */
+        trendStrength: number;
+    };
+    /** Rule score by number of negative signals; the first step reached applies. */
+    ruleScores: { minSignals: number; score: number }[];
+    /** Confidence = min(total signal strength / confidenceScale, 1). */
+    confidenceScale: number;
+    ml: {
+        /** Predictions below this confidence (or flagged low reliability) are ignored. */
+        minConfidence: number;
+        /** Weight of the ML score at confidence 1; scales with confidence below that. */
+        maxWeight: number;
+        /** Risk score each predicted direction stands for. */
+        directionRisk: Record<TrendPrediction["direction"], number>;
+        /** Confidence added when the ML step is used. */
+        confidenceBoost: number;
+    };
+    /** Final score a level must exceed. */
+    levelThresholds: Record<Exclude<AssessedRiskLevel, "stable">, number>;
+    /** Block bootstrap over the session history (see riskUncertainty). */
+    uncertainty: {
+        resamples: number;
+        /** Share of resamples that must reach a level before it is reported. */
+        minProbability: number;
+        /**
+         * Sessions resampled, including the current one: the baseline sessions
+         * and the most recent others. Bounds the cost of a long history.
+         */
+        maxSessions: number;
+    };
+    /** Consecutive sessions a new level must persist before it is reported. */
+    hysteresis: {
+        escalateAfter: number;
+        deescalateAfter: number;
+    };
+    /** Each domain's own level (RiskAnalysis.domains). */
+    domains: {
+        /** Anomaly z of a declining domain counted as an unusual value. */
+        anomalyThreshold: number;
+        /** Signals within one domain (reliable change, trend, step, unusual value) a level needs. */
+        minSignals: Record<Exclude<AssessedRiskLevel, "stable">, number>;
+    };
+    factors: {
+        maxFactors: number;
+        /** Domains whose trends are listed as factors. */
+        trendDomains: TrendDomain[];
+        /** Severity = effect size (RCI, thresholds, SEdiff, SDs) / severityScale. */
+        severityScale: number;
+        /** Per-metric deviation, in SDs, listed as "unusual ...". */
+        deviationThreshold: number;
+        /** Weight of a single out-of-line domain relative to a shared shift. */
+        singleDomainWeight: number;
+    };
+}
+
+/** The id and version recorded on each RiskAnalysis. */
+export type RiskPolicyRef = Pick<RiskPolicy, "id" | "version">;
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+    id: "default",
+    version: 5,
+    description: "Reliable change, 30-day trends, step changes and anomalies; ML weighted up to 50%; "
+        + "a level needs half of the resamples and two consecutive sessions.",
+    signals: {
+        rciThreshold: RCI_THRESHOLD,
+        rciStrength: 0.1,
+        trendThresholds: TREND_THRESHOLDS,
+        trendStrengthCap: 2,
+        trendStrength: 0.25,
+    },
+    ruleScores: [
+        { minSignals: 4, score: 0.8 },
+        { minSignals: 2, score: 0.5 },
+        { minSignals: 0, score: 0.1 },
+    ],
+    confidenceScale: 2,
+    ml: {
+        minConfidence: 0.7,
+        maxWeight: 0.5,
+        directionRisk: { declining: 0.8, stable: 0.2, improving: 0 },
+        confidenceBoost: 0.1,
+    },
+    levelThresholds: { possible_risk: 0.6, change_detected: 0.3 },
+    uncertainty: { resamples: 100, minProbability: 0.5, maxSessions: 30 },
+    hysteresis: { escalateAfter: 2, deescalateAfter: 2 },
+    domains: {
+        anomalyThreshold: 2,
+        minSignals: { change_detected: 2, possible_risk: 3 },
+    },
+    factors: {
+        maxFactors: 3,
+        trendDomains: ["memory", "reaction"],
+        severityScale: 3,
+        deviationThreshold: 2,
+        singleDomainWeight: 2,
+    },
+};
+
+const isUnit = (value: number) => value >= 0 && value <= 1;
+
+/**
+ * Checks a policy for values the engine cannot use.
+ * @returns One message per problem; empty when the policy is valid.
+ */
+export function validateRiskPolicy(policy: RiskPolicy): string[] {
+    const problems: string[] = [];
+    const check = (ok: boolean, message: string) => {
+        if (!ok) problems.push(message);
+    };
+    const { signals, ruleScores, ml, levelThresholds, domains, factors } = policy;
+
+    check(policy.id.trim().length > 0, "id must not be empty");
+    check(Number.isInteger(policy.version) && policy.version > 0, "version must be a positive integer");
+
+    check(signals.rciThreshold > 0, "signals.rciThreshold must be positive");
+    check(signals.rciStrength >= 0, "signals.rciStrength must not be negative");
+    for (const [domain, threshold] of Object.entries(signals.trendThresholds)) {
+        check(threshold > 0, `signals.trendThresholds.${domain} must be positive`);
+    }
+    check(signals.trendStrengthCap > 0, "signals.trendStrengthCap must be positive");
+    check(signals.trendStrength >= 0, "signals.trendStrength must not be negative");
+
+    check(ruleScores.length > 0, "ruleScores must not be empty");
+    ruleScores.forEach(({ minSignals, score }, i) => {
+        check(Number.isInteger(minSignals) && minSignals >= 0, `ruleScores[${i}].minSignals must be a whole number`);
+        check(isUnit(score), `ruleScores[${i}].score must be between 0 and 1`);
+        if (i > 0) check(minSignals < ruleScores[i - 1].minSignals, "ruleScores must be ordered by descending minSignals");
+    });
+    check(ruleScores[ruleScores.length - 1]?.minSignals === 0, "the last of ruleScores must have minSignals 0");
+    check(policy.confidenceScale > 0, "confidenceScale must be positive");
+
+    check(isUnit(ml.minConfidence), "ml.minConfidence must be between 0 and 1");
+    check(isUnit(ml.maxWeight), "ml.maxWeight must be between 0 and 1");
+    for (const [direction, risk] of Object.entries(ml.directionRisk)) {
+        check(isUnit(risk), `ml.directionRisk.${direction} must be between 0 and 1`);
+    }
+    check(isUnit(ml.confidenceBoost), "ml.confidenceBoost must be between 0 and 1");
+
+    check(isUnit(levelThresholds.change_detected), "levelThresholds.change_detected must be between 0 and 1");
+    check(isUnit(levelThresholds.possible_risk), "levelThresholds.possible_risk must be between 0 and 1");
+    check(levelThresholds.possible_risk >= levelThresholds.change_detected,
+        "levelThresholds.possible_risk must not be below change_detected");
+
+    check(Number.isInteger(policy.uncertainty.resamples) && policy.uncertainty.resamples > 0,
+        "uncertainty.resamples must be a positive integer");
+    check(isUnit(policy.uncertainty.minProbability), "uncertainty.minProbability must be between 0 and 1");
+    check(Number.isInteger(policy.uncertainty.maxSessions) && policy.uncertainty.maxSessions > 1,
+        "uncertainty.maxSessions must be an integer above 1");
+
+    for (const [key, sessions] of Object.entries(policy.hysteresis)) {
+        check(Number.isInteger(sessions) && sessions > 0, `hysteresis.${key} must be a positive integer`);
+    }
+
+    check(domains.anomalyThreshold > 0, "domains.anomalyThreshold must be positive");
+    for (const [level, minSignals] of Object.entries(domains.minSignals)) {
+        check(Number.isInteger(minSignals) && minSignals > 0, `domains.minSignals.${level} must be a positive integer`);
+    }
+    check(domains.minSignals.possible_risk >= domains.minSignals.change_detected,
+        "domains.minSignals.possible_risk must not be below change_detected");
+
+    check(Number.isInteger(factors.maxFactors) && factors.maxFactors > 0, "factors.maxFactors must be a positive integer");
+    check(factors.trendDomains.every((d) => d in signals.trendThresholds), "factors.trendDomains has an unknown domain");
+    check(factors.severityScale > 0, "factors.severityScale must be positive");
+    check(factors.deviationThreshold > 0, "factors.deviationThreshold must be positive");
+    check(factors.singleDomainWeight >= 0, "factors.singleDomainWeight must not be negative");
+
+    return problems;
+}
+
+/** Label for logs and comparisons, e.g. "default@1". */
+export function describeRiskPolicy(policy: RiskPolicyRef): string {
+    return `${policy.id}@${policy.version}`;
+}
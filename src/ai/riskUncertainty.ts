@@ -0,0 +1,129 @@
+/**
+ * Risk Uncertainty
+ * How firmly the session history supports a risk level. The epoch's earlier
+ * sessions are resampled with a moving block bootstrap (blocks of consecutive
+ * sessions keep short-range dependence such as good and bad weeks), the
+ * baseline, trends, anomaly and changepoints are recomputed on each resample,
+ * and the current session is scored against them. The share of resamples at
+ * each level is that level's probability. A long history is cut to the
+ * baseline sessions and the most recent ones, so the cost stays bounded.
+ */
+
+import type { AssessedRiskLevel } from "../ethics/messagingRules";
+import { RISK_LEVELS } from "../ethics/messagingRules";
+import { seededRandom } from "../utils/statistics";
+import type { SessionDataPoint, TrendSlopes } from "./trendAnalyzer";
+import { analyzeTrends } from "./trendAnalyzer";
+import type { AnomalyMode, AnomalyResult, BaselineVector } from "./anomalyDetector";
+import { createBaseline, detectAnomalies } from "./anomalyDetector";
+import type { Changepoint } from "./changepointDetector";
+import { detectChangepoints } from "./changepointDetector";
+import { measuredFeatures } from "./batteryFeatures";
+import type { RiskPolicy } from "./riskPolicy";
+import type { PersonalNoiseModel } from "./personalNoise";
+
+export type RiskLevelProbabilities = Record<AssessedRiskLevel, number>;
+
+/** The session history behind an assessment, for resampling. */
+export interface RiskResampling {
+    /** Sessions of the baseline epoch, corrected like the inputs, ending with the current session. */
+    sessions: SessionDataPoint[];
+    baselineSessions: number;
+    anomalyMode?: AnomalyMode;
+}
+
+/** Inputs of computeRisk rebuilt from one resample. */
+export interface ResampledInputs {
+    baseline: BaselineVector;
+    slopes: TrendSlopes;
+    anomaly: AnomalyResult;
+    changepoints: Changepoint[];
+}
+
+const SEED = 0x715c;
+
+/**
+ * Moving block bootstrap of a session series: blocks of `blockLength`
+ * consecutive sessions drawn with replacement until the series is full,
+ * then put back in time order so trends and the baseline stay meaningful.
+ */
+export function blockBootstrapSessions(
+    sessions: SessionDataPoint[],
+    random: () => number,
+    blockLength: number = Math.ceil(Math.cbrt(sessions.length))
+): SessionDataPoint[] {
+    if (sessions.length === 0) return [];
+    const length = Math.max(1, Math.min(blockLength, sessions.length));
+    const starts = sessions.length - length + 1;
+    const resample: SessionDataPoint[] = [];
+    while (resample.length < sessions.length) {
+        const start = Math.floor(random() * starts);
+        resample.push(...sessions.slice(start, start + length));
+    }
+    return resample.slice(0, sessions.length).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * The first `baselineSessions` and the most recent others, `limit` in all.
+ */
+export function capSessions(sessions: SessionDataPoint[], baselineSessions: number, limit: number): SessionDataPoint[] {
+    if (sessions.length <= limit) return sessions;
+    const kept = Math.min(baselineSessions, limit);
+    return [...sessions.slice(0, kept), ...sessions.slice(sessions.length - (limit - kept))];
+}
+
+/**
+ * Probability of each risk level under resampling of the earlier sessions.
+ * @param scoreLevel - Level of the current session given rebuilt inputs.
+ * @param noise - The person's noise model, for changepoint detection; kept fixed across resamples.
+ */
+export function estimateLevelProbabilities(
+    resampling: RiskResampling,
+    uncertainty: RiskPolicy["uncertainty"],
+    scoreLevel: (inputs: ResampledInputs) => AssessedRiskLevel,
+    noise?: PersonalNoiseModel
+): RiskLevelProbabilities {
+    const { sessions, baselineSessions, anomalyMode } = resampling;
+    const current = sessions[sessions.length - 1];
+    const earlier = capSessions(sessions.slice(0, -1), baselineSessions, uncertainty.maxSessions - 1);
+    const random = seededRandom(SEED);
+
+    const counts = Object.fromEntries(RISK_LEVELS.map((level) => [level, 0])) as RiskLevelProbabilities;
+    for (let b = 0; b < uncertainty.resamples; b++) {
+        const resample = [...blockBootstrapSessions(earlier, random), current];
+        const previous = resample.slice(0, -1);
+        const level = scoreLevel({
+            baseline: createBaseline(previous.slice(0, baselineSessions).map((s) => s.features)),
+            slopes: analyzeTrends(resample, { intervals: false }),
+            anomaly: detectAnomalies(measuredFeatures(current), previous.map(measuredFeatures), 2, { mode: anomalyMode }),
+            changepoints: detectChangepoints(resample, baselineSessions, noise).filter((cp) => cp.magnitude < 0),
+        });
+        counts[level]++;
+    }
+
+    return Object.fromEntries(
+        RISK_LEVELS.map((level) => [level, counts[level] / uncertainty.resamples])
+    ) as RiskLevelProbabilities;
+}
+
+/**
+ * Probability that the level is at least `level`.
+ */
+export function probabilityAtLeast(probabilities: RiskLevelProbabilities, level: AssessedRiskLevel): number {
+    return RISK_LEVELS.slice(RISK_LEVELS.indexOf(level)).reduce((sum, l) => sum + probabilities[l], 0);
+}
+
+/**
+ * The most concerning level, up to `level`, that at least `minProbability`
+ * of resamples reach. Thin evidence lowers the level; it never raises it.
+ */
+export function supportedRiskLevel(
+    level: AssessedRiskLevel,
+    probabilities: RiskLevelProbabilities,
+    minProbability: number
+): AssessedRiskLevel {
+    for (let i = RISK_LEVELS.indexOf(level); i > 0; i--) {
+        if (probabilityAtLeast(probabilities, RISK_LEVELS[i]) >= minProbability) return RISK_LEVELS[i];
+    }
+    return RISK_LEVELS[0];
+}
@@ -4,87 +4,139 @@
  */
 
 import type { ExtractedFeatures } from "./featureExtractor";
+import type { SessionContext } from "../types/contextTypes";
+import { adjustSessionsForContext } from "./contextAdjustment";
+import { correctForPractice } from "./practiceEffect";
+import { isMeasured } from "./batteryFeatures";
+import { bootstrapSlope, theilSenSlope, timePoints } from "../utils/statistics";
+import type { SlopeEstimate } from "../utils/statistics";
 
+export type TrendDomain = "memory" | "reaction" | "pattern" | "language";
+
+/** Per-domain slopes, as change per 30 days (positive = improvement). */
 export interface TrendSlopes {
     memoryTrendSlope: number;
     reactionTrendSlope: number;
     patternTrendSlope: number;
     languageTrendSlope: number;
+    /** Theil–Sen slopes with 90% bootstrap intervals; absent for hand-built slopes. */
+    intervals?: Record<TrendDomain, SlopeEstimate>;
 }
 
 export interface SessionDataPoint {
     timestamp: number; // Unix timestamp
     features: ExtractedFeatures;
+    context?: SessionContext; // Pre-test check-in, if one was given
+    /** Domains taken in this session; the others' values are carried forward. Absent = all. */
+    measured?: TrendDomain[];
+}
+
+export interface TrendOptions {
+    /** Remove the expected effect of each session's check-in before fitting. */
+    adjustForContext?: boolean;
+    /** Remove the expected retest (practice) gain before fitting. */
+    correctForPractice?: boolean;
+    /** Bootstrap an interval for each slope (default true); off gives bare Theil–Sen slopes. */
+    intervals?: boolean;
 }
 
+/** Field of TrendSlopes holding each domain's slope. */
+export const SLOPE_KEYS: Record<TrendDomain, keyof Omit<TrendSlopes, "intervals">> = {
+    memory: "memoryTrendSlope",
+    reaction: "reactionTrendSlope",
+    pattern: "patternTrendSlope",
+    language: "languageTrendSlope",
+};
+
 /**
- * Calculates linear regression slope for a metric over time.
- * Positive slope = improvement (for accuracy-based metrics)
- * Negative slope = decline
+ * Smallest change per 30 days worth calling a trend, in each domain's units:
+ * accuracy and pattern score (0-1), reaction time (ms), lexical diversity (0-1).
  */
-function calculateSlope(points: { x: number; y: number }[]): number {
-    if (points.length < 2) return 0;
+export const TREND_THRESHOLDS: Record<TrendDomain, number> = {
+    memory: 0.03,
+    reaction: 15,
+    pattern: 0.03,
+    language: 0.02,
+};
 
-    const n = points.length;
-    const sumX = points.reduce((sum, p) => sum + p.x, 0);
-    const sumY = points.reduce((sum, p) => sum + p.y, 0);
-    const sumXY = points.reduce((sum, p) => sum + p.x * p.y, 0);
-    const sumX2 = points.reduce((sum, p) => sum + p.x * p.x, 0);
-
-    const denominator = n * sumX2 - sumX * sumX;
-    if (denominator === 0) return 0;
+/**
+ * True when the slope's interval lies entirely below zero
+ * ("decline, 90% CI excludes zero").
+ */
+export function isReliableDecline(estimate: SlopeEstimate): boolean {
+    return estimate.upper < 0;
+}
 
-    return (n * sumXY - sumX * sumY) / denominator;
+/**
+ * Whether a domain is declining by at least its threshold per 30 days.
+ * With intervals, the decline must also be reliable.
+ */
+export function isDecliningTrend(
+    slopes: TrendSlopes,
+    domain: TrendDomain,
+    thresholds: Record<TrendDomain, number> = TREND_THRESHOLDS
+): boolean {
+    const meaningful = slopes[SLOPE_KEYS[domain]] <= -thresholds[domain];
+    return meaningful && (!slopes.intervals || isReliableDecline(slopes.intervals[domain]));
 }
 
 /**
- * Normalizes timestamps to start from 0 (first session = 0).
+ * Plain-language notes for the domains with a meaningful, reliable decline,
+ * e.g. "memory decline, 90% CI excludes zero".
  */
-function normalizeTimestamps(sessions: SessionDataPoint[]): SessionDataPoint[] {
-    if (sessions.length === 0) return [];
-    const minTime = Math.min(...sessions.map((s) => s.timestamp));
-    return sessions.map((s) => ({
-        ...s,
-        timestamp: s.timestamp - minTime,
-    }));
+export function describeReliableDeclines(
+    slopes: TrendSlopes,
+    thresholds: Record<TrendDomain, number> = TREND_THRESHOLDS
+): string[] {
+    const { intervals } = slopes;
+    if (!intervals) return [];
+    return (Object.keys(SLOPE_KEYS) as TrendDomain[])
+        .filter((domain) => isDecliningTrend(slopes, domain, thresholds))
+        .map((domain) => `${domain} decline, ${Math.round(intervals[domain].level * 100)}% CI excludes zero`);
 }
 
 /**
  * Analyzes trends across multiple sessions.
+ * Slopes are change per 30 days on elapsed time, so gaps and breaks are
+ * accounted for and same-day sessions share one day's weight.
  * @param sessions - Array of session data points, sorted by timestamp.
+ * @param options - Corrections for check-in covariates and practice effects.
  */
-export function analyzeTrends(sessions: SessionDataPoint[]): TrendSlopes {
-    const normalized = normalizeTimestamps(sessions);
-
-    // Memory trend (accuracy)
-    const memoryPoints = normalized.map((s) => ({
-        x: s.timestamp,
-        y: s.features.memoryAccuracy,
-    }));
-
-    // Reaction time trend (lower is better, so we negate for consistent interpretation)
-    const reactionPoints = normalized.map((s) => ({
-        x: s.timestamp,
-        y: -s.features.reactionTimeAvg, // Negate so positive slope = improvement
-    }));
-
-    // Pattern trend
-    const patternPoints = normalized.map((s) => ({
-        x: s.timestamp,
-        y: s.features.patternScore,
-    }));
-
-    // Language trend (using lexical diversity as proxy)
-    const languagePoints = normalized.map((s) => ({
-        x: s.timestamp,
-        y: s.features.lexicalDiversity,
-    }));
+export function analyzeTrends(sessions: SessionDataPoint[], options: TrendOptions = {}): TrendSlopes {
+    let corrected = options.adjustForContext ? adjustSessionsForContext(sessions) : sessions;
+    if (options.correctForPractice) corrected = correctForPractice(corrected);
+
+    // Each domain over the sessions that measured it; carried-forward copies would flatten the slope
+    const points = (domain: TrendDomain, value: (features: ExtractedFeatures) => number) =>
+        timePoints(corrected
+            .filter((s) => isMeasured(s, domain))
+            .map((s) => ({ timestamp: s.timestamp, value: value(s.features) })));
+
+    if (options.intervals === false) {
+        return {
+            memoryTrendSlope: theilSenSlope(points("memory", (f) => f.memoryAccuracy)),
+            reactionTrendSlope: theilSenSlope(points("reaction", (f) => -f.reactionTimeAvg)),
+            patternTrendSlope: theilSenSlope(points("pattern", (f) => f.patternScore)),
+            languageTrendSlope: theilSenSlope(points("language", (f) => f.lexicalDiversity)),
+        };
+    }
+
+    // Positive slope = improvement, negative = decline
+    const intervals: Record<TrendDomain, SlopeEstimate> = {
+        memory: bootstrapSlope(points("memory", (f) => f.memoryAccuracy)),
+        // Reaction time: lower is better, so negate for consistent interpretation
+        reaction: bootstrapSlope(points("reaction", (f) => -f.reactionTimeAvg)),
+        pattern: bootstrapSlope(points("pattern", (f) => f.patternScore)),
+        // Language trend (using lexical diversity as proxy)
+        language: bootstrapSlope(points("language", (f) => f.lexicalDiversity)),
+    };
 
     return {
-        memoryTrendSlope: calculateSlope(memoryPoints),
-        reactionTrendSlope: calculateSlope(reactionPoints),
-        patternTrendSlope: calculateSlope(patternPoints),
-        languageTrendSlope: calculateSlope(languagePoints),
+        memoryTrendSlope: intervals.memory.slope,
+        reactionTrendSlope: intervals.reaction.slope,
+        patternTrendSlope: intervals.pattern.slope,
+        languageTrendSlope: intervals.language.slope,
+        intervals,
     };
 }
 
@@ -93,11 +145,12 @@ export function analyzeTrends(sessions: SessionDataPoint[]): TrendSlopes {
  * @returns A value between -1 (strong decline) and 1 (strong improvement).
  */
 export function getOverallTrendDirection(slopes: TrendSlopes): number {
-    const slopeValues = Object.values(slopes);
-    const avgSlope = slopeValues.reduce((a, b) => a + b, 0) / slopeValues.length;
+    // Each slope in multiples of its domain's threshold, so units are comparable
+    const domains = Object.keys(SLOPE_KEYS) as TrendDomain[];
+    const avgRatio = domains.reduce((sum, d) => sum + slopes[SLOPE_KEYS[d]] / TREND_THRESHOLDS[d], 0) / domains.length;
 
     // Normalize to -1 to 1 range (using sigmoid-like transformation)
-    return Math.tanh(avgSlope * 1000); // Scale factor for sensitivity
+    return Math.tanh(avgRatio);
 }
 
 /**
@@ -105,14 +158,15 @@ export function getOverallTrendDirection(slopes: TrendSlopes): number {
  * This is a simplified interface for UI display.
  */
 export interface TrendAnalysisResult {
-    risk: 'low' | 'medium' | 'high';
-    trend: 'stable' | 'declining' | 'improving';
+    risk: 'unknown' | 'low' | 'medium' | 'high';
+    trend: 'insufficient_data' | 'stable' | 'declining' | 'improving';
     confidence: number;
 }
 
 export function analyzeTrend(sessions: SessionDataPoint[]): TrendAnalysisResult {
+    // One session has no trend; reporting it as stable would claim knowledge we lack
     if (sessions.length < 2) {
-        return { risk: 'low', trend: 'stable', confidence: 0.5 };
+        return { risk: 'unknown', trend: 'insufficient_data', confidence: 0 };
     }
 
     const slopes = analyzeTrends(sessions);
@@ -2,10 +2,14 @@
  * Protected Route Component
  * Shows AuthOverlay sign-in modal for unauthenticated users instead of redirecting.
  * Children are rendered but blocked from interaction while overlay is visible.
+ * If local results are encrypted, asks for the passphrase before rendering children.
  */
 
+import { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { isStorageLocked } from '../../storage';
 import { AuthOverlay } from './AuthOverlay';
+import { UnlockOverlay } from './UnlockOverlay';
 
 interface ProtectedRouteProps {
     children: React.ReactNode;
@@ -13,6 +17,7 @@ interface ProtectedRouteProps {
 
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
     const { isAuthenticated, loading } = useAuth();
+    const [locked, setLocked] = useState(isStorageLocked);
 
     if (loading) {
         return (
@@ -31,5 +36,9 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
         );
     }
 
+    if (locked) {
+        return <UnlockOverlay onUnlock={() => setLocked(false)} />;
+    }
+
     return <>{children}</>;
 }
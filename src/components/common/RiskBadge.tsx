@@ -4,12 +4,15 @@ import "./RiskBadge.css";
 interface RiskBadgeProps {
     level: RiskLevel;
     showLabel?: boolean;
+    /** Shown on hover, e.g. what the level is based on. */
+    tooltip?: string;
 }
 
-export function RiskBadge({ level, showLabel = true }: RiskBadgeProps) {
+export function RiskBadge({ level, showLabel = true, tooltip }: RiskBadgeProps) {
     return (
         <span
             className={`risk-badge risk-badge--${level}`}
+            title={tooltip}
             style={{ "--badge-color": RISK_COLORS[level] } as React.CSSProperties}
         >
             <span className="risk-badge__dot" />
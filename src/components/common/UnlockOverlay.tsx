@@ -0,0 +1,94 @@
+/**
+ * Unlock Overlay Component
+ * Asks for the storage passphrase when local results are encrypted.
+ * Shown once per visit; the key is kept in memory until the page is closed.
+ */
+
+import { useState } from 'react';
+import { unlockStorage } from '../../storage';
+import { eraseEncryptedResults } from '../../services/resultEncryption';
+import { syncSessions } from '../../services/sessionSync';
+import { auth } from '../../lib/firebase';
+import { logger } from '../../utils/logger';
+import './AuthOverlay.css';
+import './UnlockOverlay.css';
+
+interface UnlockOverlayProps {
+    onUnlock: () => void;
+}
+
+export function UnlockOverlay({ onUnlock }: UnlockOverlayProps) {
+    const [passphrase, setPassphrase] = useState('');
+    const [unlocking, setUnlocking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const finishUnlock = () => {
+        onUnlock();
+        // Sign-in sync was skipped while locked
+        const uid = auth.currentUser?.uid;
+        if (uid) {
+            syncSessions(uid).catch((err) => logger.warn('Failed to sync sessions:', err));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setUnlocking(true);
+        setError(null);
+
+        try {
+            if (await unlockStorage(passphrase)) {
+                finishUnlock();
+            } else {
+                setError('Incorrect passphrase.');
+            }
+        } catch (err) {
+            logger.error('Failed to unlock storage:', err);
+            setError('Could not unlock your results.');
+        } finally {
+            setUnlocking(false);
+        }
+    };
+
+    const handleForgot = async () => {
+        if (!window.confirm(
+            'Without the passphrase your results on this device cannot be recovered. ' +
+            'Erase them and start again? Results already synced to your account will be restored on sign-in.'
+        )) return;
+
+        await eraseEncryptedResults();
+        finishUnlock();
+    };
+
+    return (
+        <div className="auth-overlay" role="dialog" aria-modal="true" aria-label="Unlock your results">
+            <form className="auth-overlay-card" onSubmit={handleSubmit}>
+                <div className="auth-overlay-icon">🔐</div>
+                <h2 className="auth-overlay-title">Unlock Your Results</h2>
+                <p className="auth-overlay-message">
+                    Your results on this device are encrypted. Enter your passphrase to continue.
+                </p>
+
+                <input
+                    className="unlock-overlay-input"
+                    type="password"
+                    autoComplete="current-password"
+                    autoFocus
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                />
+
+                {error && <p className="auth-overlay-error">{error}</p>}
+
+                <button className="btn btn-primary unlock-overlay-submit" type="submit" disabled={unlocking || !passphrase}>
+                    {unlocking ? 'Unlocking...' : 'Unlock'}
+                </button>
+
+                <button className="auth-overlay-back" type="button" onClick={handleForgot}>
+                    Forgot passphrase?
+                </button>
+            </form>
+        </div>
+    );
+}
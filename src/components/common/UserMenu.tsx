@@ -1,15 +1,18 @@
 /**
  * User Menu Component
  * Dropdown menu for authenticated users showing profile and actions.
+ * Also switches between the local profiles (people tested on this device).
  */
 
 import { useState, useRef, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { useProfiles } from '../../hooks/useProfiles';
 import './UserMenu.css';
 
 export function UserMenu() {
     const { user, isAdmin, signOut } = useAuth();
+    const { profiles, activeProfile, switchProfile } = useProfiles();
     const [isOpen, setIsOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
     const navigate = useNavigate();
@@ -53,7 +56,9 @@ export function UserMenu() {
                         {(user.displayName || user.email || 'U').charAt(0).toUpperCase()}
                     </div>
                 )}
-                <span className="user-name">{user.displayName?.split(' ')[0] || 'User'}</span>
+                <span className="user-name">
+                    {profiles.length > 1 ? activeProfile.name : user.displayName?.split(' ')[0] || 'User'}
+                </span>
                 <svg
                     className={`dropdown-arrow ${isOpen ? 'open' : ''}`}
                     viewBox="0 0 24 24"
@@ -71,6 +76,24 @@ export function UserMenu() {
                         {isAdmin && <span className="admin-badge">Admin</span>}
                     </div>
                     <div className="menu-divider" />
+                    <span className="menu-section-label">Testing as</span>
+                    {profiles.map((profile) => (
+                        <button
+                            key={profile.id}
+                            className={`menu-item profile-item ${profile.id === activeProfile.id ? 'active' : ''}`}
+                            onClick={() => {
+                                switchProfile(profile.id);
+                                setIsOpen(false);
+                            }}
+                        >
+                            {profile.name}
+                            {profile.id === activeProfile.id && <span className="profile-check">✓</span>}
+                        </button>
+                    ))}
+                    <Link to="/settings#profiles" className="menu-item manage-profiles" onClick={() => setIsOpen(false)}>
+                        Manage profiles
+                    </Link>
+                    <div className="menu-divider" />
                     <Link to="/dashboard" className="menu-item" onClick={() => setIsOpen(false)}>
                         Dashboard
                     </Link>
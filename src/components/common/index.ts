@@ -10,3 +10,4 @@ export { AuthOverlay } from "./AuthOverlay";
 export { UserMenu } from "./UserMenu";
 export { ErrorBoundary } from "./ErrorBoundary";
 
+export { UnlockOverlay } from "./UnlockOverlay";
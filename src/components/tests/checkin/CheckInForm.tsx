@@ -0,0 +1,105 @@
+/**
+ * Pre-test Check-in
+ * Optional questions about sleep, caffeine, mood, pain, alcohol and time since
+ * waking, asked once per battery session so trends can be adjusted for them.
+ */
+
+import { useState } from "react";
+import { Button, Icon } from "../../common";
+import type { SessionContext } from "../../../types/contextTypes";
+import "./CheckInForm.css";
+
+interface CheckInFormProps {
+    onSave: (context: SessionContext) => void;
+    onSkip: () => void;
+}
+
+const MOOD_OPTIONS = [
+    { value: 1, label: "Very low" },
+    { value: 2, label: "Low" },
+    { value: 3, label: "Neutral" },
+    { value: 4, label: "Good" },
+    { value: 5, label: "Very good" },
+];
+
+const PAIN_OPTIONS = [
+    { value: 0, label: "None" },
+    { value: 1, label: "Mild" },
+    { value: 2, label: "Moderate" },
+    { value: 3, label: "Severe" },
+];
+
+const toNumber = (value: string): number | undefined => (value === "" ? undefined : Number(value));
+
+export function CheckInForm({ onSave, onSkip }: CheckInFormProps) {
+    const [sleepHours, setSleepHours] = useState("");
+    const [hoursAwake, setHoursAwake] = useState("");
+    const [caffeineDrinks, setCaffeineDrinks] = useState("");
+    const [alcoholDrinks, setAlcoholDrinks] = useState("");
+    const [mood, setMood] = useState("");
+    const [pain, setPain] = useState("");
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        // Unanswered questions are left out
+        onSave(JSON.parse(JSON.stringify({
+            sleepHours: toNumber(sleepHours),
+            hoursAwake: toNumber(hoursAwake),
+            caffeineDrinks: toNumber(caffeineDrinks),
+            alcoholDrinks: toNumber(alcoholDrinks),
+            mood: toNumber(mood) as SessionContext["mood"],
+            pain: toNumber(pain) as SessionContext["pain"],
+            recordedAt: new Date().toISOString(),
+        })));
+    };
+
+    return (
+        <form className="checkin-form tests-signin-card glass-card animate-fadeIn" onSubmit={handleSubmit}>
+            <div className="tests-signin-header">
+                <Icon name="notice" size={20} />
+                <h3>Quick Check-in (Optional)</h3>
+            </div>
+            <p className="tests-signin-text">
+                Sleep, caffeine, pain and mood all affect test scores. Your answers help tell a tired day apart from a real change.
+            </p>
+
+            <div className="checkin-grid">
+                <label>
+                    Hours slept last night
+                    <input type="number" min={0} max={24} step={0.5} value={sleepHours} onChange={(e) => setSleepHours(e.target.value)} />
+                </label>
+                <label>
+                    Hours since waking
+                    <input type="number" min={0} max={48} step={0.5} value={hoursAwake} onChange={(e) => setHoursAwake(e.target.value)} />
+                </label>
+                <label>
+                    Caffeinated drinks today
+                    <input type="number" min={0} max={20} value={caffeineDrinks} onChange={(e) => setCaffeineDrinks(e.target.value)} />
+                </label>
+                <label>
+                    Alcoholic drinks (last 24h)
+                    <input type="number" min={0} max={30} value={alcoholDrinks} onChange={(e) => setAlcoholDrinks(e.target.value)} />
+                </label>
+                <label>
+                    Mood
+                    <select value={mood} onChange={(e) => setMood(e.target.value)}>
+                        <option value="">Prefer not to say</option>
+                        {MOOD_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    Pain right now
+                    <select value={pain} onChange={(e) => setPain(e.target.value)}>
+                        <option value="">Prefer not to say</option>
+                        {PAIN_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            <div className="checkin-actions">
+                <Button type="submit" variant="primary" size="sm">Save Check-in</Button>
+                <Button variant="ghost" size="sm" onClick={onSkip}>Skip</Button>
+            </div>
+        </form>
+    );
+}
@@ -191,7 +191,7 @@ export function LanguageAssessment() {
 
                         <div className="privacy-notice">
                             <strong>🔒 Privacy Notice</strong>
-                            <p>Audio is processed locally by your browser. No voice recordings are stored or sent to our servers.</p>
+                            <p>Audio is processed locally by your browser. No voice recordings are stored or sent to our servers. You can encrypt your transcripts on this device in Settings.</p>
                         </div>
 
                         <div className="instructions-list">
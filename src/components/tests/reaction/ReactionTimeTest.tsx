@@ -12,6 +12,7 @@ import {
 } from "./reactionLogic";
 import { createReactionTestResult } from "./reactionFeatures";
 import { getReactionFeedback } from "../../../utils/normativeStats";
+import { useReactionResults } from "../../../hooks/useTestResults";
 import "./ReactionTimeTest.css";
 
 import { PageWrapper } from "../../layout";
@@ -19,6 +20,7 @@ import { PageWrapper } from "../../layout";
 export function ReactionTimeTest() {
     const navigate = useNavigate();
     const { isAuthenticated } = useAuth();
+    const { saveResult } = useReactionResults();
     const [state, setState] = useState<ReactionState>("idle");
     const [roundIndex, setRoundIndex] = useState(0);
     const [rounds, setRounds] = useState<RoundResult[]>([]);
@@ -180,15 +182,8 @@ export function ReactionTimeTest() {
         // Store in sessionStorage for immediate access
         sessionStorage.setItem("lastReactionResult", JSON.stringify(result));
 
-        // Also persist to localStorage for dashboard
-        try {
-            const existingStr = localStorage.getItem("cognitrack_reaction_results");
-            const existing = existingStr ? JSON.parse(existingStr) : [];
-            const updated = [...existing, result];
-            localStorage.setItem("cognitrack_reaction_results", JSON.stringify(updated));
-        } catch (error) {
-            console.error("Failed to persist result:", error);
-        }
+        // Also persist for dashboard
+        saveResult(result);
 
         navigate("/dashboard");
     };
@@ -5,6 +5,8 @@
 
 import type { RoundResult } from "./reactionLogic";
 import type { ReactionAggregates } from "./reactionScoring";
+import type { SessionValidity } from "../../../types/validityTypes";
+import type { SessionContext } from "../../../types/contextTypes";
 import { calculateAggregates, countErrors } from "./reactionScoring";
 
 export interface ReactionDerivedFeatures {
@@ -23,6 +25,9 @@ export interface ReactionTestResult {
     falseStartCount: number;
     missedStimulusCount: number;
     derivedFeatures?: ReactionDerivedFeatures;
+    batteryId?: string; // Battery session the test was taken in
+    validity?: SessionValidity; // Set when the session was flagged (or unflagged) as invalid
+    context?: SessionContext; // Pre-test check-in of the battery it was taken in
 }
 
 /**
@@ -4,6 +4,7 @@
  */
 
 import type { RoundResult } from "./reactionLogic";
+import { huberSlope, indexPoints } from "../../../utils/statistics";
 
 export interface ReactionAggregates {
     avg: number;
@@ -46,23 +47,11 @@ function calculateVariance(values: number[], mean: number): number {
 }
 
 /**
- * Calculates fatigue slope (linear regression).
+ * Calculates fatigue slope (Huber regression, so one lapse does not dominate).
  * Positive slope = slowing down over time.
  */
 function calculateFatigueSlope(times: number[]): number {
-    if (times.length < 2) return 0;
-
-    const n = times.length;
-    const indices = times.map((_, i) => i);
-    const sumX = indices.reduce((a, b) => a + b, 0);
-    const sumY = times.reduce((a, b) => a + b, 0);
-    const sumXY = indices.reduce((sum, x, i) => sum + x * times[i], 0);
-    const sumX2 = indices.reduce((sum, x) => sum + x * x, 0);
-
-    const denominator = n * sumX2 - sumX * sumX;
-    if (denominator === 0) return 0;
-
-    return (n * sumXY - sumX * sumY) / denominator;
+    return huberSlope(indexPoints(times));
 }
 
 /**
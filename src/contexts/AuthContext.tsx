@@ -16,6 +16,7 @@ import type { User } from 'firebase/auth';
 import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { auth, googleProvider, db, isFirebaseConfigured } from '../lib/firebase';
 import { logger } from '../utils/logger';
+import { syncSessions, flushSyncQueue } from '../services/sessionSync';
 
 type Role = 'user' | 'admin';
 
@@ -86,6 +87,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
                             },
                             { merge: true }
                         ).catch(err => logger.warn('Failed to update user profile:', err));
+
+                        // Pull session history from other devices and upload local-only results
+                        syncSessions(firebaseUser.uid)
+                            .catch(err => logger.warn('Failed to sync sessions:', err));
                     } catch (error) {
                         logger.error('Error loading user data:', error);
                         setRole('user');
@@ -101,6 +106,18 @@ export function AuthProvider({ children }: AuthProviderProps) {
         return () => unsubscribe();
     }, []);
 
+    // Retry queued session uploads when the connection comes back
+    useEffect(() => {
+        if (!user) return;
+
+        const handleOnline = () => {
+            flushSyncQueue().catch(err => logger.warn('Failed to flush session sync queue:', err));
+        };
+
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [user]);
+
     const signInWithGoogle = async () => {
         if (!isFirebaseConfigured()) {
             logger.warn('Firebase not configured. Sign-in disabled.');
@@ -0,0 +1,18 @@
+/**
+ * Unit tests for Risk Messaging Rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RISK_LABELS, RISK_MESSAGES, isMessageSafe } from '../messagingRules';
+
+describe('isMessageSafe', () => {
+    it('should reject any forbidden phrase, whatever its case', () => {
+        expect(isMessageSafe('This does not indicate a Diagnosis.')).toBe(false);
+        expect(isMessageSafe('Your performance appears consistent with your baseline.')).toBe(true);
+    });
+
+    it('should pass every risk label and message', () => {
+        expect(Object.values(RISK_LABELS).filter((label) => !isMessageSafe(label))).toEqual([]);
+        expect(Object.values(RISK_MESSAGES).filter((message) => !isMessageSafe(message))).toEqual([]);
+    });
+});
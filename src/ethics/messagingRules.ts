@@ -3,23 +3,34 @@
  * Controls all user-facing risk communication to ensure non-diagnostic, supportive language.
  */
 
-export type RiskLevel = "stable" | "change_detected" | "possible_risk";
+export type RiskLevel = "insufficient_data" | "stable" | "change_detected" | "possible_risk";
 
+/** Levels an assessment can reach; "insufficient_data" is shown when there is none. */
+export type AssessedRiskLevel = Exclude<RiskLevel, "insufficient_data">;
+
+/** Assessed levels from least to most concerning. */
+export const RISK_LEVELS: AssessedRiskLevel[] = ["stable", "change_detected", "possible_risk"];
+
+/** Shown with each level; every message must pass isMessageSafe. */
 export const RISK_MESSAGES: Record<RiskLevel, string> = {
+    insufficient_data:
+        "There is not enough data yet to describe your performance trends. A few more sessions will build your personal baseline.",
     stable: "Your cognitive performance appears consistent with your baseline.",
     change_detected:
         "A change in performance trends has been observed. This is informational only.",
     possible_risk:
-        "Possible cognitive performance variation detected. This does not indicate a diagnosis but may suggest seeking professional advice for peace of mind.",
+        "Possible cognitive performance variation detected. This is not a medical finding, but you may wish to talk to a healthcare professional for peace of mind.",
 };
 
 export const RISK_LABELS: Record<RiskLevel, string> = {
+    insufficient_data: "Building Baseline",
     stable: "Stable",
     change_detected: "Performance Change Detected",
     possible_risk: "Possible Cognitive Risk",
 };
 
 export const RISK_COLORS: Record<RiskLevel, string> = {
+    insufficient_data: "var(--color-text-muted)",
     stable: "var(--color-success)",
     change_detected: "var(--color-warning)",
     possible_risk: "var(--color-caution)",
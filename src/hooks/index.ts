@@ -1 +1,2 @@
 export { useReactionResults } from "./useTestResults";
+export { useProfiles } from "./useProfiles";
@@ -0,0 +1,63 @@
+/**
+ * Profiles Hook
+ * React bindings for the local profiles in `src/storage/profiles.ts`.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { Profile, ProfileDemographics } from "../storage";
+import {
+    PROFILES_CHANGED_EVENT,
+    RESULT_DOMAINS,
+    clearBaselineEpochs,
+    clearBatteryRecords,
+    clearRiskHistory,
+    createProfile,
+    getActiveProfile,
+    getProfiles,
+    getResultRepository,
+    removeProfile,
+    setActiveProfile,
+    updateProfile,
+} from "../storage";
+import { logger } from "../utils/logger";
+
+export function useProfiles() {
+    const [profiles, setProfiles] = useState<Profile[]>(getProfiles);
+    const [activeProfile, setActive] = useState<Profile>(getActiveProfile);
+
+    useEffect(() => {
+        const reload = () => {
+            setProfiles(getProfiles());
+            setActive(getActiveProfile());
+        };
+
+        window.addEventListener(PROFILES_CHANGED_EVENT, reload);
+        return () => window.removeEventListener(PROFILES_CHANGED_EVENT, reload);
+    }, []);
+
+    const addProfile = useCallback((name: string, demographics?: ProfileDemographics) => {
+        return createProfile(name, demographics);
+    }, []);
+
+    // Removes the profile and everything recorded for it on this device
+    const deleteProfile = useCallback(async (id: string) => {
+        try {
+            await Promise.all(RESULT_DOMAINS.map((domain) => getResultRepository(domain, id).clear()));
+            clearBatteryRecords(id);
+            clearBaselineEpochs(id);
+            clearRiskHistory(id);
+            removeProfile(id);
+        } catch (error) {
+            logger.error("Failed to delete profile:", error);
+        }
+    }, []);
+
+    return {
+        profiles,
+        activeProfile,
+        switchProfile: setActiveProfile,
+        addProfile,
+        editProfile: updateProfile,
+        deleteProfile,
+    };
+}
@@ -1,189 +1,183 @@
 /**
  * Test Results Storage Hook
- * Provides localStorage persistence for cognitive test results.
- * Can be replaced with Firebase later.
+ * React bindings for the versioned result repositories in `src/storage`.
+ * Saved results are replicated to Firestore by the session sync service.
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import type { ReactionTestResult } from "../components/tests/reaction/reactionFeatures";
 import type { PatternAssessmentResult } from "../types/patternTypes";
 import type { LanguageAssessmentResult } from "../types/languageTypes";
+import type { SessionValidity } from "../types/validityTypes";
+import type { SessionContext } from "../types/contextTypes";
+import type { DailyAggregation, ResultRepository } from "../storage";
+import {
+    aggregateDaily,
+    clearBaselineEpochs,
+    clearBatteryRecords,
+    clearRiskHistory,
+    filterToEpoch,
+    getActiveEpoch,
+    getBatteryRecord,
+    getDailyAggregation,
+    isResultInvalid,
+    RESULT_REPOSITORIES,
+    RESULTS_UPDATED_EVENT,
+    STORAGE_KEYS,
+    reactionRepository,
+    memoryRepository,
+    patternRepository,
+    languageRepository,
+    recordBatteryResult,
+} from "../storage";
 import { logger } from "../utils/logger";
+import { queueSessionSync } from "../services/sessionSync";
 
-export const STORAGE_KEYS = {
-    reactionResults: "cognitrack_reaction_results",
-    memoryResults: "cognitrack_memory_results",
-    patternResults: "cognitrack_pattern_results",
-    languageResults: "cognitrack_language_results",
-    lastSession: "cognitrack_last_session",
-};
+export { STORAGE_KEYS };
 
 /**
- * Clears all test data from localStorage.
+ * Clears all stored test data of the active profile.
  */
-export function clearAllTestData(): void {
-    localStorage.removeItem(STORAGE_KEYS.reactionResults);
-    localStorage.removeItem(STORAGE_KEYS.memoryResults);
-    localStorage.removeItem(STORAGE_KEYS.patternResults);
-    localStorage.removeItem(STORAGE_KEYS.languageResults);
+export async function clearAllTestData(): Promise<void> {
+    await Promise.all(Object.values(RESULT_REPOSITORIES).map((repository) => repository.clear()));
     localStorage.removeItem(STORAGE_KEYS.lastSession);
+    clearBatteryRecords();
+    clearBaselineEpochs();
+    clearRiskHistory();
 }
 
-// ... existing interfaces ...
+export interface StoredResults {
+    reactionResults: ReactionTestResult[];
+}
+
+export interface MemoryTestResult {
+    sessionId: string; // Derived from the timestamp for records saved before it existed
+    timestamp: Date;
+    totalWords: number;
+    correctCount: number;
+    accuracy: number; // 0-1
+    batteryId?: string; // Battery session the test was taken in
+    validity?: SessionValidity; // Set when the session was flagged (or unflagged) as invalid
+    context?: SessionContext; // Pre-test check-in of the battery it was taken in
+}
 
 /**
- * Hook for managing language assessment results in localStorage.
- * Uses trend tracking (appends all results).
+ * Shared hook body: loads a repository's attempts ledger, reloads on external
+ * changes, and exposes `results`: the valid attempts reduced by the domain's
+ * daily aggregation. `attempts` still includes attempts flagged invalid.
  */
-export function useLanguageResults() {
-    const [results, setResults] = useState<LanguageAssessmentResult[]>([]);
+function useStoredResults<T extends { timestamp: Date; batteryId?: string; validity?: SessionValidity; context?: SessionContext }>(
+    repository: ResultRepository<T>
+) {
+    const { defaultAggregation, isBetter } = repository.schema.daily;
+    const [attempts, setAttempts] = useState<T[]>([]);
+    const [aggregation, setAggregation] = useState<DailyAggregation>(defaultAggregation);
     const [isLoading, setIsLoading] = useState(true);
 
     // Load results
     useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEYS.languageResults);
-            if (stored) {
-                const parsed = JSON.parse(stored) as LanguageAssessmentResult[];
-                const withDates = parsed.map((r) => ({
-                    ...r,
-                    timestamp: new Date(r.timestamp),
-                }));
-                setResults(withDates);
-            }
-        } catch (error) {
-            logger.error("Failed to load language results:", error);
-        } finally {
-            setIsLoading(false);
-        }
-    }, []);
+        let cancelled = false;
 
-    // Save a new result (Append only)
-    const saveResult = useCallback((result: LanguageAssessmentResult) => {
-        setResults((prev) => {
-            const updated = [...prev, result];
+        const load = async () => {
             try {
-                localStorage.setItem(STORAGE_KEYS.languageResults, JSON.stringify(updated));
+                const loaded = await repository.load();
+                if (!cancelled) {
+                    setAttempts(loaded);
+                    setAggregation(getDailyAggregation(repository.domain, defaultAggregation));
+                }
             } catch (error) {
-                logger.error("Failed to save language result:", error);
+                logger.error(`Failed to load ${repository.domain} results:`, error);
+            } finally {
+                if (!cancelled) setIsLoading(false);
             }
-            return updated;
-        });
-    }, []);
+        };
+
+        load();
+        // Reload when results are merged in by sync/import or the aggregation changes
+        window.addEventListener(RESULTS_UPDATED_EVENT, load);
+        return () => {
+            cancelled = true;
+            window.removeEventListener(RESULTS_UPDATED_EVENT, load);
+        };
+    }, [repository, defaultAggregation]);
+
+    const results = useMemo(
+        () => aggregateDaily(attempts.filter((attempt) => !isResultInvalid(attempt)), aggregation, isBetter),
+        [attempts, aggregation, isBetter]
+    );
+
+    // Save a new attempt (every attempt is kept), linked to the battery in progress
+    // and carrying its check-in
+    const saveResult = useCallback(async (result: T) => {
+        try {
+            const batteryId = result.batteryId ?? recordBatteryResult(repository.domain, new Date(result.timestamp));
+            const linked: T = {
+                ...result,
+                batteryId,
+                context: result.context ?? getBatteryRecord(batteryId)?.context,
+            };
+            setAttempts(await repository.save(linked));
+            queueSessionSync(repository.domain, linked);
+        } catch (error) {
+            logger.error(`Failed to save ${repository.domain} result:`, error);
+        }
+    }, [repository]);
 
-    const getLatestResult = useCallback((): LanguageAssessmentResult | null => {
+    const getLatestResult = useCallback((): T | null => {
         if (results.length === 0) return null;
         return results[results.length - 1];
     }, [results]);
 
     return {
         results,
+        attempts,
+        aggregation,
         isLoading,
         saveResult,
         getLatestResult,
     };
 }
 
-export interface StoredResults {
-    reactionResults: ReactionTestResult[];
-}
-
-export interface MemoryTestResult {
-    timestamp: Date;
-    totalWords: number;
-    correctCount: number;
-    accuracy: number; // 0-1
+/**
+ * Hook for managing language assessment results.
+ * Every attempt is a data point unless another daily aggregation is chosen.
+ */
+export function useLanguageResults() {
+    return useStoredResults<LanguageAssessmentResult>(languageRepository);
 }
 
 /**
- * Hook for managing reaction test results in localStorage.
+ * Hook for managing reaction test results.
+ * Defaults to the best attempt per day (lowest average reaction time).
  */
 export function useReactionResults() {
-    const [results, setResults] = useState<ReactionTestResult[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-
-    // Load results from localStorage on mount
-    useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEYS.reactionResults);
-            if (stored) {
-                const parsed = JSON.parse(stored) as ReactionTestResult[];
-                // Convert date strings back to Date objects
-                const withDates = parsed.map((r) => ({
-                    ...r,
-                    timestamp: new Date(r.timestamp),
-                }));
-                setResults(withDates);
-            }
-        } catch (error) {
-            logger.error("Failed to load reaction results:", error);
-        } finally {
-            setIsLoading(false);
-        }
-    }, []);
-
-    // Save a new result (Best of Day logic)
-    const saveResult = useCallback((result: ReactionTestResult) => {
-        setResults((prev) => {
-            const today = new Date(result.timestamp).toLocaleDateString();
-            const existingIndex = prev.findIndex(
-                (r) => new Date(r.timestamp).toLocaleDateString() === today
-            );
+    const { results, attempts, aggregation, isLoading, saveResult, getLatestResult } =
+        useStoredResults<ReactionTestResult>(reactionRepository);
 
-            let updated: ReactionTestResult[];
-
-            if (existingIndex !== -1) {
-                // Check if new result is better (lower avg reaction time is better)
-                if (result.aggregates.avg < prev[existingIndex].aggregates.avg) {
-                    updated = [...prev];
-                    updated[existingIndex] = result;
-                } else {
-                    // Existing result is better, keep it
-                    return prev;
-                }
-            } else {
-                updated = [...prev, result];
-            }
-
-            try {
-                localStorage.setItem(STORAGE_KEYS.reactionResults, JSON.stringify(updated));
-            } catch (error) {
-                logger.error("Failed to save reaction result:", error);
-            }
-            return updated;
-        });
-    }, []);
-
-    // Get the latest result
-    const getLatestResult = useCallback((): ReactionTestResult | null => {
-        if (results.length === 0) return null;
-        return results[results.length - 1];
-    }, [results]);
-
-    // Get all results sorted by date
+    // Results are kept sorted by the repository
     const getSortedResults = useCallback((): ReactionTestResult[] => {
-        return [...results].sort(
-            (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        );
+        return [...results];
     }, [results]);
 
-    // Clear all results
-    const clearResults = useCallback(() => {
-        setResults([]);
-        localStorage.removeItem(STORAGE_KEYS.reactionResults);
+    const clearResults = useCallback(async () => {
+        await reactionRepository.clear();
+        window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
     }, []);
 
-    // Get baseline (average of first 2 sessions)
+    // Get baseline (average of the active epoch's first baseline sessions)
     const getBaseline = useCallback((): number | null => {
-        if (results.length < 2) return null;
-        const sorted = getSortedResults();
-        const firstTwo = sorted.slice(0, 2);
-        const avgSum = firstTwo.reduce((sum, r) => sum + r.aggregates.avg, 0);
-        return avgSum / firstTwo.length;
-    }, [results, getSortedResults]);
+        const epoch = getActiveEpoch();
+        const epochResults = filterToEpoch(results, epoch);
+        if (epochResults.length < 2) return null;
+        const baselineSet = epochResults.slice(0, epoch.baselineSessions);
+        const avgSum = baselineSet.reduce((sum, r) => sum + r.aggregates.avg, 0);
+        return avgSum / baselineSet.length;
+    }, [results]);
 
     return {
         results,
+        attempts,
+        aggregation,
         isLoading,
         saveResult,
         getLatestResult,
@@ -194,128 +188,17 @@ export function useReactionResults() {
 }
 
 /**
- * Hook for managing memory test results in localStorage.
+ * Hook for managing memory test results.
+ * Defaults to the best attempt per day (highest accuracy).
  */
 export function useMemoryResults() {
-    const [results, setResults] = useState<MemoryTestResult[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-
-    // Load results from localStorage on mount
-    useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEYS.memoryResults);
-            if (stored) {
-                const parsed = JSON.parse(stored) as MemoryTestResult[];
-                const withDates = parsed.map((r) => ({
-                    ...r,
-                    timestamp: new Date(r.timestamp),
-                }));
-                setResults(withDates);
-            }
-        } catch (error) {
-            logger.error("Failed to load memory results:", error);
-        } finally {
-            setIsLoading(false);
-        }
-    }, []);
-
-    // Save a new result (Best of Day logic)
-    const saveResult = useCallback((result: MemoryTestResult) => {
-        setResults((prev) => {
-            const today = new Date(result.timestamp).toLocaleDateString();
-            const existingIndex = prev.findIndex(
-                (r) => new Date(r.timestamp).toLocaleDateString() === today
-            );
-
-            let updated: MemoryTestResult[];
-
-            if (existingIndex !== -1) {
-                // Check if new result is better (higher accuracy is better)
-                if (result.accuracy > prev[existingIndex].accuracy) {
-                    updated = [...prev];
-                    updated[existingIndex] = result;
-                } else {
-                    // Existing result is better or equal, keep it
-                    return prev;
-                }
-            } else {
-                updated = [...prev, result];
-            }
-
-            try {
-                localStorage.setItem(STORAGE_KEYS.memoryResults, JSON.stringify(updated));
-            } catch (error) {
-                logger.error("Failed to save memory result:", error);
-            }
-            return updated;
-        });
-    }, []);
-
-    const getLatestResult = useCallback((): MemoryTestResult | null => {
-        if (results.length === 0) return null;
-        return results[results.length - 1];
-    }, [results]);
-
-    return {
-        results,
-        isLoading,
-        saveResult,
-        getLatestResult,
-    };
+    return useStoredResults<MemoryTestResult>(memoryRepository);
 }
 
 /**
- * Hook for managing pattern recognition test results in localStorage.
- * Unlike Reaction/Memory, this uses full trend tracking (appending all results).
+ * Hook for managing pattern recognition test results.
+ * Unlike Reaction/Memory, every attempt is a data point by default.
  */
 export function usePatternResults() {
-    const [results, setResults] = useState<PatternAssessmentResult[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-
-    // Load results
-    useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEYS.patternResults);
-            if (stored) {
-                const parsed = JSON.parse(stored) as PatternAssessmentResult[];
-                const withDates = parsed.map((r) => ({
-                    ...r,
-                    timestamp: new Date(r.timestamp),
-                }));
-                setResults(withDates);
-            }
-        } catch (error) {
-            logger.error("Failed to load pattern results:", error);
-        } finally {
-            setIsLoading(false);
-        }
-    }, []);
-
-    // Save a new result (Append only, no Best of Day replacement)
-    const saveResult = useCallback((result: PatternAssessmentResult) => {
-        setResults((prev) => {
-            const updated = [...prev, result];
-            try {
-                localStorage.setItem(STORAGE_KEYS.patternResults, JSON.stringify(updated));
-            } catch (error) {
-                logger.error("Failed to save pattern result:", error);
-            }
-            return updated;
-        });
-    }, []);
-
-    const getLatestResult = useCallback((): PatternAssessmentResult | null => {
-        if (results.length === 0) return null;
-        return results[results.length - 1];
-    }, [results]);
-
-    return {
-        results,
-        isLoading,
-        saveResult,
-        getLatestResult,
-    };
+    return useStoredResults<PatternAssessmentResult>(patternRepository);
 }
-
-// ... (End of file cleanup)
-
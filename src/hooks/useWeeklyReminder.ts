@@ -14,45 +14,21 @@ import {
     getDaysSinceAssessment,
     isValidEmail
 } from '../services/emailService';
-import { STORAGE_KEYS } from './useTestResults';
+import { RESULT_DOMAINS, getResultRepository } from '../storage';
+import type { AnyStoredResult, ResultRepository } from '../storage';
 import { logger } from '../utils/logger';
 
 const STORAGE_KEY_LAST_REMINDER = 'cognitrack_last_reminder_sent';
 
 /**
- * Helper: Safely parse the latest date from a localStorage JSON string
- * Returns Date if valid, null otherwise
+ * Helper: Latest result timestamp in a repository, or null if it is empty
  */
-function parseLatestDateFrom(storageString: string | null): Date | null {
-    if (!storageString) return null;
-
-    try {
-        const parsed = JSON.parse(storageString);
-
-        // Validate parsed value is an array
-        if (!Array.isArray(parsed) || parsed.length === 0) {
-            return null;
-        }
-
-        // Get the last item
-        const lastItem = parsed[parsed.length - 1];
-
-        // Validate timestamp exists and is string or number
-        if (!lastItem || (typeof lastItem.timestamp !== 'string' && typeof lastItem.timestamp !== 'number')) {
-            return null;
-        }
-
-        // Convert to Date and validate
-        const date = new Date(lastItem.timestamp);
-        if (isNaN(date.getTime())) {
-            return null;
-        }
-
-        return date;
-    } catch {
-        // JSON parse failed or other error
-        return null;
-    }
+async function getLatestDate(repository: ResultRepository<AnyStoredResult>): Promise<Date | null> {
+    const results = await repository.load();
+    if (results.length === 0) return null;
+
+    const date = results[results.length - 1].timestamp;
+    return isNaN(date.getTime()) ? null : date;
 }
 
 export function useWeeklyReminder() {
@@ -76,38 +52,17 @@ export function useWeeklyReminder() {
             }
 
             // 3. Check if user has taken at least one test (has baseline)
-            const hasReactionTests = localStorage.getItem(STORAGE_KEYS.reactionResults);
-            const hasMemoryTests = localStorage.getItem(STORAGE_KEYS.memoryResults);
-            const hasPatternTests = localStorage.getItem(STORAGE_KEYS.patternResults);
-            const hasLanguageTests = localStorage.getItem(STORAGE_KEYS.languageResults);
-
-            const hasAnyTests = hasReactionTests || hasMemoryTests || hasPatternTests || hasLanguageTests;
-            if (!hasAnyTests) {
-                logger.debug('No tests taken yet, skipping reminder');
-                return;
-            }
-
-            // 4. Get last assessment date using the helper function
-            const dates: Date[] = [];
-
-            const reactionDate = parseLatestDateFrom(hasReactionTests);
-            if (reactionDate) dates.push(reactionDate);
-
-            const memoryDate = parseLatestDateFrom(hasMemoryTests);
-            if (memoryDate) dates.push(memoryDate);
-
-            const patternDate = parseLatestDateFrom(hasPatternTests);
-            if (patternDate) dates.push(patternDate);
-
-            const languageDate = parseLatestDateFrom(hasLanguageTests);
-            if (languageDate) dates.push(languageDate);
+            const latest = await Promise.all(
+                RESULT_DOMAINS.map((domain) => getLatestDate(getResultRepository(domain)))
+            );
+            const dates = latest.filter((date): date is Date => date !== null);
 
             if (dates.length === 0) {
-                logger.debug('No valid test dates found');
+                logger.debug('No tests taken yet, skipping reminder');
                 return;
             }
 
-            // Get most recent date
+            // 4. Get most recent assessment date
             const lastAssessment = dates.sort((a, b) => b.getTime() - a.getTime())[0];
             const daysSinceLast = getDaysSinceAssessment(lastAssessment);
 
@@ -4,12 +4,14 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
-import type { SessionDataPoint } from '../ai/trendAnalyzer';
+import type { SessionDataPoint, TrendDomain } from '../ai/trendAnalyzer';
 import { normalizeSessionSequence } from './featureNormalizer';
 import { loadTrendModel } from './modelLoader';
 import { computeFeatureImportance } from './explainability';
 import type { TrendPrediction } from './types';
 import { ML_CONFIG } from './types';
+import { indexPoints, theilSenSlope } from '../utils/statistics';
+import { isMeasured } from '../ai/batteryFeatures';
 
 const CLASS_LABELS = ['stable', 'declining', 'improving'] as const;
 
@@ -30,7 +32,8 @@ export async function predictTrend(sessions: SessionDataPoint[]): Promise<TrendP
     console.log("[ML Debug] Model loaded successfully");
 
     try {
-        // 3. Prepare Input
+        // 3. Prepare Input. The model expects a dense window, so domains a
+        // session skipped keep their carried-forward values here.
         const sequence = normalizeSessionSequence(sessions);
         console.log("[ML Debug] Normalized sequence:", sequence);
         // Shape: [1, Window, Features]
@@ -78,27 +81,18 @@ export async function predictTrend(sessions: SessionDataPoint[]): Promise<TrendP
 
 /**
  * Fallback heuristic when ML model is unavailable.
- * Uses linear regression on weighted cognitive scores.
+ * Uses robust (Theil–Sen) slopes of weighted cognitive scores.
  */
 function calculateHeuristicTrend(sessions: SessionDataPoint[]): TrendPrediction {
-    // Extract domain arrays
-    const memoryScores = sessions.map(s => s.features.memoryAccuracy * 100);
-    const reactionScores = sessions.map(s => Math.max(0, 1000 - s.features.reactionTimeAvg) / 10 * 2);
-    const patternScores = sessions.map(s => s.features.patternScore);
-    const speechScores = sessions.map(s => s.features.speechWPM / 2);
-
-    // Helper to calculate slope for a single series
-    const calculateSlope = (values: number[]): number => {
-        const n = values.length;
-        if (n < 2) return 0;
-        const x = Array.from({ length: n }, (_, i) => i);
-        const sumX = x.reduce((a, b) => a + b, 0);
-        const sumY = values.reduce((a, b) => a + b, 0);
-        const sumXY = x.reduce((sum, xi, i) => sum + xi * values[i], 0);
-        const sumXX = x.reduce((sum, xi) => sum + xi * xi, 0);
-        // Avoid division by zero (variance of x is 0 only if n=1, handled above)
-        return (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    };
+    // Extract domain arrays, each from the sessions that measured the domain
+    const taken = (domain: TrendDomain) => sessions.filter(s => isMeasured(s, domain));
+    const memoryScores = taken('memory').map(s => s.features.memoryAccuracy * 100);
+    const reactionScores = taken('reaction').map(s => Math.max(0, 1000 - s.features.reactionTimeAvg) / 10 * 2);
+    const patternScores = taken('pattern').map(s => s.features.patternScore);
+    const speechScores = taken('language').map(s => s.features.speechWPM / 2);
+
+    // Robust per-session slope for a single series
+    const calculateSlope = (values: number[]): number => theilSenSlope(indexPoints(values));
 
     const slopes = {
         memory: calculateSlope(memoryScores),
@@ -7,31 +7,135 @@ import {
     CartesianGrid,
     Tooltip,
     ResponsiveContainer,
+    ReferenceLine,
 } from "recharts";
 import { Card, CardHeader, CardContent, RiskBadge, Button, Icon } from "../components/common";
 import { PageWrapper } from "../components/layout";
 import { useAuth } from "../contexts/AuthContext";
-import { useMemoryResults, usePatternResults, useLanguageResults, clearAllTestData, STORAGE_KEYS } from "../hooks/useTestResults";
+import { useReactionResults, useMemoryResults, usePatternResults, useLanguageResults, clearAllTestData } from "../hooks/useTestResults";
 import { generateSimulatedData, hasBaseline, getMockBaseline } from "../utils/simulateUserData";
+import { reactionRepository, memoryRepository, patternRepository, languageRepository, assembleBatteries, isResultInvalid, RESULT_DOMAINS, RESULT_DOMAIN_LABELS, BASELINE_EPOCH_REASON_LABELS, getActiveEpoch, isInEpoch, loadRiskHistory } from "../storage";
+import type { BaselineEpoch, BatterySession, ResultDomain, RiskHistoryEntry } from "../storage";
+import { RISK_LABELS, RISK_MESSAGES } from "../ethics/messagingRules";
+import type { InvalidReason, SessionValidity } from "../types/validityTypes";
+import { INVALID_REASON_LABELS, setBatteryValidity } from "../services/sessionFlags";
 import { useWeeklyReminder } from "../hooks/useWeeklyReminder";
-import { predictTrend } from "../ml";
-import type { TrendPrediction } from "../ml";
-import type { ReactionTestResult } from "../components/tests/reaction/reactionFeatures";
+import { useProfiles } from "../hooks/useProfiles";
+import { assessUser, measureDataSufficiency, probabilityAtLeast, recordRiskAnalysis, ROUND_UNITS, SUFFICIENCY_REQUIREMENTS } from "../ai";
+import type { DataSufficiency, DomainRisk, ResultHistory, RiskAnalysis } from "../ai";
 import { logger } from "../utils/logger";
 import "./Dashboard.css";
 
-// ... inside Dashboard component ...
+/**
+ * Appends simulated results straight to storage.
+ */
+async function appendSimulatedResults(simulated: ReturnType<typeof generateSimulatedData>): Promise<void> {
+    if (simulated.reaction.length > 0) await reactionRepository.appendAll(simulated.reaction);
+    if (simulated.memory.length > 0) await memoryRepository.appendAll(simulated.memory);
+    if (simulated.pattern.length > 0) await patternRepository.appendAll(simulated.pattern);
+    if (simulated.language.length > 0) await languageRepository.appendAll(simulated.language);
+}
+
+/**
+ * Chart and table values for one battery session.
+ */
+function summarizeBattery(battery: BatterySession) {
+    const { reaction, memory, pattern, language } = battery.results;
+    return {
+        date: battery.startedAt.toLocaleDateString('en-GB'),
+        testsTaken: battery.order.length,
+        memory: memory ? Math.round(memory.accuracy * 100) : null,
+        reaction: reaction ? Math.round(reaction.aggregates.avg) : null,
+        pattern: pattern ? Math.min(pattern.metrics.maxLevelReached * 10, 100) : null,
+        speech: language ? Math.round(language.derivedFeatures.wpm) : null,
+    };
+}
 
+/**
+ * Daily results plus the attempts flagged invalid, which stay listed in Session History.
+ */
+function withFlagged<T extends { validity?: SessionValidity }>(results: T[], attempts: T[]): T[] {
+    return [...results, ...attempts.filter((attempt) => isResultInvalid(attempt))];
+}
 
+const signed = (value: string, negative: boolean) => `${negative ? "−" : "+"}${value}`;
+
+/** A change in each domain's metric, in its own units (reaction: time, not speed). */
+const DOMAIN_CHANGE_FORMATS: Record<ResultDomain, (change: number) => string> = {
+    reaction: (ms) => signed(`${Math.abs(Math.round(ms))} ms`, ms < 0),
+    memory: (accuracy) => signed(`${Math.abs(Math.round(accuracy * 100))} pts`, accuracy < 0),
+    pattern: (score) => signed(`${Math.abs(Math.round(score * 100))} pts`, score < 0),
+    language: (diversity) => signed(Math.abs(diversity).toFixed(2), diversity < 0),
+};
+
+/**
+ * An improvement (DomainRisk delta or slope; positive = faster reactions) as a change of the domain's metric.
+ */
+function formatImprovement(domain: ResultDomain, improvement: number): string {
+    return DOMAIN_CHANGE_FORMATS[domain](domain === "reaction" ? -improvement : improvement);
+}
 
+/**
+ * What a domain's level is based on, for its badge tooltip.
+ */
+function describeDomainRisk(domain: ResultDomain, risk: DomainRisk): string {
+    if (risk.level === "insufficient_data" && risk.sufficiency) {
+        const { sessions, spanDays, validRounds } = SUFFICIENCY_REQUIREMENTS;
+        return `Building baseline: ${risk.sufficiency.sessions}/${sessions} sessions, `
+            + `${Math.floor(risk.sufficiency.spanDays)}/${spanDays} days, `
+            + `${risk.sufficiency.validRounds}/${validRounds[domain]} ${ROUND_UNITS[domain]}`;
+    }
+    const parts = [`Change of ${risk.rci.toFixed(1)} × the usual difference between two of your sessions`];
+    if (risk.anomalyZ !== null) parts.push(`${risk.anomalyZ.toFixed(1)} SD from your recent sessions`);
+    parts.push(risk.signals.length > 0 ? `Signals: ${risk.signals.join(", ")}` : "No signals in this domain");
+    return parts.join(" · ");
+}
 
+/**
+ * Progress toward a usable baseline, overall and per domain.
+ */
+function SufficiencyMeter({ sufficiency }: { sufficiency: DataSufficiency }) {
+    const { sessions, spanDays, validRounds } = SUFFICIENCY_REQUIREMENTS;
+    return (
+        <div className="sufficiency-meter">
+            <div className="sufficiency-meter-header">
+                <span className="label">Baseline progress</span>
+                <span className="value">{Math.round(sufficiency.progress * 100)}%</span>
+            </div>
+            <div
+                className="sufficiency-bar"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(sufficiency.progress * 100)}
+            >
+                <div className="sufficiency-bar-fill" style={{ width: `${sufficiency.progress * 100}%` }} />
+            </div>
+            <ul className="sufficiency-domains">
+                {RESULT_DOMAINS.map((domain) => {
+                    const measured = sufficiency.domains[domain];
+                    return (
+                        <li key={domain} className={measured.sufficient ? "sufficient" : undefined}>
+                            <span className="sufficiency-domain">{RESULT_DOMAIN_LABELS[domain]}</span>
+                            <span className="sufficiency-counts">
+                                {Math.min(measured.sessions, sessions)}/{sessions} sessions
+                                {" · "}{Math.min(Math.floor(measured.spanDays), spanDays)}/{spanDays} days
+                                {" · "}{Math.min(measured.validRounds, validRounds[domain])}/{validRounds[domain]} {ROUND_UNITS[domain]}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
 
 export function Dashboard() {
     // Load test results
-    const [reactionResults, setReactionResults] = useState<ReactionTestResult[]>([]);
-    const { results: memoryResults } = useMemoryResults();
-    const { results: patternResults } = usePatternResults();
-    const { results: languageResults } = useLanguageResults();
+    const { results: reactionResults, attempts: reactionAttempts } = useReactionResults();
+    const { results: memoryResults, attempts: memoryAttempts } = useMemoryResults();
+    const { results: patternResults, attempts: patternAttempts } = usePatternResults();
+    const { results: languageResults, attempts: languageAttempts } = useLanguageResults();
 
     // Weekly Reminder Hook
     useWeeklyReminder();
@@ -39,62 +143,37 @@ export function Dashboard() {
     // Auth for admin check
     const { isAdmin } = useAuth();
 
-    // ML Prediction State
-    const [mlPrediction, setMlPrediction] = useState<TrendPrediction | null>(null);
+    // Results, trends and risk below all belong to the active profile
+    const { profiles, activeProfile } = useProfiles();
 
-    // Load reaction results from localStorage
-    useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEYS.reactionResults);
-            if (stored) {
-                const parsed = JSON.parse(stored) as ReactionTestResult[];
-                const withDates = parsed.map((r) => ({
-                    ...r,
-                    timestamp: new Date(r.timestamp),
-                }));
-                setReactionResults(withDates);
-            }
-        } catch (error) {
-            logger.error("Failed to load reaction results:", error);
-        }
-    }, []);
+    // Risk assessment (rule-based signals combined with the ML trend model)
+    const [riskAnalysis, setRiskAnalysis] = useState<RiskAnalysis | null>(null);
 
-    // Refresh data from localStorage (used after simulation)
+    // Refresh data from storage (used after simulation)
     const refreshData = () => {
         window.location.reload();
     };
 
     // Handle Clear All Data
-    const handleClearData = () => {
+    const handleClearData = async () => {
         if (window.confirm("Are you sure you want to delete ALL test data? This cannot be undone.")) {
-            clearAllTestData();
+            try {
+                await clearAllTestData();
+            } catch (error) {
+                logger.error("Failed to clear test data:", error);
+            }
             refreshData();
         }
     };
 
     // Handle Mock Data (No Baseline Required)
-    const handleMockData = (pattern: "stable" | "declining") => {
+    const handleMockData = async (pattern: "stable" | "declining") => {
         const baseline = getMockBaseline();
         const simulated = generateSimulatedData(baseline, pattern);
 
-        // Append simulated data to localStorage
+        // Append simulated data to storage
         try {
-            if (simulated.reaction.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.reactionResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.reactionResults, JSON.stringify([...existing, ...simulated.reaction]));
-            }
-            if (simulated.memory.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.memoryResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.memoryResults, JSON.stringify([...existing, ...simulated.memory]));
-            }
-            if (simulated.pattern.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.patternResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.patternResults, JSON.stringify([...existing, ...simulated.pattern]));
-            }
-            if (simulated.language.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.languageResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.languageResults, JSON.stringify([...existing, ...simulated.language]));
-            }
+            await appendSimulatedResults(simulated);
             refreshData();
         } catch (error) {
             logger.error("Failed to save mock data:", error);
@@ -103,7 +182,7 @@ export function Dashboard() {
     };
 
     // Handle Simulate Data
-    const handleSimulateData = (pattern: "stable" | "declining") => {
+    const handleSimulateData = async (pattern: "stable" | "declining") => {
         const baseline = {
             reaction: reactionResults.length > 0 ? reactionResults[reactionResults.length - 1] : undefined,
             memory: memoryResults.length > 0 ? memoryResults[memoryResults.length - 1] : undefined,
@@ -118,24 +197,9 @@ export function Dashboard() {
 
         const simulated = generateSimulatedData(baseline, pattern);
 
-        // Append simulated data to localStorage
+        // Append simulated data to storage
         try {
-            if (simulated.reaction.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.reactionResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.reactionResults, JSON.stringify([...existing, ...simulated.reaction]));
-            }
-            if (simulated.memory.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.memoryResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.memoryResults, JSON.stringify([...existing, ...simulated.memory]));
-            }
-            if (simulated.pattern.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.patternResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.patternResults, JSON.stringify([...existing, ...simulated.pattern]));
-            }
-            if (simulated.language.length > 0) {
-                const existing = JSON.parse(localStorage.getItem(STORAGE_KEYS.languageResults) || "[]");
-                localStorage.setItem(STORAGE_KEYS.languageResults, JSON.stringify([...existing, ...simulated.language]));
-            }
+            await appendSimulatedResults(simulated);
             refreshData();
         } catch (error) {
             logger.error("Failed to save simulated data:", error);
@@ -146,70 +210,82 @@ export function Dashboard() {
     // Determine if user has data
     const hasUserData = reactionResults.length > 0 || memoryResults.length > 0 || patternResults.length > 0 || languageResults.length > 0;
 
-    // Prepare chart data
+    const history: ResultHistory = useMemo(() => ({
+        reaction: withFlagged(reactionResults, reactionAttempts),
+        memory: withFlagged(memoryResults, memoryAttempts),
+        pattern: withFlagged(patternResults, patternAttempts),
+        language: withFlagged(languageResults, languageAttempts),
+    }), [reactionResults, memoryResults, patternResults, languageResults,
+        reactionAttempts, memoryAttempts, patternAttempts, languageAttempts]);
+
+    // Group results into battery sessions (one sitting each)
+    const batteries = useMemo(() => assembleBatteries(history), [history]);
+
+    // Reported risk level per assessed session, for the timeline
+    const [riskHistory, setRiskHistory] = useState<RiskHistoryEntry[]>(() => loadRiskHistory());
+
+    // Sessions where the reported level changed, latest first
+    const riskTransitions = useMemo(() => riskHistory
+        .map((entry, i) => ({ entry, from: i > 0 ? riskHistory[i - 1].riskLevel : null }))
+        .filter(({ entry, from }) => entry.riskLevel !== from)
+        .reverse(), [riskHistory]);
+
+    // Epoch the assessment ran against; sessions before it are shown as archived
+    const [activeEpoch, setActiveEpoch] = useState<BaselineEpoch>(() => getActiveEpoch());
+
+    // Overall badge tooltip: the level of each domain
+    const domainSummary = useMemo(() => riskAnalysis
+        ? RESULT_DOMAINS.map((domain) => `${RESULT_DOMAIN_LABELS[domain]}: ${RISK_LABELS[riskAnalysis.domains[domain].level]}`).join("\n")
+        : undefined, [riskAnalysis]);
+
+    // Progress toward a usable baseline in the active epoch
+    const sufficiency = useMemo(() => measureDataSufficiency(history, activeEpoch), [history, activeEpoch]);
+
+    // Prepare chart data (sessions flagged invalid are left out)
     const chartData = useMemo(() => {
-        const allDates = new Set<string>();
-        reactionResults.forEach(r => allDates.add(new Date(r.timestamp).toDateString()));
-        memoryResults.forEach(m => allDates.add(new Date(m.timestamp).toDateString()));
-        patternResults.forEach(p => allDates.add(new Date(p.timestamp).toDateString()));
-        languageResults.forEach(l => allDates.add(new Date(l.timestamp).toDateString()));
-
-        const sortedDates = Array.from(allDates).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-
-        return sortedDates.map((dateStr, index) => {
-            const reaction = reactionResults.filter(r => new Date(r.timestamp).toDateString() === dateStr).pop();
-            const memory = memoryResults.filter(m => new Date(m.timestamp).toDateString() === dateStr).pop();
-            const pattern = patternResults.filter(p => new Date(p.timestamp).toDateString() === dateStr).pop();
-            const language = languageResults.filter(l => new Date(l.timestamp).toDateString() === dateStr).pop();
-
-            const patternScore = pattern ? Math.min(pattern.metrics.maxLevelReached * 10, 100) : null;
-
-            return {
-                name: `Session ${index + 1}`,
-                date: new Date(dateStr).toLocaleDateString('en-GB'),
-                memory: memory ? Math.round(memory.accuracy * 100) : null,
-                reaction: reaction ? Math.round(reaction.aggregates.avg) : null,
-                pattern: patternScore,
-                speech: language ? Math.round(language.derivedFeatures.wpm) : null,
-            };
-        });
-    }, [reactionResults, memoryResults, patternResults, languageResults]);
-
-    // Fetch ML Prediction when enough data
+        return batteries
+            .filter((battery) => !battery.invalid)
+            .map((battery, index) => ({ name: `Session ${index + 1}`, ...summarizeBattery(battery) }));
+    }, [batteries]);
+
+    // First charted session of a reset epoch, marked on every chart
+    const epochStartLabel = useMemo(() => {
+        if (activeEpoch.reason === "initial") return null;
+        const index = batteries
+            .filter((battery) => !battery.invalid)
+            .findIndex((battery) => isInEpoch(battery.startedAt, activeEpoch));
+        return index >= 0 ? chartData[index].name : null;
+    }, [batteries, chartData, activeEpoch]);
+
+    // Session flagging
+    const [flaggingId, setFlaggingId] = useState<string | null>(null);
+    const [flagReason, setFlagReason] = useState<InvalidReason>("interrupted");
+
+    const handleSetValidity = async (battery: BatterySession, reason: InvalidReason | null) => {
+        try {
+            await setBatteryValidity(battery, reason);
+        } catch (error) {
+            logger.error("Failed to update session validity:", error);
+            alert("Failed to update the session. Please try again.");
+        }
+        setFlaggingId(null);
+    };
+
+    // Run the assessment pipeline whenever the history changes
     useEffect(() => {
         let mounted = true;
-        async function fetchML() {
-            if (chartData.length >= 3) {
-                // Build features for ML model
-                const dataPoints = chartData.map((session, index) => ({
-                    timestamp: new Date().getTime() - (chartData.length - index - 1) * 7 * 24 * 60 * 60 * 1000,
-                    features: {
-                        memoryAccuracy: (session.memory || 70) / 100,
-                        reactionTimeAvg: session.reaction || 350,
-                        reactionTimeVariance: 500,
-                        patternScore: session.pattern || 50,
-                        speechWPM: session.speech || 120,
-                        lexicalDiversity: 0.6,
-                        fillerWordRatio: 0.05,
-                        hesitationMarkers: 2,
-                    }
-                }));
-
-                try {
-                    const pred = await predictTrend(dataPoints);
-                    if (mounted) {
-                        setMlPrediction(pred);
-                    }
-                } catch (err) {
-                    logger.error('Error in predictTrend:', err);
-                }
-            } else {
-                if (mounted) setMlPrediction(null);
-            }
-        }
-        fetchML();
+        // A reset dispatches a results update, so the history changes with the epoch
+        const epoch = getActiveEpoch();
+        assessUser(history, { epoch })
+            .then((analysis) => {
+                if (!mounted) return;
+                setRiskAnalysis(analysis);
+                setActiveEpoch(epoch);
+                setRiskHistory(analysis ? recordRiskAnalysis(analysis) : loadRiskHistory());
+            })
+            .catch((err) => logger.error('Error in assessUser:', err));
         return () => { mounted = false; };
-    }, [chartData]);
+    }, [history]);
 
     // Chart Component
     const renderChart = (title: string, subtitle: string, dataKey: string, color: string, domain: [number | 'auto', number | 'auto'] = ['auto', 'auto'], unit: string = "") => (
@@ -230,6 +306,14 @@ export function Dashboard() {
                                 }}
                                 formatter={(value) => [String(value ?? '') + unit, title]}
                             />
+                            {epochStartLabel && (
+                                <ReferenceLine
+                                    x={epochStartLabel}
+                                    stroke="#94a3b8"
+                                    strokeDasharray="4 4"
+                                    label={{ value: "New baseline", fill: "#94a3b8", fontSize: 11, position: "insideTopLeft" }}
+                                />
+                            )}
                             <Line
                                 connectNulls
                                 type="monotone"
@@ -251,7 +335,7 @@ export function Dashboard() {
             <div className="dashboard container">
                 <div className="dashboard-header">
                     <div>
-                        <h1>Your Cognitive Trends</h1>
+                        <h1>{profiles.length > 1 ? `${activeProfile.name}'s Cognitive Trends` : "Your Cognitive Trends"}</h1>
                         <p className="text-secondary">
                             Track your cognitive performance patterns over time
                         </p>
@@ -325,38 +409,74 @@ export function Dashboard() {
                     </Card>
                 )}
 
-                {/* Your Trend Analysis - Shows when 3+ sessions and ML prediction exists */}
-                {chartData.length >= 3 && mlPrediction && (
+                {/* Your Trend Analysis - Shows once there are enough sessions to assess */}
+                {riskAnalysis && (
                     <Card className="risk-summary animate-fadeIn">
                         <div className="risk-summary-header">
                             <div>
                                 <h2>Your Trend Analysis</h2>
-                                <RiskBadge level={
-                                    mlPrediction.direction === 'declining' ? 'possible_risk' :
-                                        mlPrediction.direction === 'improving' ? 'stable' : 'change_detected'
-                                } />
+                                <RiskBadge level={riskAnalysis.riskLevel} tooltip={domainSummary} />
                             </div>
                             <div className="risk-confidence">
-                                <span className="label">ML Confidence</span>
+                                <span className="label">Confidence</span>
                                 <span className="value">
-                                    {Math.round(mlPrediction.confidence * 100)}%
+                                    {Math.round(riskAnalysis.riskConfidenceScore * 100)}%
                                 </span>
                             </div>
                         </div>
-                        <p className="risk-message">
-                            {mlPrediction.direction === 'declining'
-                                ? "Possible cognitive performance variation detected. This does not indicate a diagnosis but may suggest seeking professional advice for peace of mind."
-                                : mlPrediction.direction === 'improving'
-                                    ? "Your cognitive performance appears to be improving. Keep up the great work!"
-                                    : "Your performance appears stable with no significant changes detected."}
-                        </p>
+                        <p className="risk-message">{riskAnalysis.riskMessage}</p>
+                        {riskAnalysis.levelProbabilities && (
+                            <p className="risk-uncertainty">
+                                {Math.round(probabilityAtLeast(riskAnalysis.levelProbabilities, "change_detected") * 100)}% of
+                                resamples of your sessions indicate a change
+                            </p>
+                        )}
+                        <p className="risk-explanation">{riskAnalysis.explanation}</p>
+                        {/* About the signal level before resampling, which can differ from rawRiskLevel and the level above */}
+                        {riskAnalysis.counterfactual && riskAnalysis.counterfactual.summary.length > 0 && (
+                            <div className="risk-counterfactual">
+                                <span className="factors-label">
+                                    Before resampling, this session's signals read "{RISK_LABELS[riskAnalysis.counterfactual.riskLevel]}". What would change that
+                                </span>
+                                <ul>
+                                    {riskAnalysis.counterfactual.summary.map((sentence) => (
+                                        <li key={sentence}>{sentence}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="domain-grid">
+                            {RESULT_DOMAINS.map((domain) => {
+                                const risk = riskAnalysis.domains[domain];
+                                return (
+                                    <div key={domain} className="domain-cell">
+                                        <span className="domain-cell-name">{RESULT_DOMAIN_LABELS[domain]}</span>
+                                        <RiskBadge level={risk.level} tooltip={describeDomainRisk(domain, risk)} />
+                                        <dl className="domain-cell-stats">
+                                            <dt>vs baseline</dt>
+                                            <dd>{formatImprovement(domain, risk.delta)}</dd>
+                                            <dt>per 30 days</dt>
+                                            <dd>{formatImprovement(domain, risk.slope)}</dd>
+                                        </dl>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {!sufficiency.sufficient && <SufficiencyMeter sufficiency={sufficiency} />}
                         <div className="risk-factors">
-                            <span className="factors-label">Trend detected:</span>
+                            <span className="factors-label">
+                                {riskAnalysis.topFactors.length > 0 ? "Contributing factors:" : "Trend detected:"}
+                            </span>
                             <div className="factors-list">
-                                <span className={`factor-tag direction-tag ${mlPrediction.direction}`}>
-                                    {mlPrediction.direction === 'improving' ? '↗' :
-                                        mlPrediction.direction === 'declining' ? '↘' : '↔'} {mlPrediction.direction}
-                                </span>
+                                {riskAnalysis.topFactors.map((factor) => (
+                                    <span key={factor} className="factor-tag">{factor}</span>
+                                ))}
+                                {riskAnalysis.mlPrediction && (
+                                    <span className={`factor-tag direction-tag ${riskAnalysis.mlPrediction.direction}`}>
+                                        {riskAnalysis.mlPrediction.direction === 'improving' ? '↗' :
+                                            riskAnalysis.mlPrediction.direction === 'declining' ? '↘' : '↔'} {riskAnalysis.mlPrediction.direction}
+                                    </span>
+                                )}
                                 <span className="factor-tag">
                                     {chartData.length} sessions analyzed
                                 </span>
@@ -365,6 +485,54 @@ export function Dashboard() {
                     </Card>
                 )}
 
+                {/* Building Baseline - Not enough data to assess yet */}
+                {hasUserData && !riskAnalysis && (
+                    <Card className="risk-summary animate-fadeIn">
+                        <div className="risk-summary-header">
+                            <div>
+                                <h2>Your Trend Analysis</h2>
+                                <RiskBadge level="insufficient_data" />
+                            </div>
+                        </div>
+                        <p className="risk-message">{RISK_MESSAGES.insufficient_data}</p>
+                        <SufficiencyMeter sufficiency={sufficiency} />
+                    </Card>
+                )}
+
+                {/* Risk History - Each change of the reported level */}
+                {riskTransitions.length > 0 && (
+                    <Card className="risk-history">
+                        <CardHeader
+                            title="Risk History"
+                            subtitle="Your reported level only changes once a new level holds over consecutive sessions"
+                        />
+                        <CardContent>
+                            <ol className="risk-timeline">
+                                {riskTransitions.map(({ entry, from }) => (
+                                    <li key={entry.sessionTimestamp} className="risk-timeline-item">
+                                        <div className="risk-timeline-header">
+                                            <span className="risk-timeline-date">
+                                                {new Date(entry.sessionTimestamp).toLocaleDateString('en-GB')}
+                                            </span>
+                                            <RiskBadge level={entry.riskLevel} />
+                                            <span className="risk-timeline-from">
+                                                {from ? `from ${RISK_LABELS[from]}` : 'first assessment'}
+                                            </span>
+                                        </div>
+                                        {entry.topFactors.length > 0 && (
+                                            <div className="factors-list">
+                                                {entry.topFactors.map((factor) => (
+                                                    <span key={factor} className="factor-tag">{factor}</span>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </li>
+                                ))}
+                            </ol>
+                        </CardContent>
+                    </Card>
+                )}
+
                 {/* No data message */}
                 {!hasUserData && (
                     <Card className="no-data-card">
@@ -403,22 +571,72 @@ export function Dashboard() {
                                     <thead>
                                         <tr>
                                             <th>Date</th>
+                                            <th>Tests</th>
                                             <th>Memory</th>
                                             <th>Reaction</th>
                                             <th>Pattern</th>
                                             <th>Speech WPM</th>
+                                            <th>Status</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {chartData.slice().reverse().map((session, i) => (
-                                            <tr key={i}>
-                                                <td>{session.date}</td>
-                                                <td>{session.memory ? `${session.memory}%` : '-'}</td>
-                                                <td>{session.reaction ? `${session.reaction}ms` : '-'}</td>
-                                                <td>{session.pattern ? `${session.pattern}%` : '-'}</td>
-                                                <td>{session.speech ? session.speech : '-'}</td>
-                                            </tr>
-                                        ))}
+                                        {batteries.slice().reverse().map((battery) => {
+                                            const session = summarizeBattery(battery);
+                                            const archived = !isInEpoch(battery.startedAt, activeEpoch);
+                                            const rowClass = battery.invalid ? 'session-row-invalid' : archived ? 'session-row-archived' : '';
+                                            return (
+                                                <tr key={battery.id} className={rowClass}>
+                                                    <td>
+                                                        {session.date}
+                                                        {archived && (
+                                                            <span className="session-archived-label" title={`${BASELINE_EPOCH_REASON_LABELS[activeEpoch.reason]} on ${new Date(activeEpoch.startedAt).toLocaleDateString('en-GB')}`}>
+                                                                Before reset
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                    <td>{`${session.testsTaken}/${RESULT_DOMAINS.length}`}</td>
+                                                    <td>{session.memory ? `${session.memory}%` : '-'}</td>
+                                                    <td>{session.reaction ? `${session.reaction}ms` : '-'}</td>
+                                                    <td>{session.pattern ? `${session.pattern}%` : '-'}</td>
+                                                    <td>{session.speech ? session.speech : '-'}</td>
+                                                    <td className="session-status">
+                                                        <div className="session-status-actions">
+                                                            {battery.invalid ? (
+                                                                <>
+                                                                    <span>{battery.invalidReason ? INVALID_REASON_LABELS[battery.invalidReason] : 'Invalid'}</span>
+                                                                    <Button variant="ghost" size="sm" onClick={() => handleSetValidity(battery, null)}>
+                                                                        Restore
+                                                                    </Button>
+                                                                </>
+                                                            ) : flaggingId === battery.id ? (
+                                                                <>
+                                                                    <select
+                                                                        className="session-flag-select"
+                                                                        value={flagReason}
+                                                                        onChange={(e) => setFlagReason(e.target.value as InvalidReason)}
+                                                                        aria-label="Reason"
+                                                                    >
+                                                                        {(Object.keys(INVALID_REASON_LABELS) as InvalidReason[]).map((reason) => (
+                                                                            <option key={reason} value={reason}>{INVALID_REASON_LABELS[reason]}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                    <Button variant="ghost" size="sm" onClick={() => handleSetValidity(battery, flagReason)}>
+                                                                        Confirm
+                                                                    </Button>
+                                                                    <Button variant="ghost" size="sm" onClick={() => setFlaggingId(null)}>
+                                                                        Cancel
+                                                                    </Button>
+                                                                </>
+                                                            ) : (
+                                                                <Button variant="ghost" size="sm" onClick={() => setFlaggingId(battery.id)}>
+                                                                    Mark Invalid
+                                                                </Button>
+                                                            )}
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
                                     </tbody>
                                 </table>
                             </div>
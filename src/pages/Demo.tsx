@@ -22,7 +22,8 @@ export function Demo() {
     // Map internal trend risk to UI RiskLevel
     const riskLevel: RiskLevel =
         trendResult.risk === 'high' ? 'possible_risk' :
-            trendResult.risk === 'medium' ? 'change_detected' : 'stable';
+            trendResult.risk === 'medium' ? 'change_detected' :
+                trendResult.risk === 'unknown' ? 'insufficient_data' : 'stable';
 
     const chartData = DEMO_SESSIONS.map((session) => ({
         date: session.timestamp.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
@@ -61,7 +62,8 @@ export function Demo() {
                                     <span className="trend-label">Direction</span>
                                     <span className={`trend-value ${trendResult.trend}`}>
                                         {trendResult.trend === 'declining' ? '↓ Declining' :
-                                            trendResult.trend === 'improving' ? '↑ Improving' : '→ Stable'}
+                                            trendResult.trend === 'improving' ? '↑ Improving' :
+                                                trendResult.trend === 'insufficient_data' ? 'Not enough data' : '→ Stable'}
                                     </span>
                                 </div>
                                 <div className="trend-item">
@@ -190,6 +190,7 @@ export function MemoryAssessment() {
         // Save results
         const accuracy = rawMetrics.correctCount / WORD_COUNT;
         saveResult({
+            sessionId: crypto.randomUUID(),
             timestamp: new Date(),
             totalWords: WORD_COUNT,
             correctCount: rawMetrics.correctCount,
@@ -9,8 +9,66 @@ import { useAuth } from '../contexts/AuthContext';
 import { db } from '../lib/firebase';
 import { PageWrapper } from '../components/layout/PageWrapper';
 import { sendWeeklyReminder, isEmailConfigured, saveEmailPreferences, getEmailPreferences } from '../services/emailService';
+import {
+    getQuarantinedRecords,
+    clearQuarantine,
+    getDailyAggregation,
+    setDailyAggregation,
+    DAILY_AGGREGATIONS,
+    RESULT_DOMAINS,
+    RESULT_DOMAIN_LABELS,
+    RESULT_REPOSITORIES,
+    RESULTS_UPDATED_EVENT,
+    BASELINE_EPOCH_REASON_LABELS,
+    getActiveEpoch,
+    isEncryptionEnabled,
+} from '../storage';
+import type { DailyAggregation, Profile, ProfileDemographics, QuarantinedRecord, ResultDomain } from '../storage';
+import { buildExportBundle, bundleToCsvFiles } from '../services/dataExport';
+import { previewImport, applyImport } from '../services/dataImport';
+import type { ImportPreview } from '../services/dataImport';
+import { turnOnEncryption, turnOffEncryption } from '../services/resultEncryption';
+import { resetBaseline } from '../services/baselineEpochSync';
+import type { UserResetReason } from '../services/baselineEpochSync';
+import { useProfiles } from '../hooks/useProfiles';
+import { downloadFile } from '../utils/download';
 import './Settings.css';
 
+const AGGREGATION_LABELS: Record<DailyAggregation, string> = {
+    all: 'Every attempt',
+    best: 'Best of day',
+    first: 'First of day',
+    mean: 'Mean of day',
+    median: 'Median of day',
+};
+
+function readAggregations(): Record<ResultDomain, DailyAggregation> {
+    const entries = RESULT_DOMAINS.map((domain) => [
+        domain,
+        getDailyAggregation(domain, RESULT_REPOSITORIES[domain].schema.daily.defaultAggregation),
+    ]);
+    return Object.fromEntries(entries);
+}
+
+interface ProfileForm {
+    id?: string; // Set when editing
+    name: string;
+    birthYear: string;
+    sex: '' | NonNullable<ProfileDemographics['sex']>;
+    educationYears: string;
+}
+
+const EMPTY_PROFILE_FORM: ProfileForm = { name: '', birthYear: '', sex: '', educationYears: '' };
+
+function describeProfile(profile: Profile): string {
+    const parts = [
+        profile.birthYear && `born ${profile.birthYear}`,
+        profile.sex,
+        profile.educationYears !== undefined && `${profile.educationYears} yrs education`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : 'No details';
+}
+
 interface UserPreferences {
     emailNotifications: boolean;
     lastReminderSent?: Date;
@@ -25,8 +83,28 @@ export function Settings() {
     const [saving, setSaving] = useState(false);
     const [sendingTest, setSendingTest] = useState(false);
     const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+    const { profiles, activeProfile, switchProfile, addProfile, editProfile, deleteProfile } = useProfiles();
+    const [profileForm, setProfileForm] = useState<ProfileForm | null>(null);
+    const [aggregations, setAggregations] = useState(readAggregations);
+    const [exporting, setExporting] = useState(false);
+    const [encrypted, setEncrypted] = useState(isEncryptionEnabled);
+    const [passphrase, setPassphrase] = useState('');
+    const [passphraseConfirm, setPassphraseConfirm] = useState('');
+    const [encrypting, setEncrypting] = useState(false);
+    const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+    const [importing, setImporting] = useState(false);
+    const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>(() => getQuarantinedRecords());
+    const [activeEpoch, setActiveEpoch] = useState(() => getActiveEpoch());
+    const [resetReason, setResetReason] = useState<UserResetReason>('new_device');
     const emailConfigured = isEmailConfigured();
 
+    useEffect(() => {
+        // Resets synced from another device or a profile switch change the active epoch
+        const refreshEpoch = () => setActiveEpoch(getActiveEpoch());
+        window.addEventListener(RESULTS_UPDATED_EVENT, refreshEpoch);
+        return () => window.removeEventListener(RESULTS_UPDATED_EVENT, refreshEpoch);
+    }, []);
+
     useEffect(() => {
         if (!user) return;
 
@@ -113,6 +191,160 @@ export function Settings() {
         }
     };
 
+    const handleSaveProfile = () => {
+        if (!profileForm || !profileForm.name.trim()) {
+            setMessage({ type: 'error', text: 'Please enter a name' });
+            return;
+        }
+
+        const demographics: ProfileDemographics = {
+            birthYear: profileForm.birthYear ? Number(profileForm.birthYear) : undefined,
+            sex: profileForm.sex || undefined,
+            educationYears: profileForm.educationYears ? Number(profileForm.educationYears) : undefined,
+        };
+
+        if (profileForm.id) {
+            editProfile(profileForm.id, { name: profileForm.name.trim(), ...demographics });
+        } else {
+            addProfile(profileForm.name, demographics);
+        }
+        setProfileForm(null);
+    };
+
+    const handleDeleteProfile = async (profile: Profile) => {
+        if (!window.confirm(
+            `Delete ${profile.name} and all of their results on this device? This cannot be undone.`
+        )) return;
+        await deleteProfile(profile.id);
+    };
+
+    const handleAggregationChange = (domain: ResultDomain, aggregation: DailyAggregation) => {
+        setDailyAggregation(domain, aggregation);
+        setAggregations(readAggregations());
+    };
+
+    const handleResetBaseline = () => {
+        if (!window.confirm(
+            `Start a new baseline for ${activeProfile.name}? Your next sessions become the reference for trends and risk. Earlier results stay in your history.`
+        )) return;
+        const epoch = resetBaseline(resetReason, activeProfile.id);
+        setActiveEpoch(epoch);
+        setMessage({ type: 'success', text: `Baseline reset. Your next ${epoch.baselineSessions} sessions form the new baseline.` });
+    };
+
+    const handleExport = async (format: 'json' | 'csv') => {
+        setExporting(true);
+        setMessage(null);
+
+        try {
+            const bundle = await buildExportBundle();
+            const date = bundle.exportedAt.slice(0, 10);
+
+            if (format === 'json') {
+                downloadFile(`cognitrack-export-${date}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+            } else {
+                bundleToCsvFiles(bundle).forEach((file) =>
+                    downloadFile(`cognitrack-${date}-${file.filename}`, file.content, file.mimeType)
+                );
+            }
+        } catch (error) {
+            console.error('Error exporting data:', error);
+            setMessage({ type: 'error', text: 'Failed to export data' });
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const handleImportFile = async (file: File | undefined) => {
+        if (!file) return;
+        setMessage(null);
+        setImportPreview(null);
+
+        try {
+            setImportPreview(await previewImport(await file.text()));
+        } catch (error) {
+            console.error('Error reading import file:', error);
+            setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to read file' });
+        }
+    };
+
+    const handleConfirmImport = async () => {
+        if (!importPreview) return;
+        setImporting(true);
+
+        try {
+            const added = await applyImport(importPreview);
+            setMessage({ type: 'success', text: `Imported ${added} result(s).` });
+            setImportPreview(null);
+        } catch (error) {
+            console.error('Error importing data:', error);
+            setMessage({ type: 'error', text: 'Failed to import data' });
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const handleEnableEncryption = async () => {
+        if (passphrase.length < 8) {
+            setMessage({ type: 'error', text: 'Use a passphrase of at least 8 characters' });
+            return;
+        }
+        if (passphrase !== passphraseConfirm) {
+            setMessage({ type: 'error', text: 'Passphrases do not match' });
+            return;
+        }
+        if (!window.confirm(
+            'If you forget this passphrase, the results stored on this device cannot be recovered. ' +
+            'Consider exporting a backup first. Continue?'
+        )) return;
+
+        setEncrypting(true);
+        setMessage(null);
+        try {
+            await turnOnEncryption(passphrase);
+            setEncrypted(true);
+            setPassphrase('');
+            setPassphraseConfirm('');
+            setMessage({ type: 'success', text: 'Your results are now encrypted on this device.' });
+        } catch (error) {
+            console.error('Error enabling encryption:', error);
+            setMessage({ type: 'error', text: 'Failed to encrypt results' });
+        } finally {
+            setEncrypting(false);
+        }
+    };
+
+    const handleDisableEncryption = async () => {
+        if (!window.confirm('Store your results on this device without encryption?')) return;
+
+        setEncrypting(true);
+        setMessage(null);
+        try {
+            await turnOffEncryption();
+            setEncrypted(false);
+            setMessage({ type: 'success', text: 'Encryption turned off.' });
+        } catch (error) {
+            console.error('Error disabling encryption:', error);
+            setMessage({ type: 'error', text: 'Failed to turn off encryption' });
+        } finally {
+            setEncrypting(false);
+        }
+    };
+
+    const handleDownloadQuarantine = () => {
+        downloadFile(
+            `cognitrack-quarantine-${new Date().toISOString().slice(0, 10)}.json`,
+            JSON.stringify(quarantined, null, 2),
+            'application/json'
+        );
+    };
+
+    const handleDiscardQuarantine = () => {
+        if (!window.confirm('Permanently discard the unreadable records? This cannot be undone.')) return;
+        clearQuarantine();
+        setQuarantined([]);
+    };
+
     if (loading) {
         return (
             <PageWrapper>
@@ -197,6 +429,319 @@ export function Settings() {
                     )}
                 </section>
 
+                <section className="settings-section" id="profiles">
+                    <h2>Profiles</h2>
+                    <p className="setting-description">
+                        Test several people on this device. Each profile has its own results, trends and reminders.
+                    </p>
+                    {profiles.map((profile) => (
+                        <div className="setting-item" key={profile.id}>
+                            <div className="setting-info">
+                                <span className="setting-label">
+                                    {profile.name}
+                                    {profile.id === activeProfile.id && ' (active)'}
+                                </span>
+                                <span className="setting-description">{describeProfile(profile)}</span>
+                            </div>
+                            <div className="setting-actions">
+                                {profile.id !== activeProfile.id && (
+                                    <button className="btn btn-secondary btn-sm" onClick={() => switchProfile(profile.id)}>
+                                        Switch
+                                    </button>
+                                )}
+                                <button
+                                    className="btn btn-secondary btn-sm"
+                                    onClick={() => setProfileForm({
+                                        id: profile.id,
+                                        name: profile.name,
+                                        birthYear: profile.birthYear?.toString() ?? '',
+                                        sex: profile.sex ?? '',
+                                        educationYears: profile.educationYears?.toString() ?? '',
+                                    })}
+                                >
+                                    Edit
+                                </button>
+                                {profiles.length > 1 && (
+                                    <button className="btn btn-secondary btn-sm" onClick={() => handleDeleteProfile(profile)}>
+                                        Delete
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+
+                    {profileForm ? (
+                        <div className="profile-form">
+                            <input
+                                className="setting-input"
+                                placeholder="Name"
+                                value={profileForm.name}
+                                onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                            />
+                            <input
+                                className="setting-input"
+                                type="number"
+                                placeholder="Birth year (optional)"
+                                value={profileForm.birthYear}
+                                onChange={(e) => setProfileForm({ ...profileForm, birthYear: e.target.value })}
+                            />
+                            <select
+                                className="setting-select"
+                                value={profileForm.sex}
+                                onChange={(e) => setProfileForm({ ...profileForm, sex: e.target.value as ProfileForm['sex'] })}
+                            >
+                                <option value="">Sex (optional)</option>
+                                <option value="female">Female</option>
+                                <option value="male">Male</option>
+                                <option value="other">Other</option>
+                            </select>
+                            <input
+                                className="setting-input"
+                                type="number"
+                                placeholder="Years of education (optional)"
+                                value={profileForm.educationYears}
+                                onChange={(e) => setProfileForm({ ...profileForm, educationYears: e.target.value })}
+                            />
+                            <div className="setting-actions">
+                                <button className="btn btn-primary btn-sm" onClick={handleSaveProfile}>
+                                    {profileForm.id ? 'Save' : 'Add Profile'}
+                                </button>
+                                <button className="btn btn-secondary btn-sm" onClick={() => setProfileForm(null)}>
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button className="btn btn-secondary btn-sm" onClick={() => setProfileForm(EMPTY_PROFILE_FORM)}>
+                            Add Profile
+                        </button>
+                    )}
+                </section>
+
+                <section className="settings-section">
+                    <h2>Privacy</h2>
+                    <div className="setting-item">
+                        <div className="setting-info">
+                            <span className="setting-label">Encrypt Results on This Device</span>
+                            <span className="setting-description">
+                                {encrypted
+                                    ? 'Your scores and transcripts are encrypted. You will be asked for your passphrase each visit.'
+                                    : 'Protect scores and transcripts with a passphrase, e.g. on a shared computer.'}
+                            </span>
+                        </div>
+                        {encrypted && (
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={handleDisableEncryption}
+                                disabled={encrypting}
+                            >
+                                Turn Off
+                            </button>
+                        )}
+                    </div>
+
+                    {!encrypted && (
+                        <div className="encryption-form">
+                            <input
+                                className="setting-input"
+                                type="password"
+                                autoComplete="new-password"
+                                placeholder="Passphrase"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                            />
+                            <input
+                                className="setting-input"
+                                type="password"
+                                autoComplete="new-password"
+                                placeholder="Confirm passphrase"
+                                value={passphraseConfirm}
+                                onChange={(e) => setPassphraseConfirm(e.target.value)}
+                            />
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={handleEnableEncryption}
+                                disabled={encrypting || !passphrase}
+                            >
+                                {encrypting ? 'Encrypting...' : 'Encrypt'}
+                            </button>
+                            <div className="setting-notice">
+                                <span className="notice-icon">⚠️</span>
+                                <span>
+                                    There is no way to recover a forgotten passphrase. Results that are not synced
+                                    to your account or exported would be lost.
+                                </span>
+                            </div>
+                        </div>
+                    )}
+                </section>
+
+                <section className="settings-section">
+                    <h2>Daily Results</h2>
+                    <p className="setting-description">
+                        Every attempt is saved. Choose how several attempts on the same day count towards your trends.
+                    </p>
+                    {RESULT_DOMAINS.map((domain) => (
+                        <div className="setting-item" key={domain}>
+                            <div className="setting-info">
+                                <span className="setting-label">{RESULT_DOMAIN_LABELS[domain]}</span>
+                            </div>
+                            <select
+                                className="setting-select"
+                                value={aggregations[domain]}
+                                onChange={(e) => handleAggregationChange(domain, e.target.value as DailyAggregation)}
+                            >
+                                {DAILY_AGGREGATIONS.map((aggregation) => (
+                                    <option key={aggregation} value={aggregation}>
+                                        {AGGREGATION_LABELS[aggregation]}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </section>
+
+                <section className="settings-section">
+                    <h2>Baseline</h2>
+                    <p className="setting-description">
+                        {activeEpoch.reason === 'initial'
+                            ? `Your baseline is your first ${activeEpoch.baselineSessions} sessions.`
+                            : `${BASELINE_EPOCH_REASON_LABELS[activeEpoch.reason]} on ${new Date(activeEpoch.startedAt).toLocaleDateString()}; the first ${activeEpoch.baselineSessions} sessions since then form your baseline.`}
+                    </p>
+                    <div className="setting-item">
+                        <div className="setting-info">
+                            <span className="setting-label">Reset Baseline</span>
+                            <span className="setting-description">
+                                Start over when your results are no longer comparable, e.g. on a new device or
+                                after a change in medication. Earlier sessions stay viewable but no longer count
+                                towards trends or risk.
+                            </span>
+                        </div>
+                        <div className="setting-actions">
+                            <select
+                                className="setting-select"
+                                value={resetReason}
+                                onChange={(e) => setResetReason(e.target.value as UserResetReason)}
+                            >
+                                <option value="new_device">New device</option>
+                                <option value="user_reset">Other reason</option>
+                            </select>
+                            <button className="btn btn-secondary btn-sm" onClick={handleResetBaseline}>
+                                Reset Baseline
+                            </button>
+                        </div>
+                    </div>
+                </section>
+
+                <section className="settings-section">
+                    <h2>Your Data</h2>
+                    <div className="setting-item">
+                        <div className="setting-info">
+                            <span className="setting-label">Export Results</span>
+                            <span className="setting-description">
+                                Download all test results of the active profile. JSON keeps everything (rounds, transcripts)
+                                and can be imported again; CSV gives one spreadsheet per test plus a manifest
+                                describing each column.
+                            </span>
+                        </div>
+                        <div className="setting-actions">
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => handleExport('json')}
+                                disabled={exporting}
+                            >
+                                JSON
+                            </button>
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => handleExport('csv')}
+                                disabled={exporting}
+                            >
+                                CSV
+                            </button>
+                        </div>
+                    </div>
+                    <div className="setting-item">
+                        <div className="setting-info">
+                            <span className="setting-label">Import Results</span>
+                            <span className="setting-description">
+                                Restore results from a CogniTrack JSON export. Results you already have are skipped.
+                            </span>
+                        </div>
+                        <label className="btn btn-secondary btn-sm">
+                            Choose File
+                            <input
+                                type="file"
+                                accept="application/json,.json"
+                                hidden
+                                onChange={(e) => {
+                                    handleImportFile(e.target.files?.[0]);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                    </div>
+
+                    {importPreview && (
+                        <div className="import-preview">
+                            <p>
+                                Export from {importPreview.exportedAt
+                                    ? new Date(importPreview.exportedAt).toLocaleString()
+                                    : 'an unknown date'}:
+                            </p>
+                            <ul>
+                                {importPreview.domains.map((d) => (
+                                    <li key={d.domain}>
+                                        <strong>{d.domain}</strong>: {d.toAdd.length} new
+                                        {d.duplicates > 0 && `, ${d.duplicates} already present`}
+                                        {d.invalid.length > 0 && `, ${d.invalid.length} invalid (${d.invalid[0].reason})`}
+                                    </li>
+                                ))}
+                            </ul>
+                            <div className="setting-actions">
+                                <button
+                                    className="btn btn-primary btn-sm"
+                                    onClick={handleConfirmImport}
+                                    disabled={importing || importPreview.totalToAdd === 0}
+                                >
+                                    {importing ? 'Importing...' : `Import ${importPreview.totalToAdd} result(s)`}
+                                </button>
+                                <button
+                                    className="btn btn-secondary btn-sm"
+                                    onClick={() => setImportPreview(null)}
+                                    disabled={importing}
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </section>
+
+                {quarantined.length > 0 && (
+                    <section className="settings-section">
+                        <h2>Data Integrity</h2>
+                        <div className="setting-item">
+                            <div className="setting-info">
+                                <span className="setting-label">Unreadable Records</span>
+                                <span className="setting-description">
+                                    {quarantined.length} stored result(s) could not be read and were set aside
+                                    ({Array.from(new Set(quarantined.map((r) => r.domain))).join(', ')}).
+                                    They are excluded from your trends.
+                                </span>
+                            </div>
+                            <div className="setting-actions">
+                                <button className="btn btn-secondary btn-sm" onClick={handleDownloadQuarantine}>
+                                    Download
+                                </button>
+                                <button className="btn btn-secondary btn-sm" onClick={handleDiscardQuarantine}>
+                                    Discard
+                                </button>
+                            </div>
+                        </div>
+                    </section>
+                )}
+
                 {message && (
                     <div className={`settings-message ${message.type}`}>
                         {message.text}
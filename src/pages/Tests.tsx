@@ -4,6 +4,9 @@ import { Card, Button, Icon, GoogleSignInButton } from "../components/common";
 import type { IconName } from "../components/common";
 import { useAuth } from "../contexts/AuthContext";
 import { PageWrapper } from "../components/layout";
+import { CheckInForm } from "../components/tests/checkin/CheckInForm";
+import { endBattery, getOpenBattery, setBatteryContext, startBatteryTest } from "../storage";
+import type { SessionContext } from "../types/contextTypes";
 import "./Tests.css";
 
 type TestType = "memory" | "reaction" | "pattern" | "language";
@@ -51,8 +54,24 @@ export function Tests() {
     const navigate = useNavigate();
     const [selectedTest, setSelectedTest] = useState<TestType | null>(null);
     const { isAuthenticated, loading } = useAuth();
+    // Tests taken within a couple of hours of each other form one battery session
+    const [openBattery, setOpenBattery] = useState(() => getOpenBattery());
+    const takenThisSession = openBattery?.order ?? [];
+    const [checkInSkipped, setCheckInSkipped] = useState(false);
+
+    const handleEndSession = () => {
+        endBattery();
+        setOpenBattery(null);
+        setCheckInSkipped(false);
+    };
+
+    const handleCheckIn = (context: SessionContext) => {
+        setBatteryContext(context);
+        setOpenBattery(getOpenBattery());
+    };
 
     const handleStartTest = (testId: TestType) => {
+        startBatteryTest();
         if (testId === "pattern") {
             navigate(`/tests/pattern`);
         } else {
@@ -93,6 +112,31 @@ export function Tests() {
                     )}
                 </div>
 
+                {!openBattery?.context && !checkInSkipped && (
+                    <CheckInForm onSave={handleCheckIn} onSkip={() => setCheckInSkipped(true)} />
+                )}
+
+                {openBattery?.context && takenThisSession.length === 0 && (
+                    <p className="tests-checkin-saved text-secondary">
+                        ✓ Check-in saved. It will be stored with the tests you take now.
+                    </p>
+                )}
+
+                {takenThisSession.length > 0 && (
+                    <div className="tests-signin-card tests-battery-card glass-card animate-fadeIn">
+                        <div className="tests-signin-header">
+                            <Icon name="clock" size={20} />
+                            <h3>Session in Progress</h3>
+                        </div>
+                        <p className="tests-signin-text">
+                            {takenThisSession.length} of {TESTS.length} tests done. Take the remaining tests now so your results are analyzed together.
+                        </p>
+                        <Button variant="secondary" onClick={handleEndSession}>
+                            End Session
+                        </Button>
+                    </div>
+                )}
+
                 <div className="tests-grid">
                     {TESTS.map((test, index) => (
                         <Card
@@ -112,6 +156,12 @@ export function Tests() {
                                     <Icon name="clock" size={14} />
                                     {test.duration}
                                 </span>
+                                {takenThisSession.includes(test.id) && (
+                                    <span className="test-duration test-done">
+                                        <Icon name="check" size={14} />
+                                        Done this session
+                                    </span>
+                                )}
                             </div>
                             <Button
                                 variant="secondary"
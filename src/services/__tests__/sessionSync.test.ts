@@ -0,0 +1,90 @@
+/**
+ * Unit tests for Session Sync
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setDoc, getDocs } from 'firebase/firestore';
+import { flushSyncQueue, getPendingSyncCount, queueSessionSync, syncSessions } from '../sessionSync';
+import { getQuarantinedRecords, getResultRepository } from '../../storage';
+import type { AnyStoredResult } from '../../storage';
+
+vi.mock('firebase/firestore', () => ({
+    collection: vi.fn(),
+    doc: vi.fn((_db, ...path: string[]) => path.join('/')),
+    getDocs: vi.fn(),
+    setDoc: vi.fn(),
+    serverTimestamp: vi.fn(),
+}));
+
+vi.mock('../../lib/firebase', () => ({
+    auth: { currentUser: { uid: 'user-1' } },
+    db: {},
+    isFirebaseConfigured: () => true,
+}));
+
+vi.mock('../baselineEpochSync', () => ({ syncBaselineEpochs: vi.fn() }));
+
+const memoryResult = {
+    sessionId: 'session-1',
+    timestamp: new Date(2026, 2, 12, 9),
+    totalWords: 10,
+    correctCount: 8,
+    accuracy: 0.8,
+} as unknown as AnyStoredResult;
+
+// A remote document whose result fails validation
+function snapshotWithBrokenDoc() {
+    const docs = [{ id: 'memory_broken', data: () => ({ domain: 'memory', result: { sessionId: 'broken' } }) }];
+    return { forEach: (fn: (d: (typeof docs)[number]) => void) => docs.forEach(fn) };
+}
+
+describe('syncSessions', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        vi.clearAllMocks();
+        vi.stubGlobal('navigator', { onLine: true });
+    });
+
+    it('should quarantine a rejected remote document once across syncs', async () => {
+        vi.mocked(getDocs).mockResolvedValue(snapshotWithBrokenDoc() as never);
+
+        await syncSessions('user-1');
+        await syncSessions('user-1');
+
+        const quarantined = getQuarantinedRecords();
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0].sourceId).toBe('memory_broken');
+    });
+});
+
+describe('flushSyncQueue', () => {
+    beforeEach(async () => {
+        localStorage.clear();
+        vi.clearAllMocks();
+        vi.stubGlobal('navigator', { onLine: true });
+        vi.mocked(getDocs).mockResolvedValue({ forEach: () => {} } as never);
+        // Claims the local data for user-1
+        await syncSessions('user-1');
+        await getResultRepository('memory').replaceAll([memoryResult]);
+    });
+
+    it('should keep a result re-saved while it was being written', async () => {
+        vi.mocked(setDoc).mockImplementationOnce(async () => {
+            // Re-saved offline mid-flush, so the nested flush does nothing
+            vi.stubGlobal('navigator', { onLine: false });
+            queueSessionSync('memory', memoryResult);
+            vi.stubGlobal('navigator', { onLine: true });
+        });
+        vi.stubGlobal('navigator', { onLine: false });
+        queueSessionSync('memory', memoryResult);
+        vi.stubGlobal('navigator', { onLine: true });
+
+        await flushSyncQueue();
+        expect(setDoc).toHaveBeenCalledTimes(1);
+        expect(getPendingSyncCount()).toBe(1);
+
+        await flushSyncQueue();
+        expect(setDoc).toHaveBeenCalledTimes(2);
+        expect(getPendingSyncCount()).toBe(0);
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Baseline Epoch Sync
+ * Replicates baseline resets to users/{uid}/baselineEpochs/{id}, so every
+ * device of an account assesses against the same baseline.
+ *
+ * An admin resets a user's baseline by writing an epoch there without a
+ * profile; it applies to all of that account's profiles on their next sync.
+ */
+
+import { collection, doc, getDocs, setDoc, serverTimestamp } from 'firebase/firestore';
+import { auth, db, isFirebaseConfigured } from '../lib/firebase';
+import {
+    BASELINE_EPOCH_REASON_LABELS,
+    DEFAULT_BASELINE_SESSIONS,
+    createBaselineEpoch,
+    getActiveProfileId,
+    getProfiles,
+    loadBaselineEpochs,
+    mergeBaselineEpochs,
+    startBaselineEpoch,
+} from '../storage';
+import type { BaselineEpoch, BaselineEpochReason } from '../storage';
+import { logger } from '../utils/logger';
+
+const EPOCHS_COLLECTION = 'baselineEpochs';
+
+/** Reasons a user can give for resetting their own baseline. */
+export type UserResetReason = Extract<BaselineEpochReason, 'new_device' | 'user_reset'>;
+
+async function uploadEpoch(uid: string, epoch: BaselineEpoch, profileId: string | null): Promise<void> {
+    await setDoc(doc(db, 'users', uid, EPOCHS_COLLECTION, epoch.id), {
+        ...epoch,
+        profileId,
+        createdBy: auth.currentUser?.uid ?? null,
+        createdAt: serverTimestamp(),
+    });
+}
+
+function toEpoch(data: Record<string, unknown>): BaselineEpoch | null {
+    const { id, startedAt, reason, baselineSessions } = data;
+    if (typeof id !== 'string' || typeof startedAt !== 'string' || isNaN(new Date(startedAt).getTime())) return null;
+    if (typeof reason !== 'string' || !(reason in BASELINE_EPOCH_REASON_LABELS)) return null;
+    return {
+        id,
+        startedAt,
+        reason: reason as BaselineEpochReason,
+        baselineSessions: typeof baselineSessions === 'number' && baselineSessions > 0 ? baselineSessions : DEFAULT_BASELINE_SESSIONS,
+    };
+}
+
+/**
+ * Starts a new baseline epoch for a profile and uploads it when signed in.
+ */
+export function resetBaseline(reason: UserResetReason, profileId: string = getActiveProfileId()): BaselineEpoch {
+    const epoch = startBaselineEpoch(reason, profileId);
+    logger.info(`Baseline reset (${reason}) for profile ${profileId}`);
+
+    const uid = auth.currentUser?.uid;
+    if (uid && isFirebaseConfigured()) {
+        uploadEpoch(uid, epoch, profileId).catch((error) => logger.warn('Failed to sync baseline reset:', error));
+    }
+    return epoch;
+}
+
+/**
+ * Admin action: starts a new baseline epoch for every profile of a user.
+ */
+export async function adminResetBaseline(targetUid: string): Promise<BaselineEpoch> {
+    if (!isFirebaseConfigured()) {
+        throw new Error('Firebase is not configured');
+    }
+    const epoch = createBaselineEpoch('admin_reset');
+    await uploadEpoch(targetUid, epoch, null);
+    return epoch;
+}
+
+/**
+ * Two-way epoch sync, run with the session sync on sign-in.
+ * Pulls remote epochs into the local profiles, then uploads local-only ones.
+ */
+export async function syncBaselineEpochs(uid: string): Promise<void> {
+    if (!isFirebaseConfigured() || !navigator.onLine) return;
+
+    const snapshot = await getDocs(collection(db, 'users', uid, EPOCHS_COLLECTION));
+    const remote: { epoch: BaselineEpoch; profileId: string | null }[] = [];
+    snapshot.forEach((docSnap) => {
+        const data = docSnap.data();
+        const epoch = toEpoch(data);
+        if (epoch) remote.push({ epoch, profileId: typeof data.profileId === 'string' ? data.profileId : null });
+    });
+    const remoteIds = new Set(remote.map((r) => r.epoch.id));
+
+    for (const { id: profileId } of getProfiles()) {
+        // Admin resets carry no profile and apply to all of them
+        mergeBaselineEpochs(
+            remote.filter((r) => r.profileId === profileId || r.profileId === null).map((r) => r.epoch),
+            profileId
+        );
+
+        const localOnly = loadBaselineEpochs(profileId)
+            .filter((epoch) => epoch.reason !== 'initial' && epoch.reason !== 'admin_reset' && !remoteIds.has(epoch.id));
+        for (const epoch of localOnly) {
+            await uploadEpoch(uid, epoch, profileId);
+        }
+    }
+}
@@ -0,0 +1,359 @@
+/**
+ * Data Export Service
+ * Builds a portable copy of all stored test results.
+ *
+ * - JSON bundle: every domain's full results (rounds, transcripts) plus a manifest.
+ *   This is the lossless format and the one the import flow reads.
+ * - CSV files: one flattened table per domain, plus round-level tables,
+ *   for spreadsheets and statistics packages.
+ */
+
+import type { ReactionTestResult } from '../components/tests/reaction/reactionFeatures';
+import type { RoundResult } from '../components/tests/reaction/reactionLogic';
+import type { PatternAssessmentResult, PatternRoundData } from '../types/patternTypes';
+import type { LanguageAssessmentResult } from '../types/languageTypes';
+import type { MemoryTestResult } from '../hooks/useTestResults';
+import type { SessionContext } from '../types/contextTypes';
+import { RESULT_DOMAINS, RESULT_REPOSITORIES, getActiveProfile } from '../storage';
+import type { DomainResultMap, ResultDomain } from '../storage';
+
+export const EXPORT_FORMAT = 'cognitrack-export';
+export const EXPORT_VERSION = 1;
+
+interface CsvColumn<T> {
+    name: string;
+    description: string;
+    unit?: string;
+    value: (row: T) => string | number | boolean | null | undefined;
+}
+
+interface CsvTable<T> {
+    file: string;
+    description: string;
+    columns: CsvColumn<T>[];
+}
+
+export interface ManifestTable {
+    file: string;
+    description: string;
+    columns: { name: string; description: string; unit?: string }[];
+}
+
+export interface ExportManifest {
+    /** JSON field meanings per domain (units in brackets). */
+    domains: Record<ResultDomain, { description: string; schemaVersion: number; fields: Record<string, string> }>;
+    csvTables: ManifestTable[];
+}
+
+export interface ExportBundle {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string; // ISO 8601
+    /** The local profile the results belong to. */
+    profile: { id: string; name: string };
+    manifest: ExportManifest;
+    data: { [D in ResultDomain]: DomainResultMap[D][] };
+}
+
+export interface ExportFile {
+    filename: string;
+    content: string;
+    mimeType: string;
+}
+
+const iso = (timestamp: Date) => new Date(timestamp).toISOString();
+
+/**
+ * Pre-test check-in answers, shared by every session table (empty if not answered).
+ */
+function contextColumns<T extends { context?: SessionContext }>(): CsvColumn<T>[] {
+    return [
+        { name: 'sleep_hours', description: 'Check-in: hours slept the night before', unit: 'h', value: (r) => r.context?.sleepHours },
+        { name: 'hours_awake', description: 'Check-in: time since waking', unit: 'h', value: (r) => r.context?.hoursAwake },
+        { name: 'caffeine_drinks', description: 'Check-in: caffeinated drinks that day', unit: 'count', value: (r) => r.context?.caffeineDrinks },
+        { name: 'alcohol_drinks', description: 'Check-in: alcoholic drinks in the last 24 hours', unit: 'count', value: (r) => r.context?.alcoholDrinks },
+        { name: 'mood', description: 'Check-in: mood (1 very low, 3 neutral, 5 very good)', unit: '1-5', value: (r) => r.context?.mood },
+        { name: 'pain', description: 'Check-in: pain (0 none, 3 severe)', unit: '0-3', value: (r) => r.context?.pain },
+    ];
+}
+
+const REACTION_TABLE: CsvTable<ReactionTestResult> = {
+    file: 'reaction_sessions.csv',
+    description: 'One row per reaction time test session.',
+    columns: [
+        { name: 'session_id', description: 'Session identifier', value: (r) => r.sessionId },
+        { name: 'timestamp', description: 'Session completion time', unit: 'ISO 8601', value: (r) => iso(r.timestamp) },
+        { name: 'battery_id', description: 'Battery session the test was taken in (empty if none)', value: (r) => r.batteryId },
+        { name: 'invalid_reason', description: 'Reason the session was flagged invalid (empty if valid)', value: (r) => r.validity?.invalid ? r.validity.reason : '' },
+        ...contextColumns<ReactionTestResult>(),
+        { name: 'avg_ms', description: 'Mean reaction time over scored rounds', unit: 'ms', value: (r) => r.aggregates.avg },
+        { name: 'median_ms', description: 'Median reaction time', unit: 'ms', value: (r) => r.aggregates.median },
+        { name: 'variance_ms2', description: 'Variance of reaction times', unit: 'ms²', value: (r) => r.aggregates.variance },
+        { name: 'min_ms', description: 'Fastest reaction', unit: 'ms', value: (r) => r.aggregates.min },
+        { name: 'max_ms', description: 'Slowest reaction', unit: 'ms', value: (r) => r.aggregates.max },
+        { name: 'consistency_score', description: 'Consistency score', unit: '0-100', value: (r) => r.aggregates.consistencyScore },
+        { name: 'fatigue_slope', description: 'Change in reaction time per round (positive = slowing)', unit: 'ms/round', value: (r) => r.aggregates.fatigueSlope },
+        { name: 'false_starts', description: 'Clicks before the stimulus', unit: 'count', value: (r) => r.falseStartCount },
+        { name: 'missed_stimuli', description: 'Rounds with no response before timeout', unit: 'count', value: (r) => r.missedStimulusCount },
+    ],
+};
+
+type ReactionRoundRow = RoundResult & { sessionId: string };
+
+const REACTION_ROUNDS_TABLE: CsvTable<ReactionRoundRow> = {
+    file: 'reaction_rounds.csv',
+    description: 'One row per reaction test round.',
+    columns: [
+        { name: 'session_id', description: 'Session identifier (joins reaction_sessions.csv)', value: (r) => r.sessionId },
+        { name: 'round_index', description: 'Round number within the session', unit: '0-based', value: (r) => r.roundIndex },
+        { name: 'reaction_time_ms', description: 'Reaction time (empty for false starts and timeouts)', unit: 'ms', value: (r) => r.reactionTime },
+        { name: 'is_false_start', description: 'Clicked before the stimulus', value: (r) => r.isFalseStart },
+        { name: 'is_timeout', description: 'No response before timeout', value: (r) => r.isTimeout },
+        { name: 'is_calibration', description: 'Warm-up round excluded from scoring', value: (r) => r.isCalibration },
+    ],
+};
+
+const MEMORY_TABLE: CsvTable<MemoryTestResult> = {
+    file: 'memory_sessions.csv',
+    description: 'One row per word recall session.',
+    columns: [
+        { name: 'session_id', description: 'Session identifier', value: (r) => r.sessionId },
+        { name: 'timestamp', description: 'Session completion time', unit: 'ISO 8601', value: (r) => iso(r.timestamp) },
+        { name: 'battery_id', description: 'Battery session the test was taken in (empty if none)', value: (r) => r.batteryId },
+        { name: 'invalid_reason', description: 'Reason the session was flagged invalid (empty if valid)', value: (r) => r.validity?.invalid ? r.validity.reason : '' },
+        ...contextColumns<MemoryTestResult>(),
+        { name: 'total_words', description: 'Words presented', unit: 'count', value: (r) => r.totalWords },
+        { name: 'correct_count', description: 'Words recalled correctly', unit: 'count', value: (r) => r.correctCount },
+        { name: 'accuracy', description: 'correct_count / total_words', unit: '0-1', value: (r) => r.accuracy },
+    ],
+};
+
+const PATTERN_TABLE: CsvTable<PatternAssessmentResult> = {
+    file: 'pattern_sessions.csv',
+    description: 'One row per pattern recognition session.',
+    columns: [
+        { name: 'id', description: 'Result identifier', value: (r) => r.id },
+        { name: 'session_id', description: 'Session identifier', value: (r) => r.sessionId },
+        { name: 'timestamp', description: 'Session completion time', unit: 'ISO 8601', value: (r) => iso(r.timestamp) },
+        { name: 'battery_id', description: 'Battery session the test was taken in (empty if none)', value: (r) => r.batteryId },
+        { name: 'invalid_reason', description: 'Reason the session was flagged invalid (empty if valid)', value: (r) => r.validity?.invalid ? r.validity.reason : '' },
+        ...contextColumns<PatternAssessmentResult>(),
+        { name: 'max_level', description: 'Highest level reached', unit: 'level', value: (r) => r.metrics.maxLevelReached },
+        { name: 'total_rounds', description: 'Rounds played', unit: 'count', value: (r) => r.metrics.totalRounds },
+        { name: 'correct_rounds', description: 'Rounds answered correctly', unit: 'count', value: (r) => r.metrics.correctRounds },
+        { name: 'avg_response_latency_ms', description: 'Mean time to first tap', unit: 'ms', value: (r) => r.metrics.averageResponseLatency },
+        { name: 'avg_completion_time_ms', description: 'Mean time to finish input', unit: 'ms', value: (r) => r.metrics.averageCompletionTime },
+        { name: 'input_errors', description: 'Wrong tiles tapped', unit: 'count', value: (r) => r.metrics.inputErrors },
+        { name: 'false_inputs', description: 'Inputs outside the sequence', unit: 'count', value: (r) => r.metrics.falseInputs },
+        { name: 'retries', description: 'Retried rounds', unit: 'count', value: (r) => r.metrics.retries },
+        { name: 'sequence_accuracy_trend', description: 'Slope of accuracy across rounds', unit: 'per round', value: (r) => r.derivedFeatures.sequenceAccuracyTrend },
+        { name: 'learning_rate', description: 'Improvement over rounds', value: (r) => r.derivedFeatures.learningRate },
+        { name: 'error_growth_rate', description: 'Error increase as difficulty rises', value: (r) => r.derivedFeatures.errorGrowthRate },
+        { name: 'memory_load_tolerance', description: 'Performance at maximum sequence length', unit: '0-1', value: (r) => r.derivedFeatures.memoryLoadTolerance },
+        { name: 'pattern_stability_index', description: 'Consistency across rounds', unit: '0-1', value: (r) => r.derivedFeatures.patternStabilityIndex },
+    ],
+};
+
+type PatternRoundRow = PatternRoundData & { sessionId: string };
+
+const PATTERN_ROUNDS_TABLE: CsvTable<PatternRoundRow> = {
+    file: 'pattern_rounds.csv',
+    description: 'One row per pattern recognition round.',
+    columns: [
+        { name: 'session_id', description: 'Session identifier (joins pattern_sessions.csv)', value: (r) => r.sessionId },
+        { name: 'level', description: 'Difficulty level', unit: 'level', value: (r) => r.level },
+        { name: 'grid_size', description: 'Grid width and height', unit: 'tiles', value: (r) => r.gridSize },
+        { name: 'sequence_length', description: 'Tiles in the sequence', unit: 'count', value: (r) => r.sequenceLength },
+        { name: 'target_sequence', description: 'Tile indices shown, space separated', value: (r) => r.targetSequence.join(' ') },
+        { name: 'user_input', description: 'Tile indices tapped, space separated', value: (r) => r.userInput.join(' ') },
+        { name: 'is_correct', description: 'Sequence reproduced exactly', value: (r) => r.isCorrect },
+        { name: 'display_time_ms', description: 'Time the sequence was shown', unit: 'ms', value: (r) => r.displayTime },
+        { name: 'response_latency_ms', description: 'Time until first tap', unit: 'ms', value: (r) => r.responseLatency },
+        { name: 'completion_time_ms', description: 'Time to finish input', unit: 'ms', value: (r) => r.completionTime },
+        { name: 'timestamp', description: 'Round time', unit: 'ms since epoch', value: (r) => r.timestamp },
+    ],
+};
+
+const LANGUAGE_TABLE: CsvTable<LanguageAssessmentResult> = {
+    file: 'language_sessions.csv',
+    description: 'One row per speech assessment session.',
+    columns: [
+        { name: 'id', description: 'Result identifier', value: (r) => r.id },
+        { name: 'session_id', description: 'Session identifier', value: (r) => r.sessionId },
+        { name: 'timestamp', description: 'Session completion time', unit: 'ISO 8601', value: (r) => iso(r.timestamp) },
+        { name: 'battery_id', description: 'Battery session the test was taken in (empty if none)', value: (r) => r.batteryId },
+        { name: 'invalid_reason', description: 'Reason the session was flagged invalid (empty if valid)', value: (r) => r.validity?.invalid ? r.validity.reason : '' },
+        ...contextColumns<LanguageAssessmentResult>(),
+        { name: 'word_count', description: 'Words spoken', unit: 'count', value: (r) => r.rawMetrics.wordCount },
+        { name: 'speech_duration_ms', description: 'Speaking time', unit: 'ms', value: (r) => r.rawMetrics.speechDuration },
+        { name: 'pause_count', description: 'Pauses detected', unit: 'count', value: (r) => r.rawMetrics.pauseCount },
+        { name: 'pause_duration_avg_ms', description: 'Mean pause length', unit: 'ms', value: (r) => r.rawMetrics.pauseDurationAvg },
+        { name: 'filler_word_count', description: 'Filler words (um, uh, ...)', unit: 'count', value: (r) => r.rawMetrics.fillerWordCount },
+        { name: 'repetitions', description: 'Repeated words', unit: 'count', value: (r) => r.rawMetrics.repetitions },
+        { name: 'unique_word_count', description: 'Distinct words', unit: 'count', value: (r) => r.rawMetrics.uniqueWordCount },
+        { name: 'wpm', description: 'Speech rate', unit: 'words/min', value: (r) => r.derivedFeatures.wpm },
+        { name: 'lexical_diversity', description: 'Unique words / total words', unit: '0-1', value: (r) => r.derivedFeatures.lexicalDiversity },
+        { name: 'fluency_index', description: 'Fluency composite', unit: '0-1', value: (r) => r.derivedFeatures.fluencyIndex },
+        { name: 'hesitation_index', description: 'Hesitation composite', unit: '0-1', value: (r) => r.derivedFeatures.hesitationIndex },
+        { name: 'speech_stability', description: 'Stability of speech rate', unit: '0-1', value: (r) => r.derivedFeatures.speechStability },
+        { name: 'coherence_proxy', description: 'Coherence estimate', unit: '0-1', value: (r) => r.derivedFeatures.coherenceProxy },
+        { name: 'transcript', description: 'Speech-to-text transcript', value: (r) => r.transcript },
+    ],
+};
+
+const DOMAIN_FIELDS: Record<ResultDomain, { description: string; fields: Record<string, string> }> = {
+    reaction: {
+        description: 'Reaction time test: respond as fast as possible when the stimulus appears.',
+        fields: {
+            sessionId: 'Session identifier',
+            timestamp: 'Completion time (ISO 8601)',
+            batteryId: 'Optional: battery session the test was taken in (shared by the tests of one sitting)',
+            validity: 'Optional: invalid flag, reason and the history of flag changes (changedAt ISO 8601)',
+            context: 'Optional check-in: sleepHours, hoursAwake [h]; caffeineDrinks, alcoholDrinks [count]; mood [1-5]; pain [0-3]; recordedAt (ISO 8601)',
+            rounds: 'Per-round results: reactionTime [ms, null if none], isFalseStart, isTimeout, roundIndex, isCalibration',
+            aggregates: 'avg, median, min, max [ms]; variance [ms²]; consistencyScore [0-100]; fatigueSlope [ms/round]',
+            falseStartCount: 'Clicks before the stimulus [count]',
+            missedStimulusCount: 'Rounds with no response [count]',
+            derivedFeatures: 'Optional: stabilityIndex, fatigueSlope, attentionVariability, baselineDeviation, anomalyScore',
+        },
+    },
+    memory: {
+        description: 'Word recall test: memorise a word list, then recall it.',
+        fields: {
+            sessionId: 'Session identifier',
+            timestamp: 'Completion time (ISO 8601)',
+            batteryId: 'Optional: battery session the test was taken in (shared by the tests of one sitting)',
+            validity: 'Optional: invalid flag, reason and the history of flag changes (changedAt ISO 8601)',
+            context: 'Optional check-in: sleepHours, hoursAwake [h]; caffeineDrinks, alcoholDrinks [count]; mood [1-5]; pain [0-3]; recordedAt (ISO 8601)',
+            totalWords: 'Words presented [count]',
+            correctCount: 'Words recalled correctly [count]',
+            accuracy: 'correctCount / totalWords [0-1]',
+        },
+    },
+    pattern: {
+        description: 'Visual sequence memory test: reproduce tile sequences of increasing length.',
+        fields: {
+            id: 'Result identifier',
+            sessionId: 'Session identifier',
+            timestamp: 'Completion time (ISO 8601)',
+            batteryId: 'Optional: battery session the test was taken in (shared by the tests of one sitting)',
+            validity: 'Optional: invalid flag, reason and the history of flag changes (changedAt ISO 8601)',
+            context: 'Optional check-in: sleepHours, hoursAwake [h]; caffeineDrinks, alcoholDrinks [count]; mood [1-5]; pain [0-3]; recordedAt (ISO 8601)',
+            metrics: 'maxLevelReached [level]; totalRounds, correctRounds, inputErrors, falseInputs, retries [count]; averageResponseLatency, averageCompletionTime [ms]',
+            derivedFeatures: 'sequenceAccuracyTrend, learningRate, errorGrowthRate, memoryLoadTolerance, patternStabilityIndex',
+            rawSequenceData: 'Per-round data: level, gridSize, sequenceLength, targetSequence, userInput, isCorrect, displayTime/responseLatency/completionTime [ms], timestamp [ms since epoch]',
+        },
+    },
+    language: {
+        description: 'Speech assessment: describe a picture aloud; only the transcript is kept, never audio.',
+        fields: {
+            id: 'Result identifier',
+            sessionId: 'Session identifier',
+            timestamp: 'Completion time (ISO 8601)',
+            batteryId: 'Optional: battery session the test was taken in (shared by the tests of one sitting)',
+            validity: 'Optional: invalid flag, reason and the history of flag changes (changedAt ISO 8601)',
+            context: 'Optional check-in: sleepHours, hoursAwake [h]; caffeineDrinks, alcoholDrinks [count]; mood [1-5]; pain [0-3]; recordedAt (ISO 8601)',
+            transcript: 'Speech-to-text transcript',
+            rawMetrics: 'wordCount, pauseCount, fillerWordCount, repetitions, uniqueWordCount [count]; speechDuration, pauseDurationAvg [ms]',
+            derivedFeatures: 'wpm [words/min]; lexicalDiversity, fluencyIndex, hesitationIndex, speechStability, coherenceProxy [0-1]',
+            explainability: 'keyFactors: notable observations about the sample',
+        },
+    },
+};
+
+function describeTable<T>(table: CsvTable<T>): ManifestTable {
+    return {
+        file: table.file,
+        description: table.description,
+        columns: table.columns.map(({ name, description, unit }) => ({ name, description, unit })),
+    };
+}
+
+function escapeCsv(value: string | number | boolean | null | undefined): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as RFC 4180 CSV with a header line.
+ */
+function toCsv<T>(table: CsvTable<T>, rows: T[]): string {
+    const header = table.columns.map((c) => c.name).join(',');
+    const lines = rows.map((row) => table.columns.map((c) => escapeCsv(c.value(row))).join(','));
+    return [header, ...lines].join('\r\n') + '\r\n';
+}
+
+function buildManifest(): ExportManifest {
+    const domains = {} as ExportManifest['domains'];
+    for (const domain of RESULT_DOMAINS) {
+        domains[domain] = { ...DOMAIN_FIELDS[domain], schemaVersion: RESULT_REPOSITORIES[domain].schemaVersion };
+    }
+
+    return {
+        domains,
+        csvTables: [
+            describeTable(REACTION_TABLE),
+            describeTable(REACTION_ROUNDS_TABLE),
+            describeTable(MEMORY_TABLE),
+            describeTable(PATTERN_TABLE),
+            describeTable(PATTERN_ROUNDS_TABLE),
+            describeTable(LANGUAGE_TABLE),
+        ],
+    };
+}
+
+/**
+ * Loads every domain of the active profile and assembles the versioned JSON bundle.
+ */
+export async function buildExportBundle(): Promise<ExportBundle> {
+    const [reaction, memory, pattern, language] = await Promise.all([
+        RESULT_REPOSITORIES.reaction.load(),
+        RESULT_REPOSITORIES.memory.load(),
+        RESULT_REPOSITORIES.pattern.load(),
+        RESULT_REPOSITORIES.language.load(),
+    ]);
+
+    return {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        profile: { id: getActiveProfile().id, name: getActiveProfile().name },
+        manifest: buildManifest(),
+        data: { reaction, memory, pattern, language },
+    };
+}
+
+/**
+ * Flattens a bundle into CSV files plus a manifest describing their columns.
+ */
+export function bundleToCsvFiles(bundle: ExportBundle): ExportFile[] {
+    const { reaction, memory, pattern, language } = bundle.data;
+    const csv = (filename: string, content: string): ExportFile => ({ filename, content, mimeType: 'text/csv' });
+
+    return [
+        csv(REACTION_TABLE.file, toCsv(REACTION_TABLE, reaction)),
+        csv(REACTION_ROUNDS_TABLE.file, toCsv(
+            REACTION_ROUNDS_TABLE,
+            reaction.flatMap((r) => r.rounds.map((round) => ({ ...round, sessionId: r.sessionId })))
+        )),
+        csv(MEMORY_TABLE.file, toCsv(MEMORY_TABLE, memory)),
+        csv(PATTERN_TABLE.file, toCsv(PATTERN_TABLE, pattern)),
+        csv(PATTERN_ROUNDS_TABLE.file, toCsv(
+            PATTERN_ROUNDS_TABLE,
+            pattern.flatMap((r) => r.rawSequenceData.map((round) => ({ ...round, sessionId: r.sessionId })))
+        )),
+        csv(LANGUAGE_TABLE.file, toCsv(LANGUAGE_TABLE, language)),
+        {
+            filename: 'manifest.json',
+            content: JSON.stringify({
+                format: bundle.format,
+                version: bundle.version,
+                exportedAt: bundle.exportedAt,
+                profile: bundle.profile,
+                ...bundle.manifest,
+            }, null, 2),
+            mimeType: 'application/json',
+        },
+    ];
+}
@@ -0,0 +1,131 @@
+/**
+ * Data Import Service
+ * Restores test results from a CogniTrack JSON export bundle.
+ *
+ * Import is two-step: `previewImport` validates every record against the
+ * domain schema and works out what would change, then `applyImport` merges
+ * it into the local history. Results whose sessionId/id is already present
+ * are skipped; everything else is added to the attempts ledger.
+ */
+
+import { EXPORT_FORMAT, EXPORT_VERSION } from './dataExport';
+import { mergeResults, getSessionDocId, queueSessionSync } from './sessionSync';
+import { RESULT_DOMAINS, RESULTS_UPDATED_EVENT, getResultRepository } from '../storage';
+import type { AnyStoredResult, ResultDomain } from '../storage';
+
+export interface DomainImportPreview {
+    domain: ResultDomain;
+    inBundle: number;
+    /** Results that will be added. */
+    toAdd: AnyStoredResult[];
+    /** Already present locally, or repeated within the bundle. */
+    duplicates: number;
+    invalid: { reason: string; raw: unknown }[];
+    /** Full history after the merge. */
+    merged: AnyStoredResult[];
+}
+
+export interface ImportPreview {
+    exportedAt: string | null;
+    domains: DomainImportPreview[];
+    totalToAdd: number;
+    totalInvalid: number;
+}
+
+function getRecordKey(domain: ResultDomain, result: AnyStoredResult): string {
+    return getSessionDocId(domain, result);
+}
+
+/**
+ * Parses and validates a bundle, returning what an import would change.
+ * Throws with a user-facing message if the file is not a readable export.
+ */
+export async function previewImport(text: string): Promise<ImportPreview> {
+    let bundle: unknown;
+    try {
+        bundle = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (typeof bundle !== 'object' || bundle === null) {
+        throw new Error('The file is not a CogniTrack export.');
+    }
+    const { format, version, exportedAt, manifest, data } = bundle as Record<string, unknown>;
+
+    if (format !== EXPORT_FORMAT || typeof data !== 'object' || data === null) {
+        throw new Error('The file is not a CogniTrack export.');
+    }
+    if (typeof version !== 'number' || version > EXPORT_VERSION) {
+        throw new Error(`Unsupported export version ${String(version)}. Please update CogniTrack.`);
+    }
+
+    const domains: DomainImportPreview[] = [];
+    for (const domain of RESULT_DOMAINS) {
+        const raw = (data as Record<string, unknown>)[domain] ?? [];
+        if (!Array.isArray(raw)) {
+            throw new Error(`The ${domain} section of the export is not a list.`);
+        }
+
+        const repository = getResultRepository(domain);
+        // Exported results carry no per-record version; use the one in the manifest
+        const manifestVersion = (manifest as { domains?: Record<string, { schemaVersion?: unknown }> } | undefined)
+            ?.domains?.[domain]?.schemaVersion;
+        const assumedVersion = typeof manifestVersion === 'number' ? manifestVersion : 1;
+
+        const existing = await repository.load();
+        const knownKeys = new Set(existing.map((r) => getRecordKey(domain, r)));
+
+        const toAdd: AnyStoredResult[] = [];
+        const invalid: DomainImportPreview['invalid'] = [];
+        let duplicates = 0;
+
+        for (const record of raw) {
+            const parsed = repository.parseRecord(record, assumedVersion);
+            if ('reason' in parsed) {
+                invalid.push({ reason: parsed.reason, raw: record });
+                continue;
+            }
+
+            const key = getRecordKey(domain, parsed.result);
+            if (knownKeys.has(key)) {
+                duplicates++;
+                continue;
+            }
+            knownKeys.add(key);
+            toAdd.push(parsed.result);
+        }
+
+        domains.push({
+            domain,
+            inBundle: raw.length,
+            toAdd,
+            duplicates,
+            invalid,
+            merged: mergeResults(domain, existing, toAdd),
+        });
+    }
+
+    return {
+        exportedAt: typeof exportedAt === 'string' ? exportedAt : null,
+        domains,
+        totalToAdd: domains.reduce((sum, d) => sum + d.toAdd.length, 0),
+        totalInvalid: domains.reduce((sum, d) => sum + d.invalid.length, 0),
+    };
+}
+
+/**
+ * Writes a previewed import into local storage and queues the new results for sync.
+ */
+export async function applyImport(preview: ImportPreview): Promise<number> {
+    for (const { domain, toAdd, merged } of preview.domains) {
+        if (toAdd.length === 0) continue;
+        await getResultRepository(domain).replaceAll(merged);
+        toAdd.forEach((result) => queueSessionSync(domain, result));
+    }
+
+    if (preview.totalToAdd > 0) {
+        window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+    }
+    return preview.totalToAdd;
+}
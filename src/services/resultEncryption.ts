@@ -0,0 +1,62 @@
+/**
+ * Result Encryption Service
+ * Switches the local result store between plaintext and passphrase encryption,
+ * rewriting every stored result so nothing is left behind in the old form.
+ */
+
+import {
+    RESULT_DOMAINS,
+    RESULTS_UPDATED_EVENT,
+    getProfiles,
+    getResultRepository,
+    enableEncryption,
+    disableEncryption,
+} from '../storage';
+import type { AnyStoredResult, ResultRepository } from '../storage';
+
+/** Every profile's repository for every domain. */
+function allRepositories(): ResultRepository<AnyStoredResult>[] {
+    return getProfiles().flatMap((profile) =>
+        RESULT_DOMAINS.map((domain) => getResultRepository(domain, profile.id))
+    );
+}
+
+async function loadAll(): Promise<[ResultRepository<AnyStoredResult>, AnyStoredResult[]][]> {
+    return Promise.all(allRepositories().map(async (repository) =>
+        [repository, await repository.load()] as [ResultRepository<AnyStoredResult>, AnyStoredResult[]]
+    ));
+}
+
+async function rewriteAll(results: [ResultRepository<AnyStoredResult>, AnyStoredResult[]][]): Promise<void> {
+    for (const [repository, records] of results) {
+        await repository.replaceAll(records);
+    }
+}
+
+/**
+ * Encrypts all stored results with a new passphrase.
+ */
+export async function turnOnEncryption(passphrase: string): Promise<void> {
+    const results = await loadAll();
+    await enableEncryption(passphrase);
+    await rewriteAll(results);
+}
+
+/**
+ * Decrypts all stored results (the store must be unlocked).
+ */
+export async function turnOffEncryption(): Promise<void> {
+    const results = await loadAll();
+    disableEncryption();
+    await rewriteAll(results);
+}
+
+/**
+ * Recovery path for a forgotten passphrase: deletes the encrypted results
+ * and turns encryption off. Results synced to the cloud return on next sign-in.
+ */
+export async function eraseEncryptedResults(): Promise<void> {
+    disableEncryption();
+    await Promise.all(allRepositories().map((repository) => repository.clear()));
+    window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+}
@@ -0,0 +1,53 @@
+/**
+ * Session Flags Service
+ * Flags a battery session as invalid (or restores it) across all its domain results.
+ *
+ * The flag is stored on each result together with its history, so it is synced,
+ * exported and audited with the result itself.
+ */
+
+import {
+    RESULT_DOMAINS,
+    RESULTS_UPDATED_EVENT,
+    getResultRepository,
+    withValidity,
+} from '../storage';
+import type { BatterySession } from '../storage';
+import type { InvalidReason } from '../types/validityTypes';
+import { getSessionDocId, queueSessionSync } from './sessionSync';
+import { logger } from '../utils/logger';
+
+export const INVALID_REASON_LABELS: Record<InvalidReason, string> = {
+    interrupted: 'Interrupted',
+    unwell: 'Feeling unwell',
+    device_issue: 'Device issue',
+    someone_else: 'Someone else took it',
+};
+
+/**
+ * Flags every attempt taken in the battery with `reason`, or restores them when null.
+ * Attempts of inferred batteries (saved without a batteryId) are matched one by one.
+ */
+export async function setBatteryValidity(battery: BatterySession, reason: InvalidReason | null): Promise<void> {
+    for (const domain of RESULT_DOMAINS) {
+        const repository = getResultRepository(domain);
+        const included = battery.results[domain];
+        const includedId = included ? getSessionDocId(domain, included) : null;
+
+        const attempts = await repository.load();
+        const changed = attempts
+            .filter((attempt) => battery.inferred
+                ? getSessionDocId(domain, attempt) === includedId
+                : attempt.batteryId === battery.id)
+            .map((attempt) => withValidity(attempt, reason));
+        if (changed.length === 0) continue;
+
+        await repository.update(changed);
+        changed.forEach((result) => queueSessionSync(domain, result));
+    }
+
+    logger.info(reason
+        ? `Session ${battery.id} flagged as invalid (${reason})`
+        : `Session ${battery.id} restored`);
+    window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+}
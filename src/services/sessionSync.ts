@@ -0,0 +1,324 @@
+/**
+ * Session Sync Service
+ * Offline-first replication of test results to Firestore.
+ *
+ * The local result repositories stay the primary store so tests work without a connection.
+ * Every saved result is queued and written to users/{uid}/sessions/{docId}
+ * once the user is signed in and online. On sign-in the remote history is
+ * pulled and merged, so a new device (or a cleared browser) gets its baseline back.
+ * Each document records the local profile it belongs to, so several people
+ * tested on one account keep separate histories. Baseline resets are synced
+ * alongside (see baselineEpochSync).
+ *
+ * The first account to sync claims the local data. Another account signing in
+ * on the same browser is refused, so two people's histories are never mixed.
+ * Remote results are migrated and validated like local ones; failures are quarantined.
+ */
+
+import { collection, doc, getDocs, setDoc, serverTimestamp } from 'firebase/firestore';
+import { auth, db, isFirebaseConfigured } from '../lib/firebase';
+import {
+    DEFAULT_PROFILE_ID,
+    RESULT_DOMAINS,
+    RESULTS_UPDATED_EVENT,
+    ensureProfile,
+    getActiveProfileId,
+    getProfiles,
+    getResultRepository,
+    isResultInvalid,
+    isStorageLocked,
+    quarantineRecords,
+} from '../storage';
+import type { AnyStoredResult, ResultDomain } from '../storage';
+import { logger } from '../utils/logger';
+import { syncBaselineEpochs } from './baselineEpochSync';
+
+export type SyncDomain = ResultDomain;
+
+const SYNC_QUEUE_KEY = 'cognitrack_sync_queue';
+const SYNC_OWNER_KEY = 'cognitrack_sync_owner';
+
+type SyncableResult = AnyStoredResult;
+
+/**
+ * Aggregate features read by the updateMetrics trigger.
+ */
+const TO_FEATURES: Record<SyncDomain, (result: SyncableResult) => Record<string, number>> = {
+    reaction: (r) => ({ reactionTimeAvg: getNumber(r, ['aggregates', 'avg']) }),
+    memory: (r) => ({ memoryAccuracy: getNumber(r, ['accuracy']) }),
+    pattern: (r) => ({ patternMaxLevel: getNumber(r, ['metrics', 'maxLevelReached']) }),
+    language: (r) => ({ speechWPM: getNumber(r, ['derivedFeatures', 'wpm']) }),
+};
+
+/**
+ * Only ids are queued; results are read from the (possibly encrypted) store at flush time.
+ */
+interface QueuedWrite {
+    profileId: string;
+    domain: SyncDomain;
+    docId: string;
+    queuedAt: number; // Epoch ms, so a result re-saved during a flush is told apart from the one being written
+}
+
+function getNumber(source: unknown, path: string[]): number {
+    let value: unknown = source;
+    for (const key of path) {
+        if (typeof value !== 'object' || value === null) return 0;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Stable Firestore document id for a result.
+ * Prefixed with the domain so results sharing a sessionId do not collide.
+ */
+export function getSessionDocId(domain: SyncDomain, result: SyncableResult): string {
+    const key = result.sessionId || result.id || String(new Date(result.timestamp).getTime());
+    return `${domain}_${key}`;
+}
+
+function readQueue(): QueuedWrite[] {
+    try {
+        const stored = localStorage.getItem(SYNC_QUEUE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        // Older queues also held the full result and had no profile; keep only the ids
+        return Array.isArray(parsed)
+            ? parsed.map(({ profileId, domain, docId, queuedAt }: QueuedWrite) => ({
+                profileId: profileId ?? DEFAULT_PROFILE_ID,
+                domain,
+                docId,
+                queuedAt: queuedAt ?? 0,
+            }))
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeQueue(queue: QueuedWrite[]): void {
+    if (queue.length === 0) {
+        localStorage.removeItem(SYNC_QUEUE_KEY);
+    } else {
+        localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+    }
+}
+
+/**
+ * Returns the uid of the account the local data belongs to, or null before the first sync.
+ */
+export function getSyncOwner(): string | null {
+    return localStorage.getItem(SYNC_OWNER_KEY);
+}
+
+async function hasLocalResults(): Promise<boolean> {
+    for (const { id: profileId } of getProfiles()) {
+        for (const domain of RESULT_DOMAINS) {
+            if ((await getResultRepository(domain, profileId).load()).length > 0) return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns the number of results waiting to be written to Firestore.
+ */
+export function getPendingSyncCount(): number {
+    return readQueue().length;
+}
+
+/**
+ * Merges local and remote results for one domain.
+ * Results are de-duplicated by document id; every attempt from either side is kept.
+ * Of two copies, the one with the longer validity history (the later flag change) wins.
+ */
+export function mergeResults<T extends SyncableResult>(
+    domain: SyncDomain,
+    local: T[],
+    remote: T[]
+): T[] {
+    const byId = new Map<string, T>();
+    for (const result of [...local, ...remote]) {
+        const id = getSessionDocId(domain, result);
+        const existing = byId.get(id);
+        if (!existing || (result.validity?.history.length ?? 0) > (existing.validity?.history.length ?? 0)) {
+            byId.set(id, result);
+        }
+    }
+
+    return Array.from(byId.values()).sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+}
+
+/**
+ * Writes all queued results to Firestore. Items that fail stay queued.
+ */
+export async function flushSyncQueue(): Promise<void> {
+    const uid = auth.currentUser?.uid;
+    // Nothing is uploaded until syncSessions has claimed the local data for this account
+    if (!uid || uid !== getSyncOwner() || !navigator.onLine || isStorageLocked()) return;
+
+    const queue = readQueue();
+    if (queue.length === 0) return;
+
+    const profileNames = new Map(getProfiles().map((p) => [p.id, p.name]));
+    const schemaVersions = new Map(RESULT_DOMAINS.map((domain) => [domain, getResultRepository(domain).schemaVersion]));
+    const resultsById = new Map<string, SyncableResult>();
+    const sources = new Set(queue.map((item) => `${item.profileId}|${item.domain}`));
+    for (const source of sources) {
+        const [profileId, domain] = source.split('|') as [string, SyncDomain];
+        const results = await getResultRepository(domain, profileId).load();
+        results.forEach((result) => resultsById.set(`${profileId}|${getSessionDocId(domain, result)}`, result));
+    }
+
+    const failed: QueuedWrite[] = [];
+    for (const item of queue) {
+        const result = resultsById.get(`${item.profileId}|${item.docId}`);
+        if (!result) continue; // Deleted locally since it was queued
+
+        try {
+            await setDoc(doc(db, 'users', uid, 'sessions', item.docId), {
+                profileId: item.profileId,
+                profileName: profileNames.get(item.profileId) ?? null,
+                domain: item.domain,
+                sessionId: result.sessionId || result.id || null,
+                timestamp: new Date(result.timestamp),
+                features: TO_FEATURES[item.domain](result),
+                // Flagged sessions are left out of the admin metrics
+                invalid: isResultInvalid(result),
+                // Version of `result`, so other devices migrate it before use
+                schemaVersion: schemaVersions.get(item.domain),
+                // JSON round-trip strips undefined fields, which Firestore rejects
+                result: JSON.parse(JSON.stringify(result)),
+                updatedAt: serverTimestamp(),
+            });
+        } catch (error) {
+            logger.warn(`Failed to sync ${item.docId}:`, error);
+            failed.push(item);
+        }
+    }
+
+    // Keep anything queued while we were writing, including results re-saved since they were read
+    const flushed = new Set(queue.map((item) => `${item.docId}|${item.queuedAt}`));
+    const newlyQueued = readQueue().filter((item) => !flushed.has(`${item.docId}|${item.queuedAt}`));
+    const requeuedIds = new Set(newlyQueued.map((item) => item.docId));
+    writeQueue([...failed.filter((item) => !requeuedIds.has(item.docId)), ...newlyQueued]);
+}
+
+/**
+ * Queues a freshly saved result for upload and tries to flush immediately.
+ */
+export function queueSessionSync(
+    domain: SyncDomain,
+    result: SyncableResult,
+    profileId: string = getActiveProfileId()
+): void {
+    if (!isFirebaseConfigured()) return;
+
+    const docId = getSessionDocId(domain, result);
+    try {
+        const queue = readQueue();
+        const previous = queue.find((item) => item.docId === docId);
+        // Strictly later than the entry it replaces, which a running flush may be writing
+        const queuedAt = Math.max(Date.now(), (previous?.queuedAt ?? 0) + 1);
+        writeQueue([...queue.filter((item) => item.docId !== docId), { profileId, domain, docId, queuedAt }]);
+    } catch (error) {
+        logger.error('Failed to queue result for sync:', error);
+        return;
+    }
+
+    flushSyncQueue().catch((error) => logger.warn('Session sync failed:', error));
+}
+
+/**
+ * Full two-way sync, run on sign-in.
+ * Pulls remote history, merges it into the local repositories, then uploads any
+ * results that only exist on this device. Does nothing if the local data
+ * belongs to another account.
+ */
+export async function syncSessions(uid: string): Promise<void> {
+    // Re-run after unlock if the store is encrypted
+    if (!isFirebaseConfigured() || !navigator.onLine || isStorageLocked()) return;
+
+    const owner = getSyncOwner();
+    if (owner !== uid) {
+        if (owner !== null && await hasLocalResults()) {
+            logger.warn('Local test data belongs to another account; sync skipped.');
+            return;
+        }
+        // Unclaimed data (or none left) becomes this account's; ids queued for another account are dropped
+        if (owner !== null) writeQueue([]);
+        localStorage.setItem(SYNC_OWNER_KEY, uid);
+    }
+
+    const snapshot = await getDocs(collection(db, 'users', uid, 'sessions'));
+
+    // Remote results grouped by `${profileId}|${domain}`, migrated and validated
+    const remoteBySource = new Map<string, SyncableResult[]>();
+    const remoteIds = new Set<string>();
+    const rejected = new Map<SyncDomain, { reason: string; raw: unknown; sourceId: string }[]>();
+
+    snapshot.forEach((docSnap) => {
+        const data = docSnap.data();
+        const domain = data.domain as SyncDomain;
+        if (!RESULT_DOMAINS.includes(domain) || !data.result) return;
+
+        // Documents written before versioning hold version 1 records
+        const assumedVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+        const parsed = getResultRepository(domain).parseRecord(data.result, assumedVersion);
+        if ('reason' in parsed) {
+            const entry = { reason: parsed.reason, raw: data.result, sourceId: docSnap.id };
+            rejected.set(domain, [...(rejected.get(domain) ?? []), entry]);
+            return;
+        }
+
+        // Documents written before profiles existed belong to the default profile
+        const profileId: string = data.profileId ?? DEFAULT_PROFILE_ID;
+        if (profileId !== DEFAULT_PROFILE_ID) {
+            ensureProfile(profileId, data.profileName || 'Synced profile');
+        }
+
+        const source = `${profileId}|${domain}`;
+        remoteBySource.set(source, [...(remoteBySource.get(source) ?? []), parsed.result]);
+        // Rejected documents are left out, so a valid local copy is uploaded over them
+        remoteIds.add(docSnap.id);
+    });
+
+    // Rejected documents stay remote and are read again on every sync; each is quarantined once
+    for (const [domain, entries] of rejected) {
+        quarantineRecords(domain, entries);
+    }
+
+    let changed = false;
+    for (const { id: profileId } of getProfiles()) {
+        for (const domain of RESULT_DOMAINS) {
+            const repository = getResultRepository(domain, profileId);
+            const local = await repository.load();
+            const remote = remoteBySource.get(`${profileId}|${domain}`) ?? [];
+            const merged = mergeResults(domain, local, remote);
+
+            if (JSON.stringify(merged) !== JSON.stringify(local)) {
+                await repository.replaceAll(merged);
+                changed = true;
+            }
+
+            const queue = readQueue();
+            const queuedIds = new Set(queue.map((item) => item.docId));
+            const queuedAt = Date.now();
+            const localOnly = merged
+                .map((result) => ({ profileId, domain, docId: getSessionDocId(domain, result), queuedAt }))
+                .filter((item) => !remoteIds.has(item.docId) && !queuedIds.has(item.docId));
+            if (localOnly.length > 0) {
+                writeQueue([...queue, ...localOnly]);
+            }
+        }
+    }
+
+    if (changed) {
+        window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+    }
+
+    await flushSyncQueue();
+    await syncBaselineEpochs(uid);
+}
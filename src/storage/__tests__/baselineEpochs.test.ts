@@ -0,0 +1,56 @@
+/**
+ * Unit tests for Baseline Epochs
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    INITIAL_EPOCH,
+    clearBaselineEpochs,
+    createBaselineEpoch,
+    filterToEpoch,
+    getActiveEpoch,
+    loadBaselineEpochs,
+    mergeBaselineEpochs,
+    startBaselineEpoch,
+} from '../baselineEpochs';
+
+const day = (d: number) => new Date(2026, 2, d, 9);
+
+describe('baseline epochs', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should fall back to the initial epoch before any reset', () => {
+        expect(getActiveEpoch()).toEqual(INITIAL_EPOCH);
+        expect(loadBaselineEpochs()).toEqual([INITIAL_EPOCH]);
+    });
+
+    it('should make the latest reset the active epoch, per profile', () => {
+        startBaselineEpoch('new_device', 'default', day(5));
+        const latest = startBaselineEpoch('user_reset', 'default', day(10));
+
+        expect(getActiveEpoch('default')).toEqual(latest);
+        expect(loadBaselineEpochs('default').map((e) => e.reason)).toEqual(['initial', 'new_device', 'user_reset']);
+        expect(getActiveEpoch('other')).toEqual(INITIAL_EPOCH);
+
+        clearBaselineEpochs('default');
+        expect(getActiveEpoch('default')).toEqual(INITIAL_EPOCH);
+    });
+
+    it('should merge synced epochs once and keep them in time order', () => {
+        const local = startBaselineEpoch('user_reset', 'default', day(10));
+        const remote = createBaselineEpoch('admin_reset', day(5));
+
+        expect(mergeBaselineEpochs([INITIAL_EPOCH, local, remote], 'default')).toBe(true);
+        expect(mergeBaselineEpochs([remote], 'default')).toBe(false);
+        expect(loadBaselineEpochs('default').map((e) => e.id)).toEqual(['initial', remote.id, local.id]);
+        expect(getActiveEpoch('default')).toEqual(local);
+    });
+
+    it('should keep only the results from the start of the epoch on', () => {
+        const epoch = createBaselineEpoch('new_device', day(10));
+        const results = [day(1), day(10), day(12)].map((timestamp) => ({ timestamp }));
+
+        expect(filterToEpoch(results, epoch)).toEqual(results.slice(1));
+        expect(filterToEpoch(results, INITIAL_EPOCH)).toEqual(results);
+    });
+});
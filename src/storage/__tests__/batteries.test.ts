@@ -0,0 +1,70 @@
+/**
+ * Unit tests for Battery Sessions
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { assembleBatteries, loadBatteryRecords, recordBatteryResult } from '../batteries';
+import { withValidity } from '../sessionValidity';
+import type { DomainResultMap } from '../resultSchemas';
+
+const at = (hour: number, minute = 0) => new Date(2026, 2, 12, hour, minute);
+
+// Only the fields battery grouping reads
+const result = (timestamp: Date, batteryId?: string) => ({ sessionId: String(timestamp.getTime()), timestamp, batteryId });
+
+function results(domains: Partial<{ [D in keyof DomainResultMap]: ReturnType<typeof result>[] }>) {
+    return {
+        reaction: [], memory: [], pattern: [], language: [],
+        ...domains,
+    } as unknown as { [D in keyof DomainResultMap]: DomainResultMap[D][] };
+}
+
+describe('recordBatteryResult', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should group tests of one sitting and close the battery when complete', () => {
+        const id = recordBatteryResult('memory', at(9));
+        expect(recordBatteryResult('reaction', at(9, 5))).toBe(id);
+        expect(recordBatteryResult('pattern', at(9, 10))).toBe(id);
+        expect(recordBatteryResult('language', at(9, 15))).toBe(id);
+
+        const [battery] = loadBatteryRecords();
+        expect(battery.order).toEqual(['memory', 'reaction', 'pattern', 'language']);
+        expect(battery.endedAt).toBe(at(9, 15).toISOString());
+        expect(recordBatteryResult('memory', at(9, 20))).not.toBe(id);
+    });
+
+    it('should start a new battery when a domain repeats or after a long gap', () => {
+        const first = recordBatteryResult('memory', at(9));
+        const second = recordBatteryResult('memory', at(9, 5));
+        const third = recordBatteryResult('reaction', at(14));
+
+        expect(new Set([first, second, third]).size).toBe(3);
+        expect(loadBatteryRecords().filter((record) => !record.endedAt)).toHaveLength(1);
+    });
+});
+
+describe('assembleBatteries', () => {
+    it('should group linked results by battery and unlinked results by time', () => {
+        const batteries = assembleBatteries(results({
+            memory: [result(at(8)), result(at(10), 'b1')],
+            reaction: [result(at(8, 5)), result(at(10, 5), 'b1'), result(at(18))],
+        }), []);
+
+        expect(batteries.map((b) => b.order)).toEqual([['memory', 'reaction'], ['memory', 'reaction'], ['reaction']]);
+        expect(batteries.map((b) => b.inferred)).toEqual([true, false, true]);
+        expect(batteries[1].id).toBe('b1');
+        expect(batteries[2].completeness).toBe(0.25);
+    });
+});
+
+describe('withValidity', () => {
+    it('should flag and restore a battery while keeping the history', () => {
+        const flagged = withValidity(result(at(9), 'b1'), 'unwell', at(12));
+        const restored = withValidity(flagged, null, at(13));
+
+        expect(assembleBatteries(results({ memory: [flagged] }), [])[0]).toMatchObject({ invalid: true, invalidReason: 'unwell' });
+        expect(assembleBatteries(results({ memory: [restored] }), [])[0].invalid).toBe(false);
+        expect(restored.validity?.history.map((change) => change.invalid)).toEqual([true, false]);
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for Daily Aggregation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateDaily } from '../dailyAggregation';
+
+interface Attempt {
+    id: string;
+    timestamp: Date;
+    score: number;
+    detail: { errors: number };
+}
+
+const attempts: Attempt[] = [
+    { id: 'a', timestamp: new Date(2026, 0, 1, 9), score: 4, detail: { errors: 2 } },
+    { id: 'b', timestamp: new Date(2026, 0, 1, 12), score: 8, detail: { errors: 0 } },
+    { id: 'c', timestamp: new Date(2026, 0, 1, 18), score: 9, detail: { errors: 4 } },
+    { id: 'd', timestamp: new Date(2026, 0, 2, 9), score: 6, detail: { errors: 1 } },
+];
+
+const isBetter = (a: Attempt, b: Attempt) => a.score > b.score;
+
+describe('aggregateDaily', () => {
+    it('should keep every attempt with "all"', () => {
+        expect(aggregateDaily(attempts, 'all', isBetter)).toHaveLength(4);
+    });
+
+    it('should pick one attempt per day with "best" and "first"', () => {
+        expect(aggregateDaily(attempts, 'best', isBetter).map((r) => r.id)).toEqual(['c', 'd']);
+        expect(aggregateDaily(attempts, 'first', isBetter).map((r) => r.id)).toEqual(['a', 'd']);
+    });
+
+    it('should combine numeric fields with "mean" and "median"', () => {
+        const [meanDay] = aggregateDaily(attempts, 'mean', isBetter);
+        expect(meanDay.score).toBe(7);
+        expect(meanDay.detail.errors).toBe(2);
+        expect(meanDay.id).toBe('a');
+        expect(meanDay.timestamp).toBe(attempts[0].timestamp);
+
+        const [medianDay] = aggregateDaily(attempts, 'median', isBetter);
+        expect(medianDay.score).toBe(8);
+    });
+});
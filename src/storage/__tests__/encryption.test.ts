@@ -0,0 +1,42 @@
+/**
+ * Unit tests for Result Encryption
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createEncryptedBackend, enableEncryption, disableEncryption, unlockStorage, isStorageLocked } from '../encryption';
+import { localStorageBackend } from '../storageBackend';
+
+const collection = { domain: 'language' as const, partition: 'language', storageKey: 'test_encrypted' };
+const backend = createEncryptedBackend(localStorageBackend);
+const record = { sessionId: 's1', timestamp: '2026-01-01T10:00:00.000Z', transcript: 'private words' };
+
+describe('createEncryptedBackend', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        disableEncryption();
+    });
+
+    it('should store ciphertext and read back the original record', async () => {
+        await enableEncryption('correct horse');
+        await backend.putMany(collection, [{ id: 's1', record }]);
+
+        expect(localStorage.getItem(collection.storageKey)).not.toContain('private words');
+        expect((await backend.getAll(collection))[0].record).toEqual(record);
+    });
+
+    it('should only unlock with the right passphrase', async () => {
+        await enableEncryption('correct horse');
+        await backend.putMany(collection, [{ id: 's1', record }]);
+
+        // Simulate a new visit: config persists, key does not
+        const config = localStorage.getItem('cognitrack_encryption');
+        disableEncryption();
+        localStorage.setItem('cognitrack_encryption', config!);
+
+        expect(isStorageLocked()).toBe(true);
+        await expect(backend.getAll(collection)).rejects.toThrow('locked');
+        expect(await unlockStorage('wrong horse')).toBe(false);
+        expect(await unlockStorage('correct horse')).toBe(true);
+        expect((await backend.getAll(collection))[0].record).toEqual(record);
+    });
+});
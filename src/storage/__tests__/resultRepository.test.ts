@@ -0,0 +1,92 @@
+/**
+ * Unit tests for Result Repository
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createResultRepository } from '../resultRepository';
+import type { ResultSchema } from '../resultRepository';
+import { getQuarantinedRecords } from '../quarantine';
+import { localStorageBackend } from '../storageBackend';
+
+interface TestResult {
+    id: string;
+    timestamp: Date;
+    score: number;
+    label: string;
+}
+
+const STORAGE_KEY = 'test_results';
+
+function createSchema(overrides: Partial<ResultSchema<TestResult>> = {}): ResultSchema<TestResult> {
+    return {
+        domain: 'memory',
+        storageKey: STORAGE_KEY,
+        migrations: [
+            // v1 -> v2: label added
+            (record) => ({ ...record, label: record.label ?? 'legacy' }),
+        ],
+        validate: (record) => (typeof record.score === 'number' ? null : 'score missing'),
+        daily: { defaultAggregation: 'all', isBetter: (a, b) => a.score > b.score },
+        ...overrides,
+    };
+}
+
+describe('createResultRepository', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should rehydrate timestamps and strip schemaVersion', async () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([
+            { id: 'a', timestamp: '2026-01-01T10:00:00.000Z', score: 1, label: 'x', schemaVersion: 2 },
+        ]));
+        const [result] = await createResultRepository(createSchema(), localStorageBackend).load();
+
+        expect(result.timestamp).toBeInstanceOf(Date);
+        expect(result).not.toHaveProperty('schemaVersion');
+    });
+
+    it('should upgrade old records and persist the migration', async () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([
+            { id: 'a', timestamp: '2026-01-01T10:00:00.000Z', score: 1 },
+        ]));
+        const [result] = await createResultRepository(createSchema(), localStorageBackend).load();
+
+        expect(result.label).toBe('legacy');
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        expect(stored[0].schemaVersion).toBe(2);
+    });
+
+    it('should quarantine invalid records instead of dropping them', async () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([
+            { id: 'a', timestamp: '2026-01-01T10:00:00.000Z', score: 1 },
+            { id: 'b', timestamp: '2026-01-02T10:00:00.000Z' },
+        ]));
+        const results = await createResultRepository(createSchema(), localStorageBackend).load();
+
+        expect(results.map((r) => r.id)).toEqual(['a']);
+        const quarantined = getQuarantinedRecords();
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0].reason).toBe('score missing');
+    });
+
+    it('should quarantine unparseable storage', async () => {
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        const results = await createResultRepository(createSchema(), localStorageBackend).load();
+
+        expect(results).toEqual([]);
+        expect(getQuarantinedRecords()[0].raw).toBe('{not json');
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('should keep every attempt in the ledger', async () => {
+        const repository = createResultRepository(createSchema(), localStorageBackend);
+        const morning = new Date(2026, 0, 1, 9);
+        const evening = new Date(2026, 0, 1, 18);
+
+        await repository.save({ id: 'b', timestamp: evening, score: 3, label: 'x' });
+        await repository.save({ id: 'a', timestamp: morning, score: 5, label: 'x' });
+
+        expect((await repository.load()).map((r) => r.id)).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Baseline Epochs
+ * The baseline is the first few sessions of the active epoch. A new epoch
+ * starts when the baseline is reset (by the user, e.g. after switching
+ * device, or by an admin); sessions before it stay in the history but no
+ * longer drive trends or risk.
+ *
+ * Epochs are kept per profile in localStorage and replicated to Firestore by
+ * services/baselineEpochSync. Every profile has an implicit initial epoch
+ * covering everything before its first reset.
+ */
+
+import { getActiveProfileId, getProfileNamespace } from "./profiles";
+import { RESULTS_UPDATED_EVENT } from "./resultRepository";
+
+const EPOCHS_KEY = "cognitrack_baseline_epochs";
+
+/** Sessions that form the baseline of a new epoch. */
+export const DEFAULT_BASELINE_SESSIONS = 3;
+
+export type BaselineEpochReason = "initial" | "new_device" | "user_reset" | "admin_reset";
+
+export interface BaselineEpoch {
+    id: string;
+    startedAt: string; // ISO 8601; sessions from this moment on belong to the epoch
+    reason: BaselineEpochReason;
+    baselineSessions: number; // Sessions at the start of the epoch averaged into the baseline
+}
+
+export const BASELINE_EPOCH_REASON_LABELS: Record<BaselineEpochReason, string> = {
+    initial: "First sessions",
+    new_device: "New device",
+    user_reset: "Reset by you",
+    admin_reset: "Reset by an administrator",
+};
+
+export const INITIAL_EPOCH: BaselineEpoch = {
+    id: "initial",
+    startedAt: new Date(0).toISOString(),
+    reason: "initial",
+    baselineSessions: DEFAULT_BASELINE_SESSIONS,
+};
+
+function getEpochsKey(profileId: string): string {
+    return `${EPOCHS_KEY}${getProfileNamespace(profileId)}`;
+}
+
+function readStoredEpochs(profileId: string): BaselineEpoch[] {
+    try {
+        const stored = localStorage.getItem(getEpochsKey(profileId));
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeStoredEpochs(profileId: string, epochs: BaselineEpoch[]): void {
+    localStorage.setItem(getEpochsKey(profileId), JSON.stringify(epochs));
+    // Analysis depends on the active epoch, so consumers reload as for new results
+    window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+}
+
+/**
+ * All epochs of a profile, oldest first, starting with the implicit initial one.
+ */
+export function loadBaselineEpochs(profileId: string = getActiveProfileId()): BaselineEpoch[] {
+    return [INITIAL_EPOCH, ...readStoredEpochs(profileId)].sort(
+        (a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime()
+    );
+}
+
+/**
+ * The epoch that the latest sessions belong to.
+ */
+export function getActiveEpoch(profileId: string = getActiveProfileId()): BaselineEpoch {
+    const epochs = loadBaselineEpochs(profileId);
+    return epochs[epochs.length - 1];
+}
+
+export function createBaselineEpoch(
+    reason: Exclude<BaselineEpochReason, "initial">,
+    now: Date = new Date()
+): BaselineEpoch {
+    return {
+        id: crypto.randomUUID(),
+        startedAt: now.toISOString(),
+        reason,
+        baselineSessions: DEFAULT_BASELINE_SESSIONS,
+    };
+}
+
+/**
+ * Starts a new epoch now; the next sessions form its baseline.
+ */
+export function startBaselineEpoch(
+    reason: Exclude<BaselineEpochReason, "initial">,
+    profileId: string = getActiveProfileId(),
+    now: Date = new Date()
+): BaselineEpoch {
+    const epoch = createBaselineEpoch(reason, now);
+    writeStoredEpochs(profileId, [...readStoredEpochs(profileId), epoch]);
+    return epoch;
+}
+
+/**
+ * Adds epochs known from elsewhere (sync) that are not stored yet.
+ * Returns true if anything was added.
+ */
+export function mergeBaselineEpochs(epochs: BaselineEpoch[], profileId: string = getActiveProfileId()): boolean {
+    const stored = readStoredEpochs(profileId);
+    const known = new Set(stored.map((epoch) => epoch.id));
+    const added = epochs.filter((epoch) => epoch.id !== INITIAL_EPOCH.id && !known.has(epoch.id));
+    if (added.length === 0) return false;
+
+    writeStoredEpochs(profileId, [...stored, ...added]);
+    return true;
+}
+
+export function clearBaselineEpochs(profileId: string = getActiveProfileId()): void {
+    localStorage.removeItem(getEpochsKey(profileId));
+}
+
+/**
+ * Whether a session at `timestamp` belongs to `epoch` (or a later one).
+ */
+export function isInEpoch(timestamp: Date | number | string, epoch: BaselineEpoch): boolean {
+    return new Date(timestamp).getTime() >= new Date(epoch.startedAt).getTime();
+}
+
+/**
+ * The results of an epoch, in their original order.
+ */
+export function filterToEpoch<T extends { timestamp: Date | number | string }>(results: T[], epoch: BaselineEpoch): T[] {
+    return results.filter((result) => isInEpoch(result.timestamp, epoch));
+}
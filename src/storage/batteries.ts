@@ -0,0 +1,228 @@
+/**
+ * Battery Sessions
+ * Groups the domain results taken in one sitting into a battery, with its
+ * start and end time, the order the tests were taken in and how complete it is.
+ *
+ * Saved results carry their `batteryId`, so the grouping survives sync, export
+ * and import. The battery records themselves (start time, order) are kept per
+ * profile in localStorage. Results saved before batteries existed, or whose
+ * record is missing, are grouped by time instead.
+ */
+
+import type { ResultDomain } from "./resultRepository";
+import type { AnyStoredResult, DomainResultMap } from "./resultSchemas";
+import { RESULT_DOMAINS } from "./resultSchemas";
+import { getActiveProfileId, getProfileNamespace } from "./profiles";
+import { isResultInvalid } from "./sessionValidity";
+import type { InvalidReason } from "../types/validityTypes";
+import type { SessionContext } from "../types/contextTypes";
+
+const BATTERIES_KEY = "cognitrack_batteries";
+const INFERRED_PREFIX = "inferred-";
+
+/** A battery lapses when no test has been started or completed in it for this long. */
+export const BATTERY_GAP_MS = 2 * 60 * 60 * 1000;
+
+export interface BatteryRecord {
+    id: string;
+    startedAt: string; // ISO 8601
+    lastActivityAt: string; // ISO 8601
+    endedAt?: string; // ISO 8601, set once every domain is done or the battery lapses
+    order: ResultDomain[]; // Domains in the order they were completed
+    context?: SessionContext; // Pre-test check-in
+}
+
+export type BatteryResults = { [D in ResultDomain]?: DomainResultMap[D] };
+
+export interface BatterySession {
+    id: string;
+    startedAt: Date;
+    endedAt: Date;
+    order: ResultDomain[];
+    results: BatteryResults;
+    completeness: number; // 0-1, share of the domains taken
+    inferred: boolean; // Grouped by time rather than by batteryId
+    invalid: boolean; // Every result in it was flagged invalid
+    invalidReason?: InvalidReason;
+    context?: SessionContext;
+}
+
+function getBatteriesKey(profileId: string): string {
+    return `${BATTERIES_KEY}${getProfileNamespace(profileId)}`;
+}
+
+export function loadBatteryRecords(profileId: string = getActiveProfileId()): BatteryRecord[] {
+    try {
+        const stored = localStorage.getItem(getBatteriesKey(profileId));
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeBatteryRecords(profileId: string, records: BatteryRecord[]): void {
+    localStorage.setItem(getBatteriesKey(profileId), JSON.stringify(records));
+}
+
+export function clearBatteryRecords(profileId: string = getActiveProfileId()): void {
+    localStorage.removeItem(getBatteriesKey(profileId));
+}
+
+/**
+ * Closes batteries that have lapsed; ones where nothing was completed are dropped.
+ */
+function closeLapsed(records: BatteryRecord[], now: Date): BatteryRecord[] {
+    return records
+        .map((record) => !record.endedAt && now.getTime() - new Date(record.lastActivityAt).getTime() > BATTERY_GAP_MS
+            ? { ...record, endedAt: record.lastActivityAt }
+            : record)
+        .filter((record) => !record.endedAt || record.order.length > 0);
+}
+
+/**
+ * The battery currently in progress, if any.
+ */
+export function getOpenBattery(profileId: string = getActiveProfileId(), now: Date = new Date()): BatteryRecord | null {
+    return closeLapsed(loadBatteryRecords(profileId), now).find((record) => !record.endedAt) ?? null;
+}
+
+function newBattery(at: Date): BatteryRecord {
+    return { id: crypto.randomUUID(), startedAt: at.toISOString(), lastActivityAt: at.toISOString(), order: [] };
+}
+
+/**
+ * Marks the start of a test: opens a battery if none is in progress.
+ */
+export function startBatteryTest(profileId: string = getActiveProfileId(), now: Date = new Date()): BatteryRecord {
+    const records = closeLapsed(loadBatteryRecords(profileId), now);
+    const open = records.find((record) => !record.endedAt);
+    const battery = open ? { ...open, lastActivityAt: now.toISOString() } : newBattery(now);
+
+    writeBatteryRecords(profileId, [...records.filter((record) => record.id !== battery.id), battery]);
+    return battery;
+}
+
+/**
+ * Stores the pre-test check-in on the open battery, opening one if needed.
+ */
+export function setBatteryContext(context: SessionContext, profileId: string = getActiveProfileId()): void {
+    const battery = startBatteryTest(profileId, new Date(context.recordedAt));
+    const records = loadBatteryRecords(profileId).map((record) => record.id === battery.id ? { ...record, context } : record);
+    writeBatteryRecords(profileId, records);
+}
+
+export function getBatteryRecord(id: string, profileId: string = getActiveProfileId()): BatteryRecord | null {
+    return loadBatteryRecords(profileId).find((record) => record.id === id) ?? null;
+}
+
+/**
+ * Adds a completed test to the open battery and returns the battery id.
+ * Repeating a domain already taken in the open battery starts a new one.
+ */
+export function recordBatteryResult(
+    domain: ResultDomain,
+    completedAt: Date,
+    profileId: string = getActiveProfileId()
+): string {
+    let records = closeLapsed(loadBatteryRecords(profileId), completedAt);
+    let battery = records.find((record) => !record.endedAt);
+
+    if (battery?.order.includes(domain)) {
+        const ended = battery.id;
+        records = records.map((record) => record.id === ended ? { ...record, endedAt: record.lastActivityAt } : record);
+        battery = undefined;
+    }
+
+    const order = [...(battery?.order ?? []), domain];
+    const updated: BatteryRecord = {
+        ...(battery ?? newBattery(completedAt)),
+        order,
+        lastActivityAt: completedAt.toISOString(),
+        endedAt: RESULT_DOMAINS.every((d) => order.includes(d)) ? completedAt.toISOString() : undefined,
+    };
+
+    writeBatteryRecords(profileId, [...records.filter((record) => record.id !== updated.id), updated]);
+    return updated.id;
+}
+
+/**
+ * Ends the battery in progress so the next test starts a new one.
+ */
+export function endBattery(profileId: string = getActiveProfileId(), now: Date = new Date()): void {
+    const records = closeLapsed(loadBatteryRecords(profileId), now)
+        .map((record) => record.endedAt ? record : { ...record, endedAt: record.lastActivityAt })
+        .filter((record) => record.order.length > 0);
+    writeBatteryRecords(profileId, records);
+}
+
+interface DomainResult {
+    domain: ResultDomain;
+    result: AnyStoredResult;
+}
+
+function toSession(id: string, group: DomainResult[], record: BatteryRecord | undefined): BatterySession {
+    const sorted = [...group].sort((a, b) => new Date(a.result.timestamp).getTime() - new Date(b.result.timestamp).getTime());
+    const results: Partial<Record<ResultDomain, AnyStoredResult>> = {};
+    sorted.forEach(({ domain, result }) => {
+        results[domain] = result;
+    });
+
+    const order = record?.order ?? sorted.map(({ domain }) => domain);
+    return {
+        id,
+        startedAt: new Date(record?.startedAt ?? sorted[0].result.timestamp),
+        endedAt: new Date(record?.endedAt ?? record?.lastActivityAt ?? sorted[sorted.length - 1].result.timestamp),
+        order,
+        results: results as BatteryResults,
+        completeness: new Set(order).size / RESULT_DOMAINS.length,
+        inferred: id.startsWith(INFERRED_PREFIX),
+        invalid: sorted.every(({ result }) => isResultInvalid(result)),
+        invalidReason: sorted.find(({ result }) => isResultInvalid(result))?.result.validity?.reason,
+        context: record?.context ?? sorted.find(({ result }) => result.context)?.result.context,
+    };
+}
+
+/**
+ * Groups results into battery sessions, oldest first.
+ * Results with a batteryId are grouped by it; the rest are grouped by time,
+ * starting a new battery after a gap of BATTERY_GAP_MS or when a domain repeats.
+ */
+export function assembleBatteries(
+    results: { [D in ResultDomain]: DomainResultMap[D][] },
+    records: BatteryRecord[] = loadBatteryRecords()
+): BatterySession[] {
+    const recordsById = new Map(records.map((record) => [record.id, record]));
+    const linked = new Map<string, DomainResult[]>();
+    const unlinked: DomainResult[] = [];
+
+    for (const domain of RESULT_DOMAINS) {
+        for (const result of results[domain] as AnyStoredResult[]) {
+            if (result.batteryId) {
+                linked.set(result.batteryId, [...(linked.get(result.batteryId) ?? []), { domain, result }]);
+            } else {
+                unlinked.push({ domain, result });
+            }
+        }
+    }
+
+    const sessions = Array.from(linked, ([id, group]) => toSession(id, group, recordsById.get(id)));
+
+    unlinked.sort((a, b) => new Date(a.result.timestamp).getTime() - new Date(b.result.timestamp).getTime());
+    let group: DomainResult[] = [];
+    const flush = () => {
+        if (group.length === 0) return;
+        sessions.push(toSession(`${INFERRED_PREFIX}${new Date(group[0].result.timestamp).getTime()}`, group, undefined));
+        group = [];
+    };
+    for (const item of unlinked) {
+        const last = group[group.length - 1];
+        const lapsed = last &&
+            new Date(item.result.timestamp).getTime() - new Date(last.result.timestamp).getTime() > BATTERY_GAP_MS;
+        if (lapsed || group.some(({ domain }) => domain === item.domain)) flush();
+        group.push(item);
+    }
+    flush();
+
+    return sessions.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
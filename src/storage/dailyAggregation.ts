@@ -0,0 +1,117 @@
+/**
+ * Daily Aggregation
+ * Every attempt is kept in the repositories (the attempts ledger). How several
+ * attempts on the same day are reduced to one data point is decided at read
+ * time, per domain, so the choice can change without losing data.
+ */
+
+import type { ResultDomain } from "./resultRepository";
+import { RESULTS_UPDATED_EVENT } from "./resultRepository";
+
+/**
+ * - all: every attempt is its own data point
+ * - best / first: one attempt per day
+ * - mean / median: one synthetic result per day whose numeric fields are the
+ *   mean / median over that day's attempts (arrays and ids come from the first attempt)
+ */
+export type DailyAggregation = "all" | "best" | "first" | "mean" | "median";
+
+export const DAILY_AGGREGATIONS: DailyAggregation[] = ["all", "best", "first", "mean", "median"];
+
+export interface DailyPolicy<T> {
+    /** Used unless the user picks another aggregation in Settings. */
+    defaultAggregation: DailyAggregation;
+    /** Whether `candidate` is a better attempt than `existing` (for "best"). */
+    isBetter: (candidate: T, existing: T) => boolean;
+}
+
+const AGGREGATION_KEY = "cognitrack_daily_aggregation";
+
+function readOverrides(): Partial<Record<ResultDomain, DailyAggregation>> {
+    try {
+        const stored = localStorage.getItem(AGGREGATION_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        return typeof parsed === "object" && parsed !== null ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * The aggregation the user chose for a domain, or the domain default.
+ */
+export function getDailyAggregation(domain: ResultDomain, fallback: DailyAggregation): DailyAggregation {
+    const chosen = readOverrides()[domain];
+    return chosen && DAILY_AGGREGATIONS.includes(chosen) ? chosen : fallback;
+}
+
+/**
+ * Stores the aggregation for a domain and tells mounted hooks to re-read.
+ */
+export function setDailyAggregation(domain: ResultDomain, aggregation: DailyAggregation): void {
+    localStorage.setItem(AGGREGATION_KEY, JSON.stringify({ ...readOverrides(), [domain]: aggregation }));
+    window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Replaces every numeric field (recursing into plain objects) with the
+ * center of that field across `values`. Other fields come from the first value.
+ */
+function combineNumericFields(values: unknown[], center: (numbers: number[]) => number): unknown {
+    const [first] = values;
+
+    if (typeof first === "number") {
+        const numbers = values.filter((v): v is number => typeof v === "number" && !isNaN(v));
+        return numbers.length > 0 ? center(numbers) : first;
+    }
+
+    if (typeof first === "object" && first !== null && !Array.isArray(first) && !(first instanceof Date)) {
+        const combined: Record<string, unknown> = {};
+        for (const key of Object.keys(first)) {
+            combined[key] = combineNumericFields(
+                values.map((v) => (v as Record<string, unknown> | null)?.[key]),
+                center
+            );
+        }
+        return combined;
+    }
+
+    return first;
+}
+
+/**
+ * Reduces a time-sorted attempts ledger to one data point per day (or leaves it as is for "all").
+ */
+export function aggregateDaily<T extends { timestamp: Date }>(
+    attempts: T[],
+    aggregation: DailyAggregation,
+    isBetter: DailyPolicy<T>["isBetter"]
+): T[] {
+    if (aggregation === "all") return attempts;
+
+    const byDay = new Map<string, T[]>();
+    for (const attempt of attempts) {
+        const day = new Date(attempt.timestamp).toLocaleDateString();
+        const group = byDay.get(day);
+        if (group) group.push(attempt);
+        else byDay.set(day, [attempt]);
+    }
+
+    return Array.from(byDay.values()).map((group) => {
+        if (group.length === 1 || aggregation === "first") return group[0];
+        if (aggregation === "best") {
+            return group.reduce((best, attempt) => (isBetter(attempt, best) ? attempt : best));
+        }
+        return combineNumericFields(group, aggregation === "mean" ? mean : median) as T;
+    });
+}
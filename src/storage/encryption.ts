@@ -0,0 +1,206 @@
+/**
+ * Result Encryption
+ * Optional at-rest encryption of stored results with a user passphrase.
+ *
+ * The passphrase is stretched with PBKDF2 (SHA-256) into an AES-GCM key and
+ * every record is encrypted separately with its own random IV. Only the salt
+ * and an encrypted check value are stored; the key lives in memory until the
+ * page is closed, so the store has to be unlocked on every visit.
+ *
+ * There is no recovery: a forgotten passphrase means the local results are lost.
+ */
+
+import type { StorageBackend, StoredEntry } from "./storageBackend";
+
+const ENCRYPTION_CONFIG_KEY = "cognitrack_encryption";
+const PBKDF2_ITERATIONS = 310_000;
+const VERIFIER_TEXT = "cognitrack-unlock-check";
+
+interface EncryptionConfig {
+    version: 1;
+    salt: string; // base64
+    iterations: number;
+    verifier: { iv: string; ciphertext: string };
+}
+
+/**
+ * What is stored in place of an encrypted record. The id and timestamp stay
+ * readable so the store can still index and replace records.
+ */
+export interface EncryptedRecord {
+    id: string;
+    timestamp: unknown;
+    iv: string; // base64
+    ciphertext: string; // base64
+}
+
+let activeKey: CryptoKey | null = null;
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+    let binary = "";
+    new Uint8Array(bytes).forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+function readConfig(): EncryptionConfig | null {
+    try {
+        const stored = localStorage.getItem(ENCRYPTION_CONFIG_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch {
+        return null;
+    }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(passphrase),
+        "PBKDF2",
+        false,
+        ["deriveKey"]
+    );
+    return crypto.subtle.deriveKey(
+        { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+}
+
+async function encryptText(key: CryptoKey, text: string): Promise<{ iv: string; ciphertext: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text));
+    return { iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+}
+
+async function decryptText(key: CryptoKey, iv: string, ciphertext: string): Promise<string> {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+    return new TextDecoder().decode(plain);
+}
+
+export function isEncryptionEnabled(): boolean {
+    return readConfig() !== null;
+}
+
+/** True while encryption is on and the passphrase has not been entered this visit. */
+export function isStorageLocked(): boolean {
+    return isEncryptionEnabled() && activeKey === null;
+}
+
+/**
+ * Unlocks the store for this visit. Returns false for a wrong passphrase.
+ */
+export async function unlockStorage(passphrase: string): Promise<boolean> {
+    const config = readConfig();
+    if (!config) return true;
+
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+        const check = await decryptText(key, config.verifier.iv, config.verifier.ciphertext);
+        if (check !== VERIFIER_TEXT) return false;
+    } catch {
+        return false; // AES-GCM authentication fails with the wrong key
+    }
+
+    activeKey = key;
+    return true;
+}
+
+/**
+ * Turns encryption on with a new passphrase. Existing records stay readable
+ * as plaintext until they are rewritten (see services/resultEncryption).
+ */
+export async function enableEncryption(passphrase: string): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const config: EncryptionConfig = {
+        version: 1,
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await encryptText(key, VERIFIER_TEXT),
+    };
+
+    localStorage.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(config));
+    activeKey = key;
+}
+
+/**
+ * Turns encryption off. Records read afterwards must already have been
+ * rewritten in plaintext (while still unlocked), or they become unreadable.
+ */
+export function disableEncryption(): void {
+    localStorage.removeItem(ENCRYPTION_CONFIG_KEY);
+    activeKey = null;
+}
+
+function isEncryptedRecord(record: unknown): record is EncryptedRecord {
+    return typeof record === "object" && record !== null &&
+        typeof (record as EncryptedRecord).iv === "string" &&
+        typeof (record as EncryptedRecord).ciphertext === "string";
+}
+
+/**
+ * Wraps a backend so records are encrypted on write and decrypted on read.
+ * Plaintext records (written before encryption was enabled) are read as is.
+ */
+export function createEncryptedBackend(inner: StorageBackend): StorageBackend {
+    function requireKey(): CryptoKey | null {
+        if (!isEncryptionEnabled()) return null;
+        if (!activeKey) throw new Error("Result storage is locked");
+        return activeKey;
+    }
+
+    async function encryptEntries(entries: StoredEntry[]): Promise<StoredEntry[]> {
+        const key = requireKey();
+        if (!key) return entries;
+
+        return Promise.all(entries.map(async ({ id, record }) => {
+            const encrypted: EncryptedRecord = {
+                id,
+                timestamp: (record as Record<string, unknown> | null)?.timestamp,
+                ...(await encryptText(key, JSON.stringify(record))),
+            };
+            return { id, record: encrypted };
+        }));
+    }
+
+    return {
+        name: `encrypted(${inner.name})`,
+
+        async getAll(collection) {
+            const entries = await inner.getAll(collection);
+            if (!entries.some((entry) => isEncryptedRecord(entry.record))) return entries;
+
+            const key = activeKey;
+            if (!key) throw new Error("Result storage is locked");
+            return Promise.all(entries.map(async ({ id, record }) => {
+                if (!isEncryptedRecord(record)) return { id, record };
+                try {
+                    return { id, record: JSON.parse(await decryptText(key, record.iv, record.ciphertext)) };
+                } catch {
+                    // Left encrypted: fails validation and is quarantined by the repository
+                    return { id, record };
+                }
+            }));
+        },
+
+        async putMany(collection, entries) {
+            await inner.putMany(collection, await encryptEntries(entries));
+        },
+
+        removeMany: (collection, ids) => inner.removeMany(collection, ids),
+
+        async replaceAll(collection, entries) {
+            await inner.replaceAll(collection, await encryptEntries(entries));
+        },
+
+        clear: (collection) => inner.clear(collection),
+    };
+}
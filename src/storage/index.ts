@@ -0,0 +1,12 @@
+export * from "./resultRepository";
+export * from "./resultSchemas";
+export * from "./quarantine";
+export * from "./storageBackend";
+export * from "./indexedDbBackend";
+export * from "./dailyAggregation";
+export * from "./encryption";
+export * from "./profiles";
+export * from "./batteries";
+export * from "./sessionValidity";
+export * from "./baselineEpochs";
+export * from "./riskHistory";
@@ -0,0 +1,149 @@
+/**
+ * IndexedDB Storage Backend
+ * One object-store row per result, indexed by domain (per profile) and timestamp.
+ *
+ * On first access to a domain, any results still in its legacy localStorage
+ * key are copied in and the key is removed (one-time migration).
+ */
+
+import type { ResultCollection, StorageBackend, StoredEntry } from "./storageBackend";
+import { readLocalStorageEntries } from "./storageBackend";
+import { logger } from "../utils/logger";
+
+const DB_NAME = "cognitrack";
+const DB_VERSION = 1;
+const RESULTS_STORE = "results";
+
+interface ResultRow {
+    key: string; // `${partition}:${id}`
+    domain: string; // collection partition (domain plus profile namespace)
+    id: string;
+    timestamp: number; // ms, 0 if the record has no valid timestamp
+    record: unknown;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const migratedPartitions = new Set<string>();
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+                    const store = db.createObjectStore(RESULTS_STORE, { keyPath: "key" });
+                    store.createIndex("domain", "domain");
+                    store.createIndex("timestamp", "timestamp");
+                    store.createIndex("domain_timestamp", ["domain", "timestamp"]);
+                }
+            };
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function toRow(collection: ResultCollection, entry: StoredEntry): ResultRow {
+    const timestamp = typeof entry.record === "object" && entry.record !== null
+        ? new Date((entry.record as Record<string, unknown>).timestamp as string).getTime()
+        : NaN;
+
+    return {
+        key: `${collection.partition}:${entry.id}`,
+        domain: collection.partition,
+        id: entry.id,
+        timestamp: isNaN(timestamp) ? 0 : timestamp,
+        record: entry.record,
+    };
+}
+
+/**
+ * Copies a domain's legacy localStorage array into IndexedDB, then removes the key.
+ */
+async function migrateLegacyKey(collection: ResultCollection): Promise<void> {
+    if (migratedPartitions.has(collection.partition)) return;
+
+    const legacy = readLocalStorageEntries(collection);
+    if (legacy.length > 0) {
+        const db = await openDatabase();
+        const tx = db.transaction(RESULTS_STORE, "readwrite");
+        const store = tx.objectStore(RESULTS_STORE);
+        legacy.forEach((entry) => store.put(toRow(collection, entry)));
+        await transactionDone(tx);
+        logger.info(`Migrated ${legacy.length} ${collection.domain} result(s) from localStorage to IndexedDB`);
+    }
+
+    localStorage.removeItem(collection.storageKey);
+    migratedPartitions.add(collection.partition);
+}
+
+export const indexedDbBackend: StorageBackend = {
+    name: "indexedDB",
+
+    async getAll(collection) {
+        await migrateLegacyKey(collection);
+        const db = await openDatabase();
+        const index = db
+            .transaction(RESULTS_STORE, "readonly")
+            .objectStore(RESULTS_STORE)
+            .index("domain_timestamp");
+        const range = IDBKeyRange.bound([collection.partition, -Infinity], [collection.partition, Infinity]);
+        const rows = await requestToPromise(index.getAll(range)) as ResultRow[];
+        return rows.map((row) => ({ id: row.id, record: row.record }));
+    },
+
+    async putMany(collection, entries) {
+        if (entries.length === 0) return;
+        const db = await openDatabase();
+        const tx = db.transaction(RESULTS_STORE, "readwrite");
+        const store = tx.objectStore(RESULTS_STORE);
+        entries.forEach((entry) => store.put(toRow(collection, entry)));
+        await transactionDone(tx);
+    },
+
+    async removeMany(collection, ids) {
+        if (ids.length === 0) return;
+        const db = await openDatabase();
+        const tx = db.transaction(RESULTS_STORE, "readwrite");
+        const store = tx.objectStore(RESULTS_STORE);
+        ids.forEach((id) => store.delete(`${collection.partition}:${id}`));
+        await transactionDone(tx);
+    },
+
+    async replaceAll(collection, entries) {
+        await migrateLegacyKey(collection);
+        const db = await openDatabase();
+        const tx = db.transaction(RESULTS_STORE, "readwrite");
+        const store = tx.objectStore(RESULTS_STORE);
+        const keys = await requestToPromise(store.index("domain").getAllKeys(collection.partition));
+        keys.forEach((key) => store.delete(key));
+        entries.forEach((entry) => store.put(toRow(collection, entry)));
+        await transactionDone(tx);
+    },
+
+    async clear(collection) {
+        await this.replaceAll(collection, []);
+    },
+};
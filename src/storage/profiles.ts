@@ -0,0 +1,133 @@
+/**
+ * Local Profiles
+ * Several people can be tested on one device. Each profile has its own
+ * result history; the repositories read and write the active profile.
+ *
+ * The default profile owns the original (un-namespaced) storage, so results
+ * recorded before profiles existed need no migration.
+ */
+
+import { RESULTS_UPDATED_EVENT } from "./resultRepository";
+
+export const DEFAULT_PROFILE_ID = "default";
+
+/** Fired on window when profiles are added, edited, removed or switched. */
+export const PROFILES_CHANGED_EVENT = "cognitrack:profiles-changed";
+
+export interface ProfileDemographics {
+    birthYear?: number;
+    sex?: "female" | "male" | "other";
+    educationYears?: number;
+}
+
+export interface Profile extends ProfileDemographics {
+    id: string;
+    name: string;
+    createdAt: string; // ISO 8601
+}
+
+interface ProfileState {
+    profiles: Profile[];
+    activeProfileId: string;
+}
+
+const PROFILES_KEY = "cognitrack_profiles";
+
+const DEFAULT_PROFILE: Profile = {
+    id: DEFAULT_PROFILE_ID,
+    name: "Me",
+    createdAt: new Date(0).toISOString(),
+};
+
+function readState(): ProfileState {
+    try {
+        const stored = localStorage.getItem(PROFILES_KEY);
+        const parsed = stored ? JSON.parse(stored) : null;
+        if (parsed && Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+            return parsed;
+        }
+    } catch {
+        // Fall through to the default state
+    }
+    return { profiles: [DEFAULT_PROFILE], activeProfileId: DEFAULT_PROFILE_ID };
+}
+
+function writeState(state: ProfileState, resultsChanged = false): void {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(state));
+    window.dispatchEvent(new Event(PROFILES_CHANGED_EVENT));
+    if (resultsChanged) {
+        window.dispatchEvent(new Event(RESULTS_UPDATED_EVENT));
+    }
+}
+
+export function getProfiles(): Profile[] {
+    return readState().profiles;
+}
+
+export function getActiveProfileId(): string {
+    const { profiles, activeProfileId } = readState();
+    return profiles.some((p) => p.id === activeProfileId) ? activeProfileId : profiles[0].id;
+}
+
+export function getActiveProfile(): Profile {
+    const id = getActiveProfileId();
+    return getProfiles().find((p) => p.id === id) ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Switches profile; mounted result hooks reload for the new profile.
+ */
+export function setActiveProfile(id: string): void {
+    const state = readState();
+    if (!state.profiles.some((p) => p.id === id) || state.activeProfileId === id) return;
+    writeState({ ...state, activeProfileId: id }, true);
+}
+
+export function createProfile(name: string, demographics: ProfileDemographics = {}): Profile {
+    const profile: Profile = {
+        ...demographics,
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+    };
+    const state = readState();
+    writeState({ ...state, profiles: [...state.profiles, profile] });
+    return profile;
+}
+
+/**
+ * Adds a profile known from another device (via sync) if it is not present yet.
+ */
+export function ensureProfile(id: string, name: string): void {
+    const state = readState();
+    if (state.profiles.some((p) => p.id === id)) return;
+    writeState({ ...state, profiles: [...state.profiles, { id, name, createdAt: new Date().toISOString() }] });
+}
+
+export function updateProfile(id: string, changes: Partial<Omit<Profile, "id" | "createdAt">>): void {
+    const state = readState();
+    writeState({
+        ...state,
+        profiles: state.profiles.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+    });
+}
+
+/**
+ * Removes a profile from the list. Its results must be cleared by the caller.
+ * The last remaining profile cannot be removed.
+ */
+export function removeProfile(id: string): void {
+    const state = readState();
+    const profiles = state.profiles.filter((p) => p.id !== id);
+    if (profiles.length === 0 || profiles.length === state.profiles.length) return;
+
+    const switched = state.activeProfileId === id;
+    writeState({ profiles, activeProfileId: switched ? profiles[0].id : state.activeProfileId }, switched);
+}
+
+/**
+ * Storage namespace suffix for a profile ("" for the default profile).
+ */
+export function getProfileNamespace(profileId: string): string {
+    return profileId === DEFAULT_PROFILE_ID ? "" : `__${profileId}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Record Quarantine
+ * Holds stored results that could not be parsed, migrated or validated,
+ * so they can be reported and inspected instead of silently disappearing.
+ */
+
+import { logger } from "../utils/logger";
+
+const QUARANTINE_KEY = "cognitrack_quarantine";
+
+export interface QuarantinedRecord {
+    domain: string;
+    reason: string;
+    raw: unknown; // The record exactly as it was found in storage
+    sourceId?: string; // Where it was found, e.g. a Firestore document id
+    quarantinedAt: string; // ISO date
+}
+
+/**
+ * Returns all quarantined records, oldest first.
+ */
+export function getQuarantinedRecords(): QuarantinedRecord[] {
+    try {
+        const stored = localStorage.getItem(QUARANTINE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Moves records into quarantine and reports them.
+ * A record with a sourceId is quarantined once, however often its source is read.
+ */
+export function quarantineRecords(
+    domain: string,
+    entries: { reason: string; raw: unknown; sourceId?: string }[]
+): void {
+    const existing = getQuarantinedRecords();
+    const seen = new Set(
+        existing.filter((record) => record.domain === domain && record.sourceId).map((record) => record.sourceId)
+    );
+    const fresh = entries.filter((entry) => {
+        if (!entry.sourceId) return true;
+        if (seen.has(entry.sourceId)) return false;
+        seen.add(entry.sourceId);
+        return true;
+    });
+    if (fresh.length === 0) return;
+
+    const quarantinedAt = new Date().toISOString();
+    const added = fresh.map((entry) => ({ domain, ...entry, quarantinedAt }));
+
+    logger.warn(
+        `Quarantined ${added.length} ${domain} record(s):`,
+        added.map((entry) => entry.reason)
+    );
+
+    try {
+        localStorage.setItem(
+            QUARANTINE_KEY,
+            JSON.stringify([...existing, ...added])
+        );
+    } catch (error) {
+        logger.error("Failed to write quarantine:", error);
+    }
+}
+
+/**
+ * Permanently discards all quarantined records.
+ */
+export function clearQuarantine(): void {
+    localStorage.removeItem(QUARANTINE_KEY);
+}
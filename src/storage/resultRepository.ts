@@ -0,0 +1,207 @@
+/**
+ * Result Repository
+ * Versioned result persistence shared by all test domains.
+ *
+ * Every stored record carries a `schemaVersion`. On load, older records are
+ * upgraded through the domain's ordered migrations and written back, so each
+ * migration runs once. Records that cannot be parsed, migrated or validated
+ * are moved to quarantine.
+ *
+ * Repositories keep every attempt; reducing same-day attempts is a read-time
+ * concern (see dailyAggregation.ts). They read and write the active profile
+ * unless bound to one with `forProfile`.
+ */
+
+import { quarantineRecords } from "./quarantine";
+import type { ResultCollection, StorageBackend, StoredEntry } from "./storageBackend";
+import { getRecordId, localStorageBackend } from "./storageBackend";
+import { indexedDbBackend } from "./indexedDbBackend";
+import { createEncryptedBackend } from "./encryption";
+import type { DailyPolicy } from "./dailyAggregation";
+import { getActiveProfileId, getProfileNamespace } from "./profiles";
+
+export type ResultDomain = "reaction" | "memory" | "pattern" | "language";
+
+/**
+ * Fired on window when stored results change outside of a hook
+ * (e.g. remote history merged by the sync service), so mounted hooks reload.
+ */
+export const RESULTS_UPDATED_EVENT = "cognitrack:results-updated";
+
+export type StoredRecord = Record<string, unknown>;
+
+/** Upgrades a record by exactly one schema version. */
+export type Migration = (record: StoredRecord) => StoredRecord;
+
+export interface ResultSchema<T> {
+    domain: ResultDomain;
+    storageKey: string; // localStorage key (legacy location when IndexedDB is used)
+    /**
+     * Ordered migrations: migrations[0] upgrades version 1 to 2, and so on.
+     * The current schema version is migrations.length + 1.
+     */
+    migrations: Migration[];
+    /** Returns a reason if the (migrated) record is not a valid T, otherwise null. */
+    validate: (record: StoredRecord) => string | null;
+    daily: DailyPolicy<T>;
+}
+
+export interface ResultRepository<T extends { timestamp: Date }> {
+    readonly domain: ResultDomain;
+    readonly schema: ResultSchema<T>;
+    /** Version written to every stored record. */
+    readonly schemaVersion: number;
+    /** Loads, migrates and validates all records, sorted by timestamp. */
+    load(): Promise<T[]>;
+    /**
+     * Migrates and validates one raw record without storing it.
+     * Records without a schemaVersion are assumed to be at `assumedVersion` (default 1).
+     */
+    parseRecord(raw: unknown, assumedVersion?: number): { result: T } | { reason: string };
+    /** Appends one attempt; returns the full ledger. */
+    save(result: T): Promise<T[]>;
+    /** Appends several attempts; returns the full ledger. */
+    appendAll(results: T[]): Promise<T[]>;
+    /** Overwrites stored attempts that have the same id (e.g. to flag them). */
+    update(results: T[]): Promise<void>;
+    /** Replaces the whole history (used by sync and import). */
+    replaceAll(results: T[]): Promise<void>;
+    clear(): Promise<void>;
+    /** The same repository bound to one profile instead of the active one. */
+    forProfile(profileId: string): ResultRepository<T>;
+}
+
+/**
+ * IndexedDB when the browser has it, localStorage otherwise,
+ * encrypted when the user has set a passphrase.
+ */
+export function getDefaultBackend(): StorageBackend {
+    return createEncryptedBackend(typeof indexedDB !== "undefined" ? indexedDbBackend : localStorageBackend);
+}
+
+/**
+ * Creates a repository for one result domain.
+ */
+export function createResultRepository<T extends { timestamp: Date }>(
+    schema: ResultSchema<T>,
+    backend: StorageBackend = getDefaultBackend(),
+    getProfileId: () => string = getActiveProfileId
+): ResultRepository<T> {
+    const currentVersion = schema.migrations.length + 1;
+
+    function getCollection(): ResultCollection {
+        const namespace = getProfileNamespace(getProfileId());
+        return {
+            domain: schema.domain,
+            partition: `${schema.domain}${namespace}`,
+            storageKey: `${schema.storageKey}${namespace}`,
+        };
+    }
+
+    function upgrade(record: StoredRecord, assumedVersion = 1): StoredRecord {
+        let version = typeof record.schemaVersion === "number" ? record.schemaVersion : assumedVersion;
+        if (version > currentVersion) {
+            throw new Error(`Unknown schema version ${version} (current is ${currentVersion})`);
+        }
+
+        let upgraded = record;
+        while (version < currentVersion) {
+            upgraded = schema.migrations[version - 1](upgraded);
+            version++;
+        }
+        return { ...upgraded, schemaVersion: currentVersion };
+    }
+
+    function hydrate(record: StoredRecord): T {
+        const rest = { ...record };
+        delete rest.schemaVersion;
+        return { ...rest, timestamp: new Date(rest.timestamp as string) } as unknown as T;
+    }
+
+    function toEntry(result: T, index = 0): StoredEntry {
+        // JSON round-trip so every backend stores the same plain shape
+        const record = { ...JSON.parse(JSON.stringify(result)), schemaVersion: currentVersion };
+        return { id: getRecordId(record, index), record };
+    }
+
+    function sortByTime(results: T[]): T[] {
+        return [...results].sort(
+            (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        );
+    }
+
+    function parseRecord(raw: unknown, assumedVersion = 1): { result: T } | { reason: string } {
+        if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+            return { reason: "Record is not an object" };
+        }
+
+        try {
+            const upgraded = upgrade(raw as StoredRecord, assumedVersion);
+            const reason = schema.validate(upgraded);
+            return reason ? { reason } : { result: hydrate(upgraded) };
+        } catch (error) {
+            return { reason: `Migration failed: ${String(error)}` };
+        }
+    }
+
+    async function load(): Promise<T[]> {
+        const collection = getCollection();
+        const entries = await backend.getAll(collection);
+
+        const valid: T[] = [];
+        const rejected: { reason: string; raw: unknown }[] = [];
+        const rejectedIds: string[] = [];
+        const upgradedEntries: StoredEntry[] = [];
+
+        for (const { id, record: raw } of entries) {
+            const parsed = parseRecord(raw);
+            if ("reason" in parsed) {
+                rejected.push({ reason: parsed.reason, raw });
+                rejectedIds.push(id);
+                continue;
+            }
+            if ((raw as StoredRecord).schemaVersion !== currentVersion) {
+                upgradedEntries.push({ id, record: toEntry(parsed.result).record });
+            }
+            valid.push(parsed.result);
+        }
+
+        // Persist migrations so each runs once, and move rejects out of the store
+        if (rejected.length > 0) {
+            quarantineRecords(schema.domain, rejected);
+            await backend.removeMany(collection, rejectedIds);
+        }
+        if (upgradedEntries.length > 0) {
+            await backend.putMany(collection, upgradedEntries);
+        }
+
+        return sortByTime(valid);
+    }
+
+    async function save(result: T): Promise<T[]> {
+        const existing = await load();
+        await backend.putMany(getCollection(), [toEntry(result, existing.length)]);
+        return sortByTime([...existing, result]);
+    }
+
+    async function appendAll(results: T[]): Promise<T[]> {
+        const existing = await load();
+        await backend.putMany(getCollection(), results.map((result, i) => toEntry(result, existing.length + i)));
+        return sortByTime([...existing, ...results]);
+    }
+
+    return {
+        domain: schema.domain,
+        schema,
+        schemaVersion: currentVersion,
+        load,
+        parseRecord,
+        save,
+        appendAll,
+        update: (results) => backend.putMany(getCollection(), results.map((result) => toEntry(result))),
+        replaceAll: (results) =>
+            backend.replaceAll(getCollection(), sortByTime(results).map((result, i) => toEntry(result, i))),
+        clear: () => backend.clear(getCollection()),
+        forProfile: (profileId) => createResultRepository(schema, backend, () => profileId),
+    };
+}
@@ -0,0 +1,175 @@
+/**
+ * Result Schemas
+ * Per-domain storage schema, migrations and validation for stored test results.
+ *
+ * When a result type gains a field, bump the schema by appending a migration
+ * that fills it in for older records.
+ */
+
+import type { ReactionTestResult } from "../components/tests/reaction/reactionFeatures";
+import type { MemoryTestResult } from "../hooks/useTestResults";
+import type { PatternAssessmentResult } from "../types/patternTypes";
+import type { LanguageAssessmentResult } from "../types/languageTypes";
+import type { SessionValidity } from "../types/validityTypes";
+import type { SessionContext } from "../types/contextTypes";
+import type { ResultDomain, ResultRepository, ResultSchema, StoredRecord } from "./resultRepository";
+import { createResultRepository } from "./resultRepository";
+
+export const STORAGE_KEYS = {
+    reactionResults: "cognitrack_reaction_results",
+    memoryResults: "cognitrack_memory_results",
+    patternResults: "cognitrack_pattern_results",
+    languageResults: "cognitrack_language_results",
+    lastSession: "cognitrack_last_session",
+};
+
+type FieldKind = "string" | "number" | "object" | "array" | "date";
+
+/**
+ * Checks that each (possibly nested, dot-separated) field has the expected kind.
+ * Returns the first problem found, or null.
+ */
+function checkFields(record: StoredRecord, fields: Record<string, FieldKind>): string | null {
+    for (const [path, kind] of Object.entries(fields)) {
+        let value: unknown = record;
+        for (const key of path.split(".")) {
+            value = typeof value === "object" && value !== null
+                ? (value as StoredRecord)[key]
+                : undefined;
+        }
+
+        const ok =
+            kind === "array" ? Array.isArray(value) :
+            kind === "object" ? typeof value === "object" && value !== null && !Array.isArray(value) :
+            kind === "date" ? (typeof value === "string" || typeof value === "number" || value instanceof Date) &&
+                !isNaN(new Date(value).getTime()) :
+            kind === "number" ? typeof value === "number" && !isNaN(value) :
+            typeof value === kind;
+
+        if (!ok) return `Field "${path}" is missing or not a ${kind}`;
+    }
+    return null;
+}
+
+export const reactionSchema: ResultSchema<ReactionTestResult> = {
+    domain: "reaction",
+    storageKey: STORAGE_KEYS.reactionResults,
+    migrations: [],
+    validate: (record) => checkFields(record, {
+        sessionId: "string",
+        timestamp: "date",
+        rounds: "array",
+        "aggregates.avg": "number",
+        falseStartCount: "number",
+        missedStimulusCount: "number",
+    }),
+    // Lower average reaction time is better
+    daily: { defaultAggregation: "best", isBetter: (a, b) => a.aggregates.avg < b.aggregates.avg },
+};
+
+export const memorySchema: ResultSchema<MemoryTestResult> = {
+    domain: "memory",
+    storageKey: STORAGE_KEYS.memoryResults,
+    migrations: [
+        // v1 -> v2: sessionId added. Derive it from the timestamp so the
+        // record keeps the Firestore document id it was synced under.
+        (record) => ({
+            ...record,
+            sessionId: record.sessionId ?? String(new Date(record.timestamp as string).getTime()),
+        }),
+    ],
+    validate: (record) => checkFields(record, {
+        sessionId: "string",
+        timestamp: "date",
+        totalWords: "number",
+        correctCount: "number",
+        accuracy: "number",
+    }),
+    // Higher accuracy is better
+    daily: { defaultAggregation: "best", isBetter: (a, b) => a.accuracy > b.accuracy },
+};
+
+export const patternSchema: ResultSchema<PatternAssessmentResult> = {
+    domain: "pattern",
+    storageKey: STORAGE_KEYS.patternResults,
+    migrations: [],
+    validate: (record) => checkFields(record, {
+        id: "string",
+        sessionId: "string",
+        timestamp: "date",
+        metrics: "object",
+        "metrics.maxLevelReached": "number",
+        derivedFeatures: "object",
+        rawSequenceData: "array",
+    }),
+    daily: { defaultAggregation: "all", isBetter: (a, b) => a.metrics.maxLevelReached > b.metrics.maxLevelReached },
+};
+
+export const languageSchema: ResultSchema<LanguageAssessmentResult> = {
+    domain: "language",
+    storageKey: STORAGE_KEYS.languageResults,
+    migrations: [],
+    validate: (record) => checkFields(record, {
+        id: "string",
+        sessionId: "string",
+        timestamp: "date",
+        transcript: "string",
+        rawMetrics: "object",
+        derivedFeatures: "object",
+        "derivedFeatures.wpm": "number",
+        explainability: "object",
+    }),
+    daily: { defaultAggregation: "all", isBetter: (a, b) => a.derivedFeatures.fluencyIndex > b.derivedFeatures.fluencyIndex },
+};
+
+export const reactionRepository = createResultRepository(reactionSchema);
+export const memoryRepository = createResultRepository(memorySchema);
+export const patternRepository = createResultRepository(patternSchema);
+export const languageRepository = createResultRepository(languageSchema);
+
+/**
+ * Result types by domain.
+ */
+export interface DomainResultMap {
+    reaction: ReactionTestResult;
+    memory: MemoryTestResult;
+    pattern: PatternAssessmentResult;
+    language: LanguageAssessmentResult;
+}
+
+export const RESULT_REPOSITORIES = {
+    reaction: reactionRepository,
+    memory: memoryRepository,
+    pattern: patternRepository,
+    language: languageRepository,
+};
+
+export const RESULT_DOMAINS = Object.keys(RESULT_REPOSITORIES) as ResultDomain[];
+
+export const RESULT_DOMAIN_LABELS: Record<ResultDomain, string> = {
+    reaction: "Reaction Time",
+    memory: "Memory Recall",
+    pattern: "Pattern Recognition",
+    language: "Speech",
+};
+
+/**
+ * The fields every stored result shares, for code that treats all domains alike.
+ */
+export interface AnyStoredResult {
+    timestamp: Date;
+    sessionId?: string;
+    id?: string;
+    batteryId?: string;
+    validity?: SessionValidity;
+    context?: SessionContext;
+}
+
+/**
+ * Domain-agnostic view of a repository (used by sync, import and export).
+ * Bound to `profileId` if given, otherwise to the active profile.
+ */
+export function getResultRepository(domain: ResultDomain, profileId?: string): ResultRepository<AnyStoredResult> {
+    const repository = RESULT_REPOSITORIES[domain] as unknown as ResultRepository<AnyStoredResult>;
+    return profileId ? repository.forProfile(profileId) : repository;
+}
@@ -0,0 +1,58 @@
+/**
+ * Risk History
+ * One entry per assessed session: the level the rules produced and the level
+ * reported after hysteresis, with the factors behind it. Kept per profile in
+ * localStorage; the Dashboard shows the transitions as a timeline.
+ */
+
+import type { AssessedRiskLevel } from "../ethics/messagingRules";
+import { getActiveProfileId, getProfileNamespace } from "./profiles";
+
+const RISK_HISTORY_KEY = "cognitrack_risk_history";
+
+/** Entries kept per profile; older ones are dropped. */
+export const MAX_RISK_HISTORY_ENTRIES = 200;
+
+export interface RiskHistoryEntry {
+    sessionTimestamp: number; // The assessed (latest) session
+    epochId: string; // Baseline epoch the session was assessed in
+    assessedAt: string; // ISO 8601
+    rawLevel: AssessedRiskLevel; // computeRisk's level for this session (after resampling, before hysteresis)
+    riskLevel: AssessedRiskLevel; // Level reported after hysteresis
+    riskConfidenceScore: number;
+    topFactors: string[];
+    policy: { id: string; version: number };
+}
+
+function getRiskHistoryKey(profileId: string): string {
+    return `${RISK_HISTORY_KEY}${getProfileNamespace(profileId)}`;
+}
+
+/**
+ * Risk history of a profile, oldest session first.
+ */
+export function loadRiskHistory(profileId: string = getActiveProfileId()): RiskHistoryEntry[] {
+    try {
+        const stored = localStorage.getItem(getRiskHistoryKey(profileId));
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Records the assessment of a session, replacing an earlier assessment of it.
+ * Entries for later sessions are dropped: the history was rewritten
+ * (e.g. the latest session was flagged invalid) and they no longer apply.
+ */
+export function recordRiskHistoryEntry(entry: RiskHistoryEntry, profileId: string = getActiveProfileId()): RiskHistoryEntry[] {
+    const kept = loadRiskHistory(profileId).filter((e) => e.sessionTimestamp < entry.sessionTimestamp);
+    const history = [...kept, entry].slice(-MAX_RISK_HISTORY_ENTRIES);
+    localStorage.setItem(getRiskHistoryKey(profileId), JSON.stringify(history));
+    return history;
+}
+
+export function clearRiskHistory(profileId: string = getActiveProfileId()): void {
+    localStorage.removeItem(getRiskHistoryKey(profileId));
+}
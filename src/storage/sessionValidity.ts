@@ -0,0 +1,34 @@
+/**
+ * Session Validity
+ * A session can be flagged as invalid (interrupted, unwell, ...) and restored later.
+ * Flagged results stay stored and visible, but are left out of baselines, trends,
+ * ML input and admin metrics. Every change is appended to the result's history.
+ */
+
+import type { InvalidReason, SessionValidity } from "../types/validityTypes";
+
+export function isResultInvalid(result: { validity?: SessionValidity }): boolean {
+    return result.validity?.invalid === true;
+}
+
+/**
+ * Returns the result flagged with `reason`, or restored when `reason` is null.
+ */
+export function withValidity<T extends { validity?: SessionValidity }>(
+    result: T,
+    reason: InvalidReason | null,
+    now: Date = new Date()
+): T {
+    const change = reason
+        ? { invalid: true, reason, changedAt: now.toISOString() }
+        : { invalid: false, changedAt: now.toISOString() };
+
+    return {
+        ...result,
+        validity: {
+            invalid: change.invalid,
+            reason: reason ?? undefined,
+            history: [...(result.validity?.history ?? []), change],
+        },
+    };
+}
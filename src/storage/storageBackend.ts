@@ -0,0 +1,110 @@
+/**
+ * Storage Backends
+ * Low-level record stores behind the result repositories.
+ *
+ * IndexedDB is used when available (per-record writes, no localStorage quota).
+ * The localStorage backend keeps the original one-array-per-key format and is
+ * the fallback for browsers without IndexedDB.
+ */
+
+import { quarantineRecords } from "./quarantine";
+import type { ResultDomain } from "./resultRepository";
+
+/** Identifies where one domain's results for one profile live. */
+export interface ResultCollection {
+    domain: ResultDomain;
+    /** Domain plus profile namespace; the partition key in IndexedDB. */
+    partition: string;
+    storageKey: string; // localStorage key (also the legacy key migrated into IndexedDB)
+}
+
+/** A raw stored record with its per-record id. */
+export interface StoredEntry {
+    id: string;
+    record: unknown;
+}
+
+export interface StorageBackend {
+    readonly name: string;
+    getAll(collection: ResultCollection): Promise<StoredEntry[]>;
+    /** Inserts or overwrites entries by id. */
+    putMany(collection: ResultCollection, entries: StoredEntry[]): Promise<void>;
+    removeMany(collection: ResultCollection, ids: string[]): Promise<void>;
+    replaceAll(collection: ResultCollection, entries: StoredEntry[]): Promise<void>;
+    clear(collection: ResultCollection): Promise<void>;
+}
+
+/**
+ * Derives the per-record id: sessionId, then id, then timestamp.
+ * Falls back to the array position for records too broken to have any.
+ */
+export function getRecordId(record: unknown, index: number): string {
+    if (typeof record === "object" && record !== null) {
+        const { sessionId, id, timestamp } = record as Record<string, unknown>;
+        if (typeof sessionId === "string" && sessionId) return sessionId;
+        if (typeof id === "string" && id) return id;
+        const time = new Date(timestamp as string).getTime();
+        if (!isNaN(time)) return String(time);
+    }
+    return `unidentified-${index}`;
+}
+
+/**
+ * Reads a localStorage array key as entries.
+ * An unparseable value is quarantined and the key removed.
+ */
+export function readLocalStorageEntries(collection: ResultCollection): StoredEntry[] {
+    const stored = localStorage.getItem(collection.storageKey);
+    if (!stored) return [];
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stored);
+    } catch (error) {
+        quarantineRecords(collection.domain, [{ reason: `Unparseable JSON: ${String(error)}`, raw: stored }]);
+        localStorage.removeItem(collection.storageKey);
+        return [];
+    }
+
+    if (!Array.isArray(parsed)) {
+        quarantineRecords(collection.domain, [{ reason: "Stored value is not an array", raw: parsed }]);
+        localStorage.removeItem(collection.storageKey);
+        return [];
+    }
+
+    return parsed.map((record, index) => ({ id: getRecordId(record, index), record }));
+}
+
+function writeLocalStorageEntries(collection: ResultCollection, entries: StoredEntry[]): void {
+    localStorage.setItem(collection.storageKey, JSON.stringify(entries.map((entry) => entry.record)));
+}
+
+export const localStorageBackend: StorageBackend = {
+    name: "localStorage",
+
+    async getAll(collection) {
+        return readLocalStorageEntries(collection);
+    },
+
+    async putMany(collection, entries) {
+        const byId = new Map(readLocalStorageEntries(collection).map((e) => [e.id, e]));
+        entries.forEach((entry) => byId.set(entry.id, entry));
+        writeLocalStorageEntries(collection, Array.from(byId.values()));
+    },
+
+    async removeMany(collection, ids) {
+        const remove = new Set(ids);
+        writeLocalStorageEntries(
+            collection,
+            readLocalStorageEntries(collection).filter((entry) => !remove.has(entry.id))
+        );
+    },
+
+    async replaceAll(collection, entries) {
+        writeLocalStorageEntries(collection, entries);
+    },
+
+    async clear(collection) {
+        localStorage.removeItem(collection.storageKey);
+    },
+};
@@ -0,0 +1,14 @@
+/**
+ * Type definitions for the optional pre-test check-in.
+ * Every answer is optional; unanswered questions are left out.
+ */
+
+export interface SessionContext {
+    sleepHours?: number; // Last night
+    hoursAwake?: number; // Time since waking
+    caffeineDrinks?: number; // Today, before the test
+    alcoholDrinks?: number; // In the last 24 hours
+    mood?: 1 | 2 | 3 | 4 | 5; // 1 = very low, 3 = neutral, 5 = very good
+    pain?: 0 | 1 | 2 | 3; // 0 = none, 3 = severe
+    recordedAt: string; // ISO 8601
+}
@@ -1,3 +1,6 @@
+import type { SessionValidity } from "./validityTypes";
+import type { SessionContext } from "./contextTypes";
+
 export interface LanguageRawMetrics {
     wordCount: number;
     speechDuration: number;
@@ -27,4 +30,7 @@ export interface LanguageAssessmentResult {
     explainability: {
         keyFactors: string[];
     };
+    batteryId?: string; // Battery session the test was taken in
+    validity?: SessionValidity; // Set when the session was flagged (or unflagged) as invalid
+    context?: SessionContext; // Pre-test check-in of the battery it was taken in
 }
@@ -2,6 +2,9 @@
  * Type definitions for the Visual Sequence Memory & Pattern Learning Assessment.
  */
 
+import type { SessionValidity } from "./validityTypes";
+import type { SessionContext } from "./contextTypes";
+
 export interface PatternRoundData {
     level: number;
     gridSize: number; // 3, 4, 5
@@ -37,4 +40,7 @@ export interface PatternAssessmentResult {
         patternStabilityIndex: number; // Consistency variance
     };
     rawSequenceData: PatternRoundData[];
+    batteryId?: string; // Battery session the test was taken in
+    validity?: SessionValidity; // Set when the session was flagged (or unflagged) as invalid
+    context?: SessionContext; // Pre-test check-in of the battery it was taken in
 }
@@ -0,0 +1,18 @@
+/**
+ * Type definitions for flagging test sessions as invalid.
+ */
+
+export type InvalidReason = "interrupted" | "unwell" | "device_issue" | "someone_else";
+
+/** One flag or unflag action, kept as an audit trail. */
+export interface ValidityChange {
+    invalid: boolean;
+    reason?: InvalidReason;
+    changedAt: string; // ISO 8601
+}
+
+export interface SessionValidity {
+    invalid: boolean;
+    reason?: InvalidReason;
+    history: ValidityChange[]; // Oldest first
+}
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for Robust Statistics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    bootstrapSlope, huberSlope, indexPoints, olsSlope, seededRandom, theilSenSlope, timePoints, weightedMedian,
+} from '../statistics';
+
+// Flat series with one bad session in the middle
+const withOutlier = indexPoints([0.8, 0.8, 0.8, 0.2, 0.8, 0.8, 0.8, 0.8]);
+const declining = indexPoints([0.9, 0.88, 0.85, 0.84, 0.8, 0.79, 0.76, 0.74, 0.71, 0.7]);
+
+describe('robust slopes', () => {
+    it('should match least squares on a clean line', () => {
+        const line = indexPoints([1, 3, 5, 7]);
+        expect(olsSlope(line)).toBeCloseTo(2);
+        expect(theilSenSlope(line)).toBeCloseTo(2);
+        expect(huberSlope(line)).toBeCloseTo(2);
+    });
+
+    it('should not let one bad session create a trend', () => {
+        expect(Math.abs(olsSlope(withOutlier))).toBeGreaterThan(0.005);
+        expect(theilSenSlope(withOutlier)).toBe(0);
+        expect(Math.abs(huberSlope(withOutlier))).toBeLessThan(Math.abs(olsSlope(withOutlier)));
+    });
+
+    it('should return 0 without variation in x', () => {
+        expect(theilSenSlope([{ x: 1, y: 1 }, { x: 1, y: 2 }])).toBe(0);
+        expect(olsSlope([{ x: 1, y: 1 }])).toBe(0);
+    });
+});
+
+describe('weightedMedian', () => {
+    // Reference: walk the sorted values until half the weight is covered
+    function sortedWeightedMedian(values: number[], weights: number[]): number {
+        const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+        const half = weights.reduce((a, b) => a + b, 0) / 2;
+        let cumulative = 0;
+        for (let k = 0; k < order.length; k++) {
+            cumulative += weights[order[k]];
+            if (Math.abs(cumulative - half) < 1e-12 && k + 1 < order.length) {
+                return (values[order[k]] + values[order[k + 1]]) / 2;
+            }
+            if (cumulative > half) return values[order[k]];
+        }
+        return values[order[order.length - 1]];
+    }
+
+    it('should match the sorted walk, with ties and exact halves', () => {
+        expect(weightedMedian([3, 1, 2, 4], [1, 1, 1, 1])).toBe(2.5);
+        expect(weightedMedian([5, 5, 1, 9], [1, 1, 1, 1])).toBe(5);
+        expect(weightedMedian([1, 2, 3], [0.5, 0.5, 1])).toBe(2.5);
+
+        const random = seededRandom(7);
+        for (let trial = 0; trial < 50; trial++) {
+            const length = 1 + Math.floor(random() * 40);
+            const values = Array.from({ length }, () => Math.round(random() * 10) / 2);
+            const weights = Array.from({ length }, () => [0.5, 1, 1, 2][Math.floor(random() * 4)]);
+            expect(weightedMedian(values, weights)).toBe(sortedWeightedMedian(values, weights));
+        }
+    });
+});
+
+describe('bootstrapSlope', () => {
+    it('should give an interval excluding zero for a steady decline', () => {
+        const estimate = bootstrapSlope(declining);
+        expect(estimate.upper).toBeLessThan(0);
+        expect(estimate.lower).toBeLessThanOrEqual(estimate.slope);
+        expect(estimate.pValue).toBeLessThan(0.05);
+    });
+
+    it('should give an interval including zero for noise', () => {
+        const estimate = bootstrapSlope(indexPoints([0.8, 0.7, 0.85, 0.75, 0.8, 0.72, 0.83]));
+        expect(estimate.lower).toBeLessThan(0);
+        expect(estimate.upper).toBeGreaterThan(0);
+    });
+
+    it('should refit resamples with the point estimator, so the interval holds the slope', () => {
+        // One bad session: Theil–Sen ignores it where Huber would not entirely
+        const series = indexPoints([0.8, 0.79, 0.81, 0.3, 0.78, 0.8, 0.77, 0.79, 0.76, 0.78]);
+        const estimate = bootstrapSlope(series);
+        expect(estimate.slope).toBe(theilSenSlope(series));
+        expect(estimate.lower).toBeLessThanOrEqual(estimate.slope);
+        expect(estimate.upper).toBeGreaterThanOrEqual(estimate.slope);
+
+        const huber = bootstrapSlope(series, { estimator: huberSlope });
+        expect(huber.slope).toBe(huberSlope(series));
+        expect(huber.lower).toBeLessThanOrEqual(huber.slope);
+        expect(huber.upper).toBeGreaterThanOrEqual(huber.slope);
+    });
+
+    it('should be reproducible', () => {
+        expect(bootstrapSlope(declining)).toEqual(bootstrapSlope(declining));
+    });
+
+    it('should refit a fixed number of resamples of the original size, however long the history', () => {
+        // A year of sessions every few days
+        const year = indexPoints(Array.from({ length: 120 }, (_, i) => 0.8 + 0.05 * Math.sin(i * 1.7)));
+        const sizes: number[] = [];
+        const counting = (points: typeof year) => {
+            sizes.push(points.length);
+            return theilSenSlope(points);
+        };
+
+        bootstrapSlope(year, { estimator: counting });
+        expect(sizes).toHaveLength(1 + 200);
+        expect(sizes.every((size) => size === year.length)).toBe(true);
+
+        sizes.length = 0;
+        bootstrapSlope(year, { estimator: counting, resamples: 50 });
+        expect(sizes).toHaveLength(1 + 50);
+    });
+});
+
+describe('timePoints', () => {
+    it('should place samples in 30-day units and split same-day weight', () => {
+        const start = Date.UTC(2025, 0, 1, 12);
+        const points = timePoints([
+            { timestamp: start, value: 1 },
+            { timestamp: start + 15 * 24 * 60 * 60 * 1000, value: 2 },
+            { timestamp: start + 15 * 24 * 60 * 60 * 1000 + 60_000, value: 3 },
+        ]);
+
+        expect(points[0]).toEqual({ x: 0, y: 1, weight: 1 });
+        expect(points[1].x).toBeCloseTo(0.5);
+        expect(points[1].weight).toBe(0.5);
+        expect(points[2].weight).toBe(0.5);
+    });
+});
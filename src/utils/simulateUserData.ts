@@ -139,6 +139,7 @@ export function simulateMemoryResults(
         const accuracy = Math.max(0.2, Math.min(1, baseAccuracy + modifier));
 
         results.push({
+            sessionId: `sim-memory-${Date.now()}-${i}`,
             timestamp: daysFromNow(7, i * 7),
             totalWords: baseline.totalWords,
             correctCount: Math.round(accuracy * baseline.totalWords),
@@ -290,6 +291,7 @@ export function getMockBaseline(): BaselineData {
             derivedFeatures: { stabilityIndex: 0.85, fatigueSlope: 2, attentionVariability: 0.1, baselineDeviation: 0, anomalyScore: 0 }
         },
         memory: {
+            sessionId: "mock-base-mem",
             timestamp: now,
             totalWords: 10,
             correctCount: 7,
@@ -0,0 +1,316 @@
+/**
+ * Robust Statistics
+ * Shared slope estimators for session series and within-test trials.
+ *
+ * Ordinary least squares lets a single bad session swing a short series, so
+ * trends use Theil–Sen (median of pairwise slopes) or Huber regression
+ * (least squares that down-weights large residuals). Uncertainty comes from
+ * a seeded bootstrap, so the same history always gives the same interval.
+ * The bootstrap refits each resample with the same estimator as the point
+ * estimate, so the interval describes the slope it is reported with. Theil–Sen
+ * has n² pairs per fit; their weighted median is found by quickselect rather
+ * than a sort, which keeps a year of sessions affordable.
+ *
+ * Session series are regressed on elapsed time, in units of SLOPE_PERIOD_DAYS,
+ * so every slope reads as "change per 30 days" however unevenly the sessions
+ * are spaced. Sessions sharing a day split one day's weight between them.
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+    /** Relative weight (default 1). */
+    weight?: number;
+}
+
+/** A measurement taken at a point in time. */
+export interface TimedValue {
+    timestamp: Date | number | string;
+    value: number;
+}
+
+export type SlopeEstimator = (points: Point[]) => number;
+
+export interface SlopeEstimate {
+    slope: number;
+    /** Bootstrap interval bounds at `level`. */
+    lower: number;
+    upper: number;
+    level: number;
+    /** Two-sided bootstrap p-value for slope = 0. */
+    pValue: number;
+}
+
+export interface BootstrapOptions {
+    /** Point estimate, also refitted on each resample (default Theil–Sen). */
+    estimator?: SlopeEstimator;
+    /** Interval coverage (default 0.9). */
+    level?: number;
+    resamples?: number;
+    seed?: number;
+}
+
+/** Slopes are expressed as change per this many days. */
+export const SLOPE_PERIOD_DAYS = 30;
+const SLOPE_PERIOD_MS = SLOPE_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+
+const DEFAULT_RESAMPLES = 200;
+const DEFAULT_SEED = 0x5eed;
+/** Huber tuning constant: 95% efficiency under normal errors. */
+const HUBER_K = 1.345;
+const HUBER_ITERATIONS = 20;
+
+/** Points (i, values[i]) for a series measured once per session or trial. */
+export function indexPoints(values: number[]): Point[] {
+    return values.map((y, x) => ({ x, y }));
+}
+
+/**
+ * Points with x = time since the first sample in SLOPE_PERIOD_DAYS units.
+ * Each calendar day carries a total weight of 1, so a burst of same-day
+ * sessions counts as much as a single session on another day.
+ */
+export function timePoints(samples: TimedValue[]): Point[] {
+    if (samples.length === 0) return [];
+    const times = samples.map((s) => new Date(s.timestamp).getTime());
+    const start = Math.min(...times);
+
+    const perDay = new Map<string, number>();
+    const days = times.map((time) => {
+        const day = new Date(time).toLocaleDateString();
+        perDay.set(day, (perDay.get(day) ?? 0) + 1);
+        return day;
+    });
+
+    return samples.map((s, i) => ({
+        x: (times[i] - start) / SLOPE_PERIOD_MS,
+        y: s.value,
+        weight: 1 / (perDay.get(days[i]) ?? 1),
+    }));
+}
+
+export function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Weighted median: the smallest value holding at least half the total weight.
+ * Found by weighted quickselect, linear on average, so Theil–Sen over all n²
+ * pairs stays affordable when every bootstrap resample is refitted with it.
+ */
+export function weightedMedian(values: number[], weights: number[]): number {
+    return selectWeightedMedian(Float64Array.from(values), Float64Array.from(weights), values.length);
+}
+
+/** weightedMedian of the first `length` entries; reorders `v` and `w` in place. */
+function selectWeightedMedian(v: Float64Array, w: Float64Array, length: number): number {
+    if (length === 0) return 0;
+    let half = 0;
+    for (let i = 0; i < length; i++) half += w[i];
+    half /= 2;
+    const swap = (i: number, j: number) => {
+        const value = v[i];
+        const weight = w[i];
+        v[i] = v[j];
+        w[i] = w[j];
+        v[j] = value;
+        w[j] = weight;
+    };
+
+    // Candidates are v[lo..hi); `below` is the weight of the values sorting before them
+    let lo = 0;
+    let hi = length;
+    let below = 0;
+    for (;;) {
+        // Three-way partition around the middle value: [lo, lt) < pivot, [lt, gt) = pivot, [gt, hi) > pivot
+        const pivot = v[(lo + hi) >> 1];
+        let lt = lo;
+        let gt = hi;
+        for (let i = lo; i < gt;) {
+            if (v[i] < pivot) swap(i++, lt++);
+            else if (v[i] > pivot) swap(i, --gt);
+            else i++;
+        }
+        let lessWeight = 0;
+        for (let i = lo; i < lt; i++) lessWeight += w[i];
+        let equalWeight = 0;
+        for (let i = lt; i < gt; i++) equalWeight += w[i];
+
+        // Exactly half: average with the next value, like the unweighted median
+        if (Math.abs(below + lessWeight - half) < 1e-12 && lt > lo) {
+            let largest = v[lo];
+            for (let i = lo + 1; i < lt; i++) largest = Math.max(largest, v[i]);
+            return (largest + pivot) / 2;
+        }
+        if (below + lessWeight > half) {
+            hi = lt;
+            continue;
+        }
+        const through = below + lessWeight + equalWeight;
+        if (Math.abs(through - half) < 1e-12 && gt < hi) {
+            let smallest = v[gt];
+            for (let i = gt + 1; i < hi; i++) smallest = Math.min(smallest, v[i]);
+            return (pivot + smallest) / 2;
+        }
+        if (through >= half || gt === hi) return pivot;
+        below = through;
+        lo = gt;
+    }
+}
+
+/** Linear-interpolated quantile, q in [0, 1]. */
+export function quantile(values: number[], q: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * q;
+    const below = Math.floor(position);
+    const above = Math.ceil(position);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/** Ordinary least-squares slope; 0 when x or y does not vary. */
+export function olsSlope(points: Point[], weights?: number[]): number {
+    const w = weights ?? points.map((p) => p.weight ?? 1);
+    const totalWeight = w.reduce((a, b) => a + b, 0);
+    if (points.length < 2 || totalWeight === 0) return 0;
+    // Exactly flat, rather than rounding error from the weighted means
+    if (points.every((p) => p.y === points[0].y)) return 0;
+
+    const meanX = points.reduce((sum, p, i) => sum + w[i] * p.x, 0) / totalWeight;
+    const meanY = points.reduce((sum, p, i) => sum + w[i] * p.y, 0) / totalWeight;
+    const sxx = points.reduce((sum, p, i) => sum + w[i] * (p.x - meanX) ** 2, 0);
+    const sxy = points.reduce((sum, p, i) => sum + w[i] * (p.x - meanX) * (p.y - meanY), 0);
+    return sxx === 0 ? 0 : sxy / sxx;
+}
+
+/**
+ * Theil–Sen slope: the median of all pairwise slopes, each pair weighted by
+ * the product of its point weights. Tolerates up to ~29% outlying points.
+ */
+export function theilSenSlope(points: Point[]): number {
+    const pairs = (points.length * (points.length - 1)) / 2;
+    const slopes = new Float64Array(pairs);
+    const weights = new Float64Array(pairs);
+    let count = 0;
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            const dx = points[j].x - points[i].x;
+            if (dx !== 0) {
+                slopes[count] = (points[j].y - points[i].y) / dx;
+                weights[count++] = (points[i].weight ?? 1) * (points[j].weight ?? 1);
+            }
+        }
+    }
+    return selectWeightedMedian(slopes, weights, count);
+}
+
+/**
+ * Huber regression slope by iteratively reweighted least squares.
+ * Residuals beyond HUBER_K robust standard deviations get weight k / |r|.
+ */
+export function huberSlope(points: Point[]): number {
+    if (points.length < 2) return 0;
+
+    let slope = olsSlope(points);
+    for (let iteration = 0; iteration < HUBER_ITERATIONS; iteration++) {
+        const intercept = median(points.map((p) => p.y - slope * p.x));
+        const residuals = points.map((p) => p.y - intercept - slope * p.x);
+        const scale = 1.4826 * median(residuals.map(Math.abs)); // MAD as a robust SD
+        if (scale === 0) break;
+
+        const weights = residuals.map((r, i) => {
+            const z = Math.abs(r) / scale;
+            return (points[i].weight ?? 1) * (z <= HUBER_K ? 1 : HUBER_K / z);
+        });
+        const next = olsSlope(points, weights);
+        if (Math.abs(next - slope) < 1e-12) return next;
+        slope = next;
+    }
+    return slope;
+}
+
+/** Small seeded PRNG (mulberry32), uniform on [0, 1). */
+export function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Slope with a bootstrap confidence interval and p-value.
+ * Points are resampled in pairs; fewer than three points give an interval
+ * spanning the estimate only, with p = 1.
+ */
+export function bootstrapSlope(points: Point[], options: BootstrapOptions = {}): SlopeEstimate {
+    const {
+        estimator = theilSenSlope,
+        level = 0.9,
+        resamples = DEFAULT_RESAMPLES,
+        seed = DEFAULT_SEED,
+    } = options;
+
+    const slope = estimator(points);
+    if (points.length < 3) {
+        return { slope, lower: slope, upper: slope, level, pValue: 1 };
+    }
+
+    const random = seededRandom(seed);
+    const samples: number[] = [];
+    for (let b = 0; b < resamples; b++) {
+        const resample = points.map(() => points[Math.floor(random() * points.length)]);
+        samples.push(estimator(resample));
+    }
+
+    const alpha = (1 - level) / 2;
+    const below = samples.filter((s) => s <= 0).length;
+    const above = samples.filter((s) => s >= 0).length;
+    // +1 keeps a finite number of resamples from reporting p = 0
+    const pValue = Math.min(1, (2 * Math.min(below, above) + 1) / (resamples + 1));
+
+    return {
+        slope,
+        lower: quantile(samples, alpha),
+        upper: quantile(samples, 1 - alpha),
+        level,
+        pValue,
+    };
+}
+
+/**
+ * Inverse of a square matrix by Gauss–Jordan elimination with partial pivoting.
+ * Returns null for a singular matrix.
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+    const n = matrix.length;
+    const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        const divisor = a[col][col];
+        a[col] = a[col].map((v) => v / divisor);
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = a[row][col];
+            a[row] = a[row].map((v, j) => v - factor * a[col][j]);
+        }
+    }
+    return a.map((row) => row.slice(n));
+}